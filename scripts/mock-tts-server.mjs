@@ -0,0 +1,180 @@
+/**
+ * Local stand-in for HTTP speech providers, for end-to-end testing without
+ * the real services. Returns a short WAV tone whose length follows the text.
+ *
+ *   npm run mock:tts            # listens on http://localhost:4010
+ *   PORT=5000 npm run mock:tts
+ *
+ * Point the ElevenLabs or OpenAI-compatible base URL in the Providers card
+ * at the server. Pronunciation dictionaries uploaded for active lexicons are
+ * accepted and forgotten. Errors can be triggered on purpose:
+ *   - no API key (ElevenLabs only)          -> 401
+ *   - API key "rate-limited"                -> 429 with Retry-After: 2
+ *   - empty text or over the length limit   -> 422 (ElevenLabs) / 400 (OpenAI)
+ *
+ * OpenAI `pcm` responses are raw 24kHz 16-bit samples; every other format is
+ * served as WAV, which browsers sniff and play regardless of the name.
+ */
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT) || 4010;
+const SAMPLE_RATE = 24000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'request-id, retry-after',
+};
+
+const toneWav = (seconds, frequency) => {
+  const frames = Math.round(seconds * SAMPLE_RATE);
+  const buffer = Buffer.alloc(44 + frames * 2);
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + frames * 2, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(frames * 2, 40);
+  for (let i = 0; i < frames; i++) {
+    const fade = Math.min(1, i / 500, (frames - i) / 500);
+    const sample = Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * 0.3 * fade;
+    buffer.writeInt16LE(Math.round(sample * 0x7fff), 44 + i * 2);
+  }
+  return buffer;
+};
+
+const toneSeconds = (text) => Math.max(0.5, text.length / 14);
+
+const readJson = async (req) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    return null;
+  }
+};
+
+const send = (res, status, body, headers = {}) => {
+  const isBuffer = Buffer.isBuffer(body);
+  res.writeHead(status, {
+    ...corsHeaders,
+    'Content-Type': isBuffer ? 'audio/wav' : 'application/json',
+    ...headers,
+  });
+  res.end(isBuffer ? body : JSON.stringify(body));
+};
+
+let requestCounter = 0;
+let dictionaryCounter = 0;
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  console.log(`${req.method} ${url.pathname}`);
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204, '');
+    return;
+  }
+
+  const apiKey = req.headers['xi-api-key'];
+
+  if (req.method === 'GET' && url.pathname === '/v1/voices') {
+    if (!apiKey) {
+      send(res, 401, { detail: { status: 'invalid_api_key', message: 'Missing xi-api-key' } });
+      return;
+    }
+    send(res, 200, {
+      voices: [
+        { voice_id: '21m00Tcm4TlvDq8ikWAM', name: 'Rachel', labels: { gender: 'female' } },
+        { voice_id: 'pNInz6obpgDQGcFmaJgB', name: 'Adam', labels: { gender: 'male' } },
+      ],
+    });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/v1/pronunciation-dictionaries/add-from-rules') {
+    if (!apiKey) {
+      send(res, 401, { detail: { status: 'invalid_api_key', message: 'Missing xi-api-key' } });
+      return;
+    }
+
+    const body = await readJson(req);
+    if (!body || !Array.isArray(body.rules) || body.rules.length === 0) {
+      send(res, 422, { detail: [{ loc: ['body', 'rules'], msg: 'field required', type: 'value_error' }] });
+      return;
+    }
+
+    dictionaryCounter++;
+    send(res, 200, {
+      id: `mock-dictionary-${dictionaryCounter}`,
+      version_id: `mock-version-${dictionaryCounter}`,
+      name: typeof body.name === 'string' ? body.name : 'Dictionary',
+    });
+    return;
+  }
+
+  const ttsMatch = url.pathname.match(/^\/v1\/text-to-speech\/([^/]+)(\/stream)?$/);
+  if (req.method === 'POST' && ttsMatch) {
+    if (!apiKey) {
+      send(res, 401, { detail: { status: 'invalid_api_key', message: 'Missing xi-api-key' } });
+      return;
+    }
+    if (apiKey === 'rate-limited') {
+      send(res, 429, { detail: { status: 'too_many_concurrent_requests', message: 'Slow down' } }, { 'Retry-After': '2' });
+      return;
+    }
+
+    const body = await readJson(req);
+    const text = body && typeof body.text === 'string' ? body.text : '';
+    if (!text.trim() || text.length > 5000) {
+      send(res, 422, {
+        detail: [{ loc: ['body', 'text'], msg: text ? 'text is longer than 5000 characters' : 'field required', type: 'value_error' }],
+      });
+      return;
+    }
+
+    const frequency = 180 + (ttsMatch[1].charCodeAt(0) % 10) * 20;
+    send(res, 200, toneWav(toneSeconds(text), frequency), { 'request-id': `mock-${++requestCounter}` });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/v1/audio/speech') {
+    if (req.headers.authorization === 'Bearer rate-limited') {
+      send(res, 429, { error: { message: 'Rate limit reached', type: 'requests' } }, { 'Retry-After': '2' });
+      return;
+    }
+
+    const body = await readJson(req);
+    const input = body && typeof body.input === 'string' ? body.input : '';
+    if (!input.trim() || input.length > 4096) {
+      send(res, 400, { error: { message: input ? 'input is longer than 4096 characters' : 'input is required', type: 'invalid_request_error' } });
+      return;
+    }
+
+    const voice = typeof body.voice === 'string' ? body.voice : 'alloy';
+    const speed = Number(body.speed) || 1;
+    const wav = toneWav(toneSeconds(input) / speed, 180 + (voice.charCodeAt(0) % 10) * 20);
+    if (body.response_format === 'pcm') {
+      send(res, 200, wav.subarray(44), { 'Content-Type': 'audio/pcm' });
+    } else {
+      send(res, 200, wav);
+    }
+    return;
+  }
+
+  send(res, 404, { detail: `No mock route for ${req.method} ${url.pathname}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock TTS server listening on http://localhost:${PORT}`);
+});
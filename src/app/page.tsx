@@ -1,16 +1,44 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { useTheme } from "next-themes";
 import TextInput from "@/components/TextInput";
+import TextNormalization from "@/components/TextNormalization";
+import MarkdownReading from "@/components/MarkdownReading";
 import VoiceSelector from "@/components/VoiceSelector";
 import AudioPlayer from "@/components/AudioPlayer";
+import StreamingAudioPlayer from "@/components/StreamingAudioPlayer";
 import AudioControls from "@/components/AudioControls";
 import VoiceHistory from "@/components/VoiceHistory";
+import ProviderSettings from "@/components/ProviderSettings";
+import RetrySettings from "@/components/RetrySettings";
+import CacheSettings from "@/components/CacheSettings";
+import DictionaryManager from "@/components/DictionaryManager";
+import LexiconManager from "@/components/LexiconManager";
+import { getEngine, listEngines, resolveEngine, ProviderError } from "@/lib/engines";
+import QueuePanel from "@/components/QueuePanel";
+import { getSpokenText, type PipelineResult, type SynthesizedChunk, type TextFormat } from "@/lib/synthesis-pipeline";
+import type { GenerationJob } from "@/lib/generation-queue";
+import { useGenerationQueue } from "@/hooks/use-generation-queue";
+import { createStreamingPlayer, type StreamingPlayer } from "@/lib/streaming-player";
+import { findSentenceAt } from "@/lib/text/chunker";
+import { validateSSML } from "@/lib/text/ssml";
+import { lintScript } from "@/lib/text/lint";
+import { DEFAULT_LOCALE } from "@/lib/text/locales";
+import { cleanTextForTTS, createVisualizationData, decodeAudioBlob, type WaveformPeaks } from "@/lib/audio-utils";
+import { loadExpansionSettings, resolveExpansionOptions, type ExpansionSettings } from "@/lib/expansion-settings";
+import type { ExpansionOptions } from "@/lib/text/abbreviations";
+import { getActiveLexicons, loadLexiconSettings, type LexiconSettings } from "@/lib/lexicon-settings";
+import type { Lexicon } from "@/lib/text/lexicon";
+import { detectParagraphLanguages } from "@/lib/text/language";
+import { DEFAULT_MARKDOWN_OPTIONS, type MarkdownReadingOptions } from "@/lib/text/markdown";
 
 interface VoiceSettings {
   voice: string;
@@ -28,13 +56,26 @@ interface GeneratedAudio {
   duration: number;
   createdAt: Date;
   settings: VoiceSettings;
+  chunks?: SynthesizedChunk[];
+  // Generation was cancelled before the whole text was synthesized
+  partial?: boolean;
+  // Engine that actually produced the audio (may be a fallback)
+  engineId?: string;
+  // Peaks for the player's waveform, added once the audio is decoded
+  waveform?: WaveformPeaks;
 }
 
 export default function HomePage() {
   const { theme, setTheme } = useTheme();
   const [text, setText] = useState("");
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [generationProgress, setGenerationProgress] = useState(0);
+  const [textFormat, setTextFormat] = useState<TextFormat>("markup");
+  const [locale, setLocale] = useState(DEFAULT_LOCALE);
+  const [normalizeNumbers, setNormalizeNumbers] = useState(true);
+  const [expansions, setExpansions] = useState<ExpansionOptions | undefined>(undefined);
+  const [lexicons, setLexicons] = useState<Lexicon[]>([]);
+  const [autoLanguage, setAutoLanguage] = useState(false);
+  const [markdownOptions, setMarkdownOptions] = useState<MarkdownReadingOptions>(DEFAULT_MARKDOWN_OPTIONS);
+  const [chunkProgress, setChunkProgress] = useState<{ current: number; total: number } | null>(null);
   const [currentAudio, setCurrentAudio] = useState<GeneratedAudio | null>(null);
   const [audioHistory, setAudioHistory] = useState<GeneratedAudio[]>([]);
   const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>({
@@ -44,157 +85,218 @@ export default function HomePage() {
     stability: 0.75,
     clarity: 0.75,
   });
+  const [engineId, setEngineId] = useState(() => resolveEngine().id);
+  // Bumped when provider settings change so engine availability is re-read
+  const [, setProvidersVersion] = useState(0);
+
+  // Play chunks as they arrive instead of waiting for the whole script
+  const [streamPlayback, setStreamPlayback] = useState(true);
+  const [streamingPlayer, setStreamingPlayer] = useState<StreamingPlayer | null>(null);
+  const streamingJobRef = useRef<{ jobId: string; player: StreamingPlayer } | null>(null);
+
+  // Save what was synthesized before a cancel instead of discarding it
+  const [keepPartial, setKeepPartial] = useState(true);
+  // Read when the cancel lands, which can be after the switch was flipped mid-generation
+  const keepPartialRef = useRef(keepPartial);
+
+  // The job started from the Generate button; progress and controls follow it
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const activeJobIdRef = useRef<string | null>(null);
 
   const audioRef = useRef<HTMLAudioElement>(null);
 
-  // Browser-based voice generation using Web Speech API
-  const generateBrowserVoice = useCallback(async (text: string, settings: VoiceSettings): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      if (!('speechSynthesis' in window)) {
-        reject(new Error('Speech synthesis not supported in this browser'));
-        return;
-      }
+  const addToHistory = useCallback((job: GenerationJob, result: PipelineResult, partial: boolean) => {
+    // Engines without audio output (e.g. Web Speech) only report playback time
+    const audioUrl = result.audio ? URL.createObjectURL(result.audio) : "";
+
+    const newAudio: GeneratedAudio = {
+      id: job.id,
+      text: job.text.substring(0, 100) + (job.text.length > 100 ? "..." : ""),
+      voice: job.settings.voice,
+      audioUrl,
+      duration: result.duration,
+      createdAt: new Date(),
+      settings: { ...job.settings },
+      chunks: result.chunks,
+      partial,
+      engineId: job.engineId,
+    };
+
+    setCurrentAudio(newAudio);
+    setAudioHistory(prev => [newAudio, ...prev.slice(0, 9)]); // Keep last 10
+
+    if (result.audio) {
+      decodeAudioBlob(result.audio)
+        .then(createVisualizationData)
+        .then(waveform => {
+          const withWaveform = (entry: GeneratedAudio) => entry.id === newAudio.id ? { ...entry, waveform } : entry;
+          setCurrentAudio(prev => prev && withWaveform(prev));
+          setAudioHistory(prev => prev.map(withWaveform));
+        })
+        .catch(error => console.error("Waveform analysis failed:", error));
+    }
+  }, []);
 
-      // Simple approach: just speak the text and create a mock audio blob
-      const utterance = new SpeechSynthesisUtterance(text);
-      
-      // Get available voices
-      const voices = window.speechSynthesis.getVoices();
-      
-      // Voice mapping based on our voice names
-      const voiceMap: Record<string, string[]> = {
-        'rachel': ['female', 'zira', 'karen', 'samantha'],
-        'domi': ['female', 'hazel', 'victoria', 'allison'],
-        'bella': ['female', 'eva', 'fiona', 'susan'],
-        'antoni': ['male', 'david', 'daniel', 'alex'],
-        'elli': ['female', 'mark', 'kate', 'veena'],
-        'josh': ['male', 'tom', 'fred', 'josh'],
-        'arnold': ['male', 'paul', 'oliver', 'ralph'],
-        'adam': ['male', 'mark', 'aaron', 'bruce'],
-        'sam': ['male', 'david', 'sam', 'junior']
-      };
-
-      // Find best matching voice
-      const preferredVoices = voiceMap[settings.voice] || ['female'];
-      let selectedVoice = voices.find(voice => 
-        preferredVoices.some(pref => 
-          voice.name.toLowerCase().includes(pref.toLowerCase())
-        )
-      );
-
-      // Fallback: select by gender
-      if (!selectedVoice) {
-        const isFemale = ['rachel', 'domi', 'bella', 'elli'].includes(settings.voice);
-        selectedVoice = voices.find(voice => 
-          isFemale ? 
-            (voice.name.toLowerCase().includes('female') || voice.name.toLowerCase().includes('woman')) :
-            (voice.name.toLowerCase().includes('male') || voice.name.toLowerCase().includes('man'))
-        );
-      }
+  const handleJobSettled = useCallback((job: GenerationJob) => {
+    const streaming = streamingJobRef.current?.jobId === job.id ? streamingJobRef.current : null;
+    streamingJobRef.current = streaming ? null : streamingJobRef.current;
+    streaming?.player.finish();
+    // Nothing to play, e.g. the job failed early or fell back to a live-only engine
+    if (streaming && streaming.player.getState().bufferedDuration === 0) {
+      setStreamingPlayer(null);
+    }
 
-      // Ultimate fallback - use first available voice
-      if (!selectedVoice && voices.length > 0) {
-        selectedVoice = voices[0];
+    if (job.id === activeJobIdRef.current) {
+      setChunkProgress(null);
+    }
+
+    if (job.status === "done" && job.result) {
+      addToHistory(job, job.result, false);
+      return;
+    }
+
+    if (job.status === "cancelled") {
+      if (keepPartialRef.current && job.result) {
+        addToHistory(job, job.result, true);
+      } else if (streaming) {
+        setStreamingPlayer(null);
       }
+      return;
+    }
 
-      if (selectedVoice) {
-        utterance.voice = selectedVoice;
+    if (job.status === "failed") {
+      console.error("Voice generation failed:", job.error);
+      // Background jobs report failures in the queue panel instead
+      if (job.id === activeJobIdRef.current) {
+        const reason = job.error instanceof ProviderError
+          ? `${job.error.provider}: ${job.error.message}`
+          : job.error?.message || "Unknown error";
+        const tried = [...job.failures.map(failure => failure.engineId), job.engineId]
+          .map(id => getEngine(id)?.name ?? id)
+          .join(" → ");
+        alert(`Failed to generate voice (tried ${tried}).\n${reason}`);
       }
+    }
+  }, [addToHistory]);
 
-      // Apply voice settings
-      utterance.rate = Math.max(0.5, Math.min(2.0, settings.speed || 1.0));
-      utterance.pitch = Math.max(0.5, Math.min(2.0, settings.pitch || 1.0));
-      utterance.volume = 1.0;
-
-      // Event handlers
-      utterance.onstart = () => {
-        console.log('Speech started');
-      };
-
-      utterance.onend = () => {
-        console.log('Speech ended');
-        // Create a simple blob to indicate completion
-        // Note: Web Speech API doesn't provide direct audio file output
-        // This is a limitation of the browser API
-        const audioInfo = {
-          text: text,
-          voice: selectedVoice?.name || 'default',
-          settings: settings,
-          duration: Math.ceil(text.length / 10), // Rough estimate
-          timestamp: new Date().toISOString()
-        };
-        
-        const blob = new Blob([JSON.stringify(audioInfo)], { 
-          type: 'application/json' 
-        });
-        resolve(blob);
-      };
-
-      utterance.onerror = (error) => {
-        console.error('Speech error:', error);
-        reject(new Error(`Speech synthesis failed: ${error.error}`));
-      };
-
-      // Cancel any current speech and start new one
-      window.speechSynthesis.cancel();
-      
-      // Small delay to ensure cancel completes
-      setTimeout(() => {
-        window.speechSynthesis.speak(utterance);
-      }, 100);
-    });
+  const { queue, state: queueState } = useGenerationQueue(handleJobSettled);
+
+  const activeJob = queueState.jobs.find(job => job.id === activeJobId) ?? null;
+  const isGenerating = !!activeJob && (activeJob.status === "queued" || activeJob.status === "running");
+  // Engines without audio output speak through the browser's single speech channel, which a preview would take over
+  const previewEngine = resolveEngine(engineId);
+  const previewDisabled = !previewEngine.capabilities.producesAudio
+    && queueState.jobs.some(job => job.status === "running" && job.engineId === previewEngine.id);
+
+  const closeStreamingPlayer = useCallback(() => {
+    setStreamingPlayer(null);
   }, []);
 
-  const generateVoice = useCallback(async () => {
-    if (!text.trim() || isGenerating) return;
-
-    setIsGenerating(true);
-    setGenerationProgress(0);
-
-    try {
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setGenerationProgress(prev => {
-          if (prev >= 90) return prev;
-          return prev + Math.random() * 15;
-        });
-      }, 200);
-
-      // Use Web Speech API (browser-based TTS) with enhanced voice simulation
-      clearInterval(progressInterval);
-      setGenerationProgress(100);
-
-      // Generate audio using browser's Speech Synthesis API
-      const audioBlob = await generateBrowserVoice(text, voiceSettings);
-      const audioUrl = URL.createObjectURL(audioBlob);
-
-      // Create audio element to get duration
-      const audio = new Audio(audioUrl);
-      await new Promise((resolve) => {
-        audio.addEventListener("loadedmetadata", resolve);
-      });
-
-      const newAudio: GeneratedAudio = {
-        id: Date.now().toString(),
-        text: text.substring(0, 100) + (text.length > 100 ? "..." : ""),
-        voice: voiceSettings.voice,
-        audioUrl,
-        duration: audio.duration,
-        createdAt: new Date(),
-        settings: { ...voiceSettings },
-      };
-
-      setCurrentAudio(newAudio);
-      setAudioHistory(prev => [newAudio, ...prev.slice(0, 9)]); // Keep last 10
-      
-    } catch (error) {
-      console.error("Voice generation failed:", error);
-      alert("Failed to generate voice. Please try again.");
-    } finally {
-      setIsGenerating(false);
-      setGenerationProgress(0);
+  useEffect(() => {
+    keepPartialRef.current = keepPartial;
+  }, [keepPartial]);
+
+  // Release the previous player's AudioContext when it is replaced or closed
+  useEffect(() => {
+    return () => streamingPlayer?.dispose();
+  }, [streamingPlayer]);
+
+  const ssmlIssues = useMemo(
+    () => textFormat === "ssml" ? validateSSML(text) : [],
+    [text, textFormat]
+  );
+
+  const readingLocale = normalizeNumbers ? locale : undefined;
+
+  const lintFindings = useMemo(
+    () => lintScript(text, { format: textFormat, locale: readingLocale, expansions }),
+    [text, textFormat, readingLocale, expansions]
+  );
+
+  const languageSpans = useMemo(() => detectParagraphLanguages(text), [text]);
+
+  // Abbreviation dictionaries and lexicons live in localStorage, only available after mount
+  useEffect(() => {
+    setExpansions(resolveExpansionOptions(loadExpansionSettings()));
+    setLexicons(getActiveLexicons(loadLexiconSettings()));
+  }, []);
+
+  const updateExpansions = useCallback((settings: ExpansionSettings) => {
+    setExpansions(resolveExpansionOptions(settings));
+  }, []);
+
+  const updateLexicons = useCallback((settings: LexiconSettings) => {
+    setLexicons(getActiveLexicons(settings));
+  }, []);
+
+  const generateVoice = useCallback(() => {
+    if (!text.trim() || ssmlIssues.length > 0) return;
+
+    // While a generation is in progress, further requests just join the queue
+    if (isGenerating) {
+      queue.enqueue({ text, format: textFormat, locale: readingLocale, expansions, lexicons, detectLanguage: autoLanguage, markdown: markdownOptions, engineId, settings: voiceSettings });
+      return;
+    }
+
+    const engine = resolveEngine(engineId);
+    // Created inside the click handler so the browser lets it start playing
+    const player = streamPlayback && engine.capabilities.producesAudio
+      ? createStreamingPlayer()
+      : null;
+    if (player) {
+      player.play();
+      setStreamingPlayer(player);
+    }
+
+    // Generate audio chunk by chunk using the selected speech engine
+    const jobId = queue.enqueue({
+      text,
+      format: textFormat,
+      locale: readingLocale,
+      expansions,
+      lexicons,
+      detectLanguage: autoLanguage,
+      markdown: markdownOptions,
+      engineId,
+      settings: voiceSettings,
+      callbacks: {
+        onChunkStart: (index, total) => {
+          setChunkProgress({ current: index + 1, total });
+        },
+        onChunkAudio: (_index, buffer, gapAfter) => {
+          player?.enqueue(buffer, gapAfter);
+        },
+        // The fallback engine starts over, so drop audio from the failed one
+        onFallback: () => {
+          player?.clear();
+          setChunkProgress(null);
+        },
+      },
+    });
+
+    activeJobIdRef.current = jobId;
+    setActiveJobId(jobId);
+    setChunkProgress(null);
+    if (player) {
+      streamingJobRef.current = { jobId, player };
     }
-  }, [text, voiceSettings, isGenerating, generateBrowserVoice]);
+  }, [text, textFormat, readingLocale, expansions, lexicons, autoLanguage, markdownOptions, ssmlIssues, voiceSettings, isGenerating, engineId, streamPlayback, queue]);
+
+  const togglePause = useCallback(() => {
+    if (!activeJob) return;
+
+    if (activeJob.paused) {
+      queue.resume(activeJob.id);
+    } else {
+      queue.pause(activeJob.id);
+    }
+  }, [activeJob, queue]);
+
+  const generationProgress = isGenerating ? activeJob.progress * 100 : 0;
+  const isPaused = isGenerating && activeJob.paused;
+  const activeSentence = isGenerating && activeJob.charIndex !== null
+    ? findSentenceAt(activeJob.text, activeJob.charIndex, activeJob.expansions?.entries)
+    : null;
 
   const wordCount = text.trim().split(/\s+/).filter(word => word.length > 0).length;
   const charCount = text.length;
@@ -252,7 +354,39 @@ export default function HomePage() {
                 value={text}
                 onChange={setText}
                 placeholder="Enter your text here... Try adding emphasis with *bold text* or pauses with commas and periods for natural speech rhythm."
+                format={textFormat}
+                onFormatChange={setTextFormat}
+                issues={ssmlIssues}
+                findings={lintFindings}
+                languages={languageSpans}
+                autoLanguage={autoLanguage}
+                onAutoLanguageChange={setAutoLanguage}
               />
+              {textFormat === "markdown" && (
+                <div className="mt-3">
+                  <MarkdownReading options={markdownOptions} onChange={setMarkdownOptions} />
+                </div>
+              )}
+              {textFormat === "ssml" && (
+                <p className="text-xs text-muted-foreground mt-3">
+                  ℹ️ No engine reads SSML directly. Breaks, emphasis and slow prosody are approximated,
+                  substitutions are read as their alias, say-as characters are spelled out, and other tags are read
+                  as plain text.
+                </p>
+              )}
+              <div className="mt-4">
+                <TextNormalization
+                  text={text}
+                  format={textFormat}
+                  locale={locale}
+                  onLocaleChange={setLocale}
+                  enabled={normalizeNumbers}
+                  onEnabledChange={setNormalizeNumbers}
+                  expansions={expansions}
+                  lexicons={lexicons}
+                  markdown={markdownOptions}
+                />
+              </div>
             </CardContent>
           </Card>
 
@@ -265,8 +399,10 @@ export default function HomePage() {
               </CardHeader>
               <CardContent>
                 <VoiceSelector
+                  engineId={engineId}
                   value={voiceSettings.voice}
                   onChange={(voice) => setVoiceSettings(prev => ({ ...prev, voice }))}
+                  previewDisabled={previewDisabled}
                 />
               </CardContent>
             </Card>
@@ -292,22 +428,81 @@ export default function HomePage() {
                 {isGenerating && (
                   <div className="space-y-2">
                     <div className="flex items-center justify-between text-sm">
-                      <span>Generating voice...</span>
+                      <span>
+                        {isPaused
+                          ? "Paused"
+                          : activeJob.status === "queued" ? "Waiting in queue..." : "Generating voice..."}
+                        {chunkProgress && chunkProgress.total > 1 && (
+                          <span className="text-muted-foreground ml-2">
+                            Chunk {chunkProgress.current} of {chunkProgress.total}
+                          </span>
+                        )}
+                      </span>
                       <span>{Math.round(generationProgress)}%</span>
                     </div>
                     <Progress value={generationProgress} />
+                    {activeSentence && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">
+                        {resolveEngine(activeJob.engineId).capabilities.producesAudio ? "Synthesizing" : "Speaking"}:{" "}
+                        <span className="text-foreground">
+                          {activeJob.format === "ssml"
+                            ? cleanTextForTTS(activeSentence.text)
+                            : activeJob.format === "markdown"
+                              ? getSpokenText(activeSentence.text, { format: "markdown", markdown: activeJob.markdown ?? undefined })
+                              : activeSentence.text}
+                        </span>
+                      </p>
+                    )}
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={togglePause} disabled={activeJob.status !== "running"}>
+                        {isPaused ? "▶️ Resume" : "⏸️ Pause"}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => activeJob && queue.cancel(activeJob.id)}>
+                        ⏹️ Cancel
+                      </Button>
+                      <div className="flex items-center gap-2 ml-auto">
+                        <Switch
+                          id="keep-partial"
+                          checked={keepPartial}
+                          onCheckedChange={setKeepPartial}
+                        />
+                        <Label htmlFor="keep-partial" className="text-sm">Keep partial result</Label>
+                      </div>
+                    </div>
                   </div>
                 )}
                 
                 <div className="flex items-center gap-4">
+                  <Select value={engineId} onValueChange={setEngineId}>
+                    <SelectTrigger className="w-48" size="sm">
+                      <SelectValue placeholder="Speech engine" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {listEngines().map((engine) => (
+                        <SelectItem key={engine.id} value={engine.id} disabled={!engine.isAvailable()}>
+                          {engine.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
                   <Button
                     onClick={generateVoice}
-                    disabled={!text.trim() || isGenerating}
+                    disabled={!text.trim() || ssmlIssues.length > 0}
                     size="lg"
                     className="flex-1 md:flex-none"
                   >
-                    {isGenerating ? "Generating..." : "Generate Voice"}
+                    {isGenerating ? "Add to Queue" : "Generate Voice"}
                   </Button>
+
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="stream-playback"
+                      checked={streamPlayback}
+                      onCheckedChange={setStreamPlayback}
+                    />
+                    <Label htmlFor="stream-playback" className="text-sm">Stream</Label>
+                  </div>
                   
                   <Button
                     variant="outline"
@@ -321,13 +516,33 @@ export default function HomePage() {
             </CardContent>
           </Card>
 
+          {/* Streaming Player: plays chunks while the rest is still generating */}
+          {streamingPlayer && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Now Playing</CardTitle>
+                <CardDescription>
+                  Playback started with the first chunk; the timeline grows as more audio arrives
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <StreamingAudioPlayer
+                  player={streamingPlayer}
+                  voice={activeJob?.settings.voice}
+                  onClose={closeStreamingPlayer}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Audio Player */}
-          {currentAudio && (
+          {currentAudio && !streamingPlayer && (
             <Card>
               <CardHeader>
                 <CardTitle>Generated Audio</CardTitle>
                 <CardDescription>
                   Voice: {currentAudio.voice} • Duration: {Math.round(currentAudio.duration)}s
+                  {currentAudio.engineId && ` • Engine: ${getEngine(currentAudio.engineId)?.name ?? currentAudio.engineId}`}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -348,6 +563,18 @@ export default function HomePage() {
             currentAudio={currentAudio}
           />
 
+          <QueuePanel queue={queue} state={queueState} />
+
+          <ProviderSettings onSave={() => setProvidersVersion(version => version + 1)} />
+
+          <RetrySettings />
+
+          <DictionaryManager onChange={updateExpansions} />
+
+          <LexiconManager onChange={updateLexicons} />
+
+          <CacheSettings refreshKey={queueState.jobs.filter(job => job.status === "done").length} />
+
           {/* Features Card */}
           <Card>
             <CardHeader>
@@ -373,7 +600,7 @@ export default function HomePage() {
                   <div className="w-2 h-2 bg-purple-500 rounded-full mt-2"></div>
                   <div>
                     <div className="font-medium">Audio Download</div>
-                    <div className="text-muted-foreground">Save generated voices as MP3</div>
+                    <div className="text-muted-foreground">Save generated voices as WAV audio</div>
                   </div>
                 </div>
                 <div className="flex items-start gap-3">
@@ -6,6 +6,11 @@ import { Slider } from "@/components/ui/slider";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import ExportDialog from "@/components/ExportDialog";
+import Waveform from "@/components/Waveform";
+import { getEngine } from "@/lib/engines";
+import { downloadAudio as saveAudio, type WaveformPeaks } from "@/lib/audio-utils";
+import type { SynthesizedChunk } from "@/lib/synthesis-pipeline";
 
 interface VoiceSettings {
   voice: string;
@@ -23,6 +28,9 @@ interface GeneratedAudio {
   duration: number;
   createdAt: Date;
   settings: VoiceSettings;
+  chunks?: SynthesizedChunk[];
+  engineId?: string;
+  waveform?: WaveformPeaks;
 }
 
 interface AudioPlayerProps {
@@ -36,12 +44,16 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
   const [volume, setVolume] = useState(0.8);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  // Keyed on the URL so the entry gaining its waveform doesn't reload the audio
+  const audioUrl = audio.audioUrl;
 
   // Initialize audio element
   useEffect(() => {
-    if (audioRef.current && audio) {
+    if (audioRef.current && audioUrl) {
       const audioElement = audioRef.current;
-      audioElement.src = audio.audioUrl;
+      audioElement.src = audioUrl;
       audioElement.volume = volume;
       audioElement.playbackRate = playbackRate;
       
@@ -86,7 +98,7 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
     }
     
     return undefined;
-  }, [audio, audioRef, volume, playbackRate]);
+  }, [audioUrl, audioRef, volume, playbackRate]);
 
   const togglePlayPause = useCallback(() => {
     if (!audioRef.current || isLoading) return;
@@ -132,13 +144,10 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
     }
   }, [audioRef]);
 
-  const downloadAudio = useCallback(() => {
-    const link = document.createElement('a');
-    link.href = audio.audioUrl;
-    link.download = `voice-${audio.id}.mp3`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Named after the recording's actual type (MP3, WAV, ...) rather than assuming MP3
+  const downloadAudio = useCallback(async () => {
+    const blob = await (await fetch(audio.audioUrl)).blob();
+    saveAudio(blob, `voice-${audio.id}`);
   }, [audio]);
 
   const formatTime = (time: number) => {
@@ -149,6 +158,21 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
 
   const progress = audio.duration > 0 ? (currentTime / audio.duration) * 100 : 0;
 
+  // Live-only engines (Web Speech) speak directly and leave no recording behind
+  if (!audio.audioUrl) {
+    return (
+      <Card className="p-4">
+        <div className="space-y-1 text-sm">
+          <p className="font-medium">Spoken live by the browser</p>
+          <p className="text-muted-foreground">
+            This engine plays speech directly and does not produce an audio file.
+            Choose an engine that records audio to replay or download it.
+          </p>
+        </div>
+      </Card>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Audio Element */}
@@ -157,9 +181,18 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
       {/* Waveform/Progress Visualization */}
       <Card className="p-4">
         <div className="space-y-4">
-          {/* Progress Bar */}
+          {/* Waveform, or a plain bar until its peaks are computed */}
           <div className="space-y-2">
-            <Progress value={progress} className="h-2" />
+            {audio.waveform ? (
+              <Waveform
+                waveform={audio.waveform}
+                currentTime={currentTime}
+                onSeek={(time) => seek([time])}
+                disabled={isLoading}
+              />
+            ) : (
+              <Progress value={progress} className="h-2" />
+            )}
             <div className="flex items-center justify-between text-sm text-muted-foreground">
               <span>{formatTime(currentTime)}</span>
               <span>{formatTime(audio.duration)}</span>
@@ -209,8 +242,27 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
         >
           ⬇️
         </Button>
+
+        <Button
+          variant="outline"
+          size="lg"
+          onClick={() => setIsExportOpen(true)}
+          disabled={isLoading}
+          className="h-12 rounded-full"
+          title="Convert to another format, sample rate or channel count"
+        >
+          💾 Export
+        </Button>
       </div>
 
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        audioUrl={audio.audioUrl}
+        duration={audio.duration}
+        filename={`voice-${audio.id}`}
+      />
+
       {/* Advanced Controls */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Volume Control */}
@@ -272,7 +324,35 @@ export default function AudioPlayer({ audio, audioRef }: AudioPlayerProps) {
                 {audio.createdAt.toLocaleTimeString()}
               </span>
             </div>
+            {audio.engineId && (
+              <div>
+                <span className="text-muted-foreground">Engine:</span>
+                <span className="ml-2">{getEngine(audio.engineId)?.name ?? audio.engineId}</span>
+              </div>
+            )}
           </div>
+
+          {/* Chunk markers: jump to where each synthesized chunk starts */}
+          {audio.chunks && audio.chunks.length > 1 && (
+            <div className="space-y-1">
+              <span className="text-sm text-muted-foreground">Chunks:</span>
+              <div className="flex flex-wrap gap-1">
+                {audio.chunks.map((chunk, index) => (
+                  <Button
+                    key={chunk.start}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => seek([chunk.offset])}
+                    disabled={isLoading}
+                    className="text-xs h-6 px-2"
+                    title={chunk.text}
+                  >
+                    {index + 1} · {formatTime(chunk.offset)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </Card>
 
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  defaultGenerationSettings,
+  loadGenerationSettings,
+  saveGenerationSettings,
+  type CacheSettings as CacheSettingsValue,
+} from "@/lib/generation-settings";
+import { clearSynthesisCache, getCacheStats, type CacheStats } from "@/lib/synthesis-cache";
+
+interface CacheSettingsProps {
+  // Changes whenever new audio may have been cached, to refresh the usage figures
+  refreshKey?: number;
+}
+
+const MB = 1024 * 1024;
+const limitOptions = [50, 100, 200, 500, 1000];
+
+export default function CacheSettings({ refreshKey }: CacheSettingsProps) {
+  const [settings, setSettings] = useState<CacheSettingsValue>(defaultGenerationSettings.cache);
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const refreshStats = useCallback(() => {
+    getCacheStats()
+      .then(setStats)
+      .catch(error => console.warn("Could not read cache usage:", error));
+  }, []);
+
+  // localStorage and IndexedDB are only available after mount
+  useEffect(() => {
+    setSettings(loadGenerationSettings().cache);
+  }, []);
+
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats, refreshKey]);
+
+  const update = (patch: Partial<CacheSettingsValue>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveGenerationSettings({ ...loadGenerationSettings(), cache: next });
+  };
+
+  const clearCache = async () => {
+    setIsClearing(true);
+    try {
+      await clearSynthesisCache();
+    } catch (error) {
+      console.error("Failed to clear cache:", error);
+    } finally {
+      setIsClearing(false);
+      refreshStats();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audio Cache</CardTitle>
+        <CardDescription>Reuse audio for text that was already synthesized</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="cache-enabled" className="text-sm">Use cache</Label>
+          <Switch
+            id="cache-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => update({ enabled })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-sm">Size limit</Label>
+          <Select
+            value={String(Math.round(settings.maxBytes / MB))}
+            onValueChange={(value) => update({ maxBytes: Number(value) * MB })}
+          >
+            <SelectTrigger className="w-28" size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {limitOptions.map((limit) => (
+                <SelectItem key={limit} value={String(limit)}>
+                  {limit >= 1000 ? `${limit / 1000} GB` : `${limit} MB`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {stats
+              ? `${stats.entries} ${stats.entries === 1 ? "clip" : "clips"} • ${(stats.bytes / MB).toFixed(1)} MB`
+              : "Usage unavailable"}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={clearCache}
+            disabled={isClearing || !stats || stats.entries === 0}
+            className="text-xs"
+          >
+            {isClearing ? "Clearing..." : "Clear cache"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  defaultExpansionSettings,
+  loadExpansionSettings,
+  saveExpansionSettings,
+  type ExpansionDictionary,
+  type ExpansionSettings,
+} from "@/lib/expansion-settings";
+import type { ExpansionEntry, ExpansionMode } from "@/lib/text/abbreviations";
+
+interface DictionaryManagerProps {
+  onChange?: (settings: ExpansionSettings) => void;
+}
+
+const modeLabels: Record<ExpansionMode, string> = {
+  expand: "Replace",
+  word: "As a word",
+  spell: "Spell out",
+};
+
+export default function DictionaryManager({ onChange }: DictionaryManagerProps) {
+  const [settings, setSettings] = useState<ExpansionSettings>(defaultExpansionSettings);
+  const [newProject, setNewProject] = useState("");
+  const [draft, setDraft] = useState<ExpansionEntry>({ term: "", mode: "expand", expansion: "" });
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setSettings(loadExpansionSettings());
+  }, []);
+
+  const update = (patch: Partial<ExpansionSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveExpansionSettings(next);
+    onChange?.(next);
+  };
+
+  const dictionary = settings.dictionaries.find(candidate => candidate.id === settings.activeDictionaryId)
+    ?? settings.dictionaries[0];
+
+  const updateDictionary = (patch: Partial<ExpansionDictionary>) => {
+    update({
+      dictionaries: settings.dictionaries.map(candidate =>
+        candidate.id === dictionary.id ? { ...candidate, ...patch } : candidate
+      ),
+    });
+  };
+
+  const updateEntry = (index: number, patch: Partial<ExpansionEntry>) => {
+    updateDictionary({
+      entries: dictionary.entries.map((entry, i) => i === index ? { ...entry, ...patch } : entry),
+    });
+  };
+
+  const addEntry = () => {
+    const term = draft.term.trim();
+    if (!term) return;
+    updateDictionary({
+      // A new spelling of a term replaces the old one
+      entries: [...dictionary.entries.filter(entry => entry.term !== term), { ...draft, term }],
+    });
+    setDraft({ term: "", mode: draft.mode, expansion: "" });
+  };
+
+  const addProject = () => {
+    const name = newProject.trim();
+    if (!name) return;
+    const id = `dict-${Date.now()}`;
+    update({
+      dictionaries: [...settings.dictionaries, { id, name, entries: [] }],
+      activeDictionaryId: id,
+    });
+    setNewProject("");
+  };
+
+  const deleteProject = () => {
+    const remaining = settings.dictionaries.filter(candidate => candidate.id !== dictionary.id);
+    if (remaining.length === 0) return;
+    update({ dictionaries: remaining, activeDictionaryId: remaining[0].id });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Abbreviations</CardTitle>
+        <CardDescription>How &quot;Dr.&quot;, &quot;e.g.&quot; and acronyms like &quot;NASA&quot; are read</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="expansions-enabled" className="text-sm">Expand abbreviations</Label>
+          <Switch
+            id="expansions-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => update({ enabled })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="expansions-builtins" className="text-sm">Include common abbreviations</Label>
+          <Switch
+            id="expansions-builtins"
+            checked={settings.includeBuiltins}
+            onCheckedChange={(includeBuiltins) => update({ includeBuiltins })}
+            disabled={!settings.enabled}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="expansions-acronyms" className="text-sm">Guess other acronyms</Label>
+          <Switch
+            id="expansions-acronyms"
+            checked={settings.autoAcronyms}
+            onCheckedChange={(autoAcronyms) => update({ autoAcronyms })}
+            disabled={!settings.enabled}
+          />
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Project dictionary</Label>
+          <div className="flex gap-2">
+            <Select
+              value={dictionary.id}
+              onValueChange={(activeDictionaryId) => update({ activeDictionaryId })}
+            >
+              <SelectTrigger className="flex-1" size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {settings.dictionaries.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={deleteProject}
+              disabled={settings.dictionaries.length < 2}
+              title="Delete dictionary"
+            >
+              🗑️
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              value={newProject}
+              onChange={(e) => setNewProject(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && addProject()}
+              placeholder="New project name"
+              className="h-8 text-sm"
+            />
+            <Button variant="outline" size="sm" onClick={addProject} disabled={!newProject.trim()}>
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {dictionary.entries.length === 0 && (
+            <p className="text-xs text-muted-foreground">No entries yet. Project entries win over the common ones.</p>
+          )}
+          {dictionary.entries.map((entry, index) => (
+            <div key={`${entry.term}-${index}`} className="flex items-center gap-2">
+              <span className="w-16 truncate font-mono text-sm" title={entry.term}>{entry.term}</span>
+              <Select
+                value={entry.mode}
+                onValueChange={(mode) => updateEntry(index, { mode: mode as ExpansionMode })}
+              >
+                <SelectTrigger className="w-28" size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(modeLabels).map(([mode, label]) => (
+                    <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={entry.expansion ?? ""}
+                onChange={(e) => updateEntry(index, { expansion: e.target.value })}
+                placeholder={entry.mode === "spell" ? "—" : "Read as"}
+                disabled={entry.mode === "spell"}
+                className="h-8 flex-1 text-sm"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateDictionary({ entries: dictionary.entries.filter((_, i) => i !== index) })}
+                title="Remove entry"
+              >
+                ✕
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Input
+              value={draft.term}
+              onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+              onKeyDown={(e) => e.key === "Enter" && addEntry()}
+              placeholder="Term"
+              className="h-8 w-16 font-mono text-sm"
+            />
+            <Select
+              value={draft.mode}
+              onValueChange={(mode) => setDraft({ ...draft, mode: mode as ExpansionMode })}
+            >
+              <SelectTrigger className="w-28" size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(modeLabels).map(([mode, label]) => (
+                  <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={draft.expansion ?? ""}
+              onChange={(e) => setDraft({ ...draft, expansion: e.target.value })}
+              onKeyDown={(e) => e.key === "Enter" && addEntry()}
+              placeholder={draft.mode === "spell" ? "—" : "Read as"}
+              disabled={draft.mode === "spell"}
+              className="h-8 flex-1 text-sm"
+            />
+            <Button variant="outline" size="sm" onClick={addEntry} disabled={!draft.term.trim()}>
+              +
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
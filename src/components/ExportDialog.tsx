@@ -0,0 +1,246 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  convertAudioFormat,
+  downloadAudio,
+  estimateExportSize,
+  getAudioExtension,
+  getExportBitrates,
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  EXPORT_SAMPLE_RATES,
+  type ExportFormat,
+  type ExportOptions,
+} from "@/lib/audio-utils";
+import { FLAC_COMPRESSION_LEVELS } from "@/lib/encoders/flac";
+import type { Mp3Mode } from "@/lib/encoders/mp3";
+import { isOpusSupported } from "@/lib/encoders/opus";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  audioUrl: string;
+  duration: number;
+  // File name without extension
+  filename: string;
+}
+
+// The available bitrate nearest to the chosen one, after a format or sample rate change
+const closestBitrate = (bitrate: number, options: Pick<ExportOptions, "format" | "sampleRate">) => {
+  return getExportBitrates(options).reduce((best, rate) => Math.abs(rate - bitrate) < Math.abs(best - bitrate) ? rate : best);
+};
+
+const compressionLabel = (level: number) => {
+  if (level === 0) return "0 (fastest)";
+  if (level === 5) return "5 (default)";
+  if (level === FLAC_COMPRESSION_LEVELS - 1) return `${level} (smallest)`;
+  return String(level);
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function ExportDialog({ open, onOpenChange, audioUrl, duration, filename }: ExportDialogProps) {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [opusSupported, setOpusSupported] = useState(true);
+
+  useEffect(() => {
+    if (open) isOpusSupported().then(setOpusSupported);
+  }, [open]);
+
+  const update = (patch: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const exportAudio = useCallback(async () => {
+    setIsExporting(true);
+    setProgress(null);
+    setError(null);
+    try {
+      const source = await (await fetch(audioUrl)).blob();
+      const converted = await convertAudioFormat(source, options, setProgress);
+      // Named from the blob's type, like the download buttons, so both agree
+      downloadAudio(converted, `${filename}.${getAudioExtension(converted.type)}`);
+      onOpenChange(false);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [audioUrl, options, filename, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export audio</DialogTitle>
+          <DialogDescription>
+            Converted in your browser; nothing is uploaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm">Format</Label>
+            <Select
+              value={options.format}
+              onValueChange={(value) => {
+                const format = value as ExportFormat;
+                update({ format, bitrate: closestBitrate(options.bitrate, { format, sampleRate: options.sampleRate }) });
+              }}
+            >
+              <SelectTrigger className="w-full" size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMATS.map((format) => (
+                  <SelectItem
+                    key={format.format}
+                    value={format.format}
+                    disabled={format.format === "opus" && !opusSupported}
+                  >
+                    {format.format === "opus" && !opusSupported ? `${format.name} (not supported in this browser)` : format.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {options.format !== "opus" && (
+            <div className="space-y-2">
+              <Label className="text-sm">Sample rate</Label>
+              <Select
+                value={String(options.sampleRate)}
+                onValueChange={(rate) => update({
+                  sampleRate: Number(rate),
+                  bitrate: closestBitrate(options.bitrate, { format: options.format, sampleRate: Number(rate) }),
+                })}
+              >
+                <SelectTrigger className="w-full" size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_SAMPLE_RATES.map((rate) => (
+                    <SelectItem key={rate} value={String(rate)}>
+                      {(rate / 1000).toFixed(rate % 1000 === 0 ? 0 : 2)} kHz
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-sm">Channels</Label>
+            <Select value={String(options.channels)} onValueChange={(channels) => update({ channels: Number(channels) })}>
+              <SelectTrigger className="w-full" size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Mono</SelectItem>
+                <SelectItem value="2">Stereo</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {(options.format === "wav" || options.format === "flac") && (
+            <div className="space-y-2">
+              <Label className="text-sm">Bit depth</Label>
+              <Select value={String(options.bitDepth)} onValueChange={(depth) => update({ bitDepth: Number(depth) as ExportOptions["bitDepth"] })}>
+                <SelectTrigger className="w-full" size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="16">16-bit</SelectItem>
+                  <SelectItem value="24">24-bit</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {options.format === "flac" && (
+            <div className="space-y-2">
+              <Label className="text-sm">Compression</Label>
+              <Select value={String(options.compression)} onValueChange={(level) => update({ compression: Number(level) })}>
+                <SelectTrigger className="w-full" size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: FLAC_COMPRESSION_LEVELS }, (_, level) => (
+                    <SelectItem key={level} value={String(level)}>
+                      {compressionLabel(level)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {(options.format === "mp3" || options.format === "opus") && (
+            <>
+              <div className="space-y-2">
+                <Label className="text-sm">Bitrate mode</Label>
+                <Select value={options.bitrateMode} onValueChange={(mode) => update({ bitrateMode: mode as Mp3Mode })}>
+                  <SelectTrigger className="w-full" size="sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cbr">Constant (CBR)</SelectItem>
+                    <SelectItem value="vbr">Variable (VBR)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm">{options.bitrateMode === "vbr" ? "Average bitrate" : "Bitrate"}</Label>
+                <Select value={String(options.bitrate)} onValueChange={(bitrate) => update({ bitrate: Number(bitrate) })}>
+                  <SelectTrigger className="w-full" size="sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getExportBitrates(options).map((bitrate) => (
+                      <SelectItem key={bitrate} value={String(bitrate)}>
+                        {bitrate} kbps
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          About {formatSize(estimateExportSize(duration, options))}
+        </p>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={exportAudio} disabled={isExporting}>
+            {isExporting
+              ? `⏳ ${progress === null ? "Converting..." : `Encoding ${Math.round(progress * 100)}%`}`
+              : "⬇️ Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  defaultLexiconSettings,
+  loadLexiconSettings,
+  saveLexiconSettings,
+  type LexiconSettings,
+} from "@/lib/lexicon-settings";
+import {
+  PHONETIC_ALPHABETS,
+  parsePLS,
+  serializePLS,
+  type Lexicon,
+  type LexiconEntry,
+  type PhoneticAlphabet,
+} from "@/lib/text/lexicon";
+
+interface LexiconManagerProps {
+  onChange?: (settings: LexiconSettings) => void;
+}
+
+const alphabetLabels: Record<PhoneticAlphabet, string> = {
+  "ipa": "IPA",
+  "x-sampa": "X-SAMPA",
+  "cmu-arpabet": "ARPAbet",
+};
+
+const emptyDraft = { word: "", alias: "", phoneme: "" };
+
+// "colour, color" -> ["colour", "color"]
+const splitGraphemes = (value: string): string[] => value.split(",").map(word => word.trim()).filter(Boolean);
+
+export default function LexiconManager({ onChange }: LexiconManagerProps) {
+  const [settings, setSettings] = useState<LexiconSettings>(defaultLexiconSettings);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newLexicon, setNewLexicon] = useState("");
+  const [draft, setDraft] = useState(emptyDraft);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    const stored = loadLexiconSettings();
+    setSettings(stored);
+    setSelectedId(stored.lexicons[0]?.id ?? null);
+  }, []);
+
+  const update = (next: LexiconSettings) => {
+    setSettings(next);
+    saveLexiconSettings(next);
+    onChange?.(next);
+  };
+
+  const lexicon = settings.lexicons.find(candidate => candidate.id === selectedId) ?? null;
+  // Only ElevenLabs can read these; every other engine says the word as written
+  const phonemeOnly = lexicon?.entries.filter(entry => entry.phoneme && !entry.alias) ?? [];
+
+  const addLexicon = (created: Lexicon) => {
+    update({
+      lexicons: [...settings.lexicons, created],
+      activeIds: [...settings.activeIds, created.id],
+    });
+    setSelectedId(created.id);
+  };
+
+  const updateLexicon = (patch: Partial<Lexicon>) => {
+    if (!lexicon) return;
+    update({
+      ...settings,
+      lexicons: settings.lexicons.map(candidate => candidate.id === lexicon.id ? { ...candidate, ...patch } : candidate),
+    });
+  };
+
+  const deleteLexicon = () => {
+    if (!lexicon) return;
+    const remaining = settings.lexicons.filter(candidate => candidate.id !== lexicon.id);
+    update({ lexicons: remaining, activeIds: settings.activeIds.filter(id => id !== lexicon.id) });
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const setActive = (active: boolean) => {
+    if (!lexicon) return;
+    const others = settings.activeIds.filter(id => id !== lexicon.id);
+    update({ ...settings, activeIds: active ? [...others, lexicon.id] : others });
+  };
+
+  const createLexicon = () => {
+    const name = newLexicon.trim();
+    if (!name) return;
+    addLexicon({ id: `lexicon-${crypto.randomUUID()}`, name, locale: "en-US", alphabet: "ipa", entries: [] });
+    setNewLexicon("");
+  };
+
+  const updateEntry = (index: number, patch: Partial<LexiconEntry>) => {
+    if (!lexicon) return;
+    updateLexicon({
+      entries: lexicon.entries.map((entry, i) => i === index ? { ...entry, ...patch } : entry),
+    });
+  };
+
+  const addEntry = () => {
+    const graphemes = splitGraphemes(draft.word);
+    if (!lexicon || graphemes.length === 0 || (!draft.alias.trim() && !draft.phoneme.trim())) return;
+    updateLexicon({
+      entries: [
+        ...lexicon.entries,
+        {
+          graphemes,
+          ...(draft.alias.trim() && { alias: draft.alias.trim() }),
+          ...(draft.phoneme.trim() && { phoneme: draft.phoneme.trim() }),
+        },
+      ],
+    });
+    setDraft(emptyDraft);
+  };
+
+  const importFile = async (file: File) => {
+    setImportError(null);
+    try {
+      addLexicon(parsePLS(await file.text(), file.name.replace(/\.(pls|xml)$/i, "")));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Could not read the lexicon file");
+    }
+  };
+
+  const exportLexicon = () => {
+    if (!lexicon) return;
+    const url = URL.createObjectURL(new Blob([serializePLS(lexicon)], { type: "application/pls+xml" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${lexicon.name}.pls`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pronunciation Lexicons</CardTitle>
+        <CardDescription>Words read as an alias or a phonetic spelling</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Select
+            value={lexicon?.id ?? ""}
+            onValueChange={setSelectedId}
+            disabled={settings.lexicons.length === 0}
+          >
+            <SelectTrigger className="flex-1" size="sm">
+              <SelectValue placeholder="No lexicons yet" />
+            </SelectTrigger>
+            <SelectContent>
+              {settings.lexicons.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="sm" onClick={deleteLexicon} disabled={!lexicon} title="Delete lexicon">
+            🗑️
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={newLexicon}
+            onChange={(e) => setNewLexicon(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && createLexicon()}
+            placeholder="New lexicon name"
+            className="h-8 text-sm"
+          />
+          <Button variant="outline" size="sm" onClick={createLexicon} disabled={!newLexicon.trim()}>
+            Add
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pls,.xml,application/pls+xml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void importFile(file);
+              e.target.value = "";
+            }}
+          />
+          <Button variant="outline" size="sm" className="flex-1 text-xs" onClick={() => fileInputRef.current?.click()}>
+            📥 Import PLS
+          </Button>
+          <Button variant="outline" size="sm" className="flex-1 text-xs" onClick={exportLexicon} disabled={!lexicon}>
+            📤 Export PLS
+          </Button>
+        </div>
+        {importError && <p className="text-xs text-destructive">{importError}</p>}
+
+        {lexicon && (
+          <>
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="lexicon-active" className="text-sm">Use in generations</Label>
+              <Switch
+                id="lexicon-active"
+                checked={settings.activeIds.includes(lexicon.id)}
+                onCheckedChange={setActive}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-sm">Phonetic alphabet</Label>
+              <Select
+                value={lexicon.alphabet}
+                onValueChange={(alphabet) => updateLexicon({ alphabet: alphabet as PhoneticAlphabet })}
+              >
+                <SelectTrigger className="w-28" size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PHONETIC_ALPHABETS.map((alphabet) => (
+                    <SelectItem key={alphabet} value={alphabet}>{alphabetLabels[alphabet]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              {lexicon.entries.map((entry, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-24 truncate text-sm" title={entry.graphemes.join(", ")}>
+                    {entry.graphemes.join(", ")}
+                  </span>
+                  <Input
+                    value={entry.alias ?? ""}
+                    onChange={(e) => updateEntry(index, { alias: e.target.value || undefined })}
+                    placeholder="Alias"
+                    className="h-8 flex-1 text-sm"
+                  />
+                  <Input
+                    value={entry.phoneme ?? ""}
+                    onChange={(e) => updateEntry(index, { phoneme: e.target.value || undefined })}
+                    placeholder="Phonemes"
+                    className="h-8 flex-1 font-mono text-sm"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateLexicon({ entries: lexicon.entries.filter((_, i) => i !== index) })}
+                    title="Remove entry"
+                  >
+                    ✕
+                  </Button>
+                </div>
+              ))}
+
+              <div className="flex items-center gap-2">
+                <Input
+                  value={draft.word}
+                  onChange={(e) => setDraft({ ...draft, word: e.target.value })}
+                  onKeyDown={(e) => e.key === "Enter" && addEntry()}
+                  placeholder="Word"
+                  className="h-8 w-24 text-sm"
+                />
+                <Input
+                  value={draft.alias}
+                  onChange={(e) => setDraft({ ...draft, alias: e.target.value })}
+                  onKeyDown={(e) => e.key === "Enter" && addEntry()}
+                  placeholder="Alias"
+                  className="h-8 flex-1 text-sm"
+                />
+                <Input
+                  value={draft.phoneme}
+                  onChange={(e) => setDraft({ ...draft, phoneme: e.target.value })}
+                  onKeyDown={(e) => e.key === "Enter" && addEntry()}
+                  placeholder="Phonemes"
+                  className="h-8 flex-1 font-mono text-sm"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addEntry}
+                  disabled={!draft.word.trim() || (!draft.alias.trim() && !draft.phoneme.trim())}
+                >
+                  +
+                </Button>
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              ℹ️ ElevenLabs applies the whole lexicon. Other engines read aliases only; words with just
+              phonemes are read as written.
+            </p>
+            {phonemeOnly.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                ⚠️ {phonemeOnly.length === 1 ? "1 word has" : `${phonemeOnly.length} words have`} phonemes but no
+                alias ({phonemeOnly.slice(0, 3).map(entry => entry.graphemes[0]).join(", ")}
+                {phonemeOnly.length > 3 ? ", …" : ""}). Add an alias so other engines say them right.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
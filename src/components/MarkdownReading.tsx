@@ -0,0 +1,50 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { MarkdownReadingOptions } from "@/lib/text/markdown";
+
+interface MarkdownReadingProps {
+  options: MarkdownReadingOptions;
+  onChange: (options: MarkdownReadingOptions) => void;
+}
+
+export default function MarkdownReading({ options, onChange }: MarkdownReadingProps) {
+  const update = (patch: Partial<MarkdownReadingOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <div className="flex items-center gap-4 flex-wrap">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="markdown-heading-emphasis"
+          checked={options.emphasizeHeadings}
+          onCheckedChange={(emphasizeHeadings) => update({ emphasizeHeadings })}
+        />
+        <Label htmlFor="markdown-heading-emphasis" className="text-sm">Emphasize headings</Label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="markdown-list-cues"
+          checked={options.listCues}
+          onCheckedChange={(listCues) => update({ listCues })}
+        />
+        <Label htmlFor="markdown-list-cues" className="text-sm">Announce list items</Label>
+      </div>
+
+      <Select
+        value={options.codeBlocks}
+        onValueChange={(codeBlocks) => update({ codeBlocks: codeBlocks as MarkdownReadingOptions["codeBlocks"] })}
+      >
+        <SelectTrigger className="w-44" size="sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="summarize">Mention code blocks</SelectItem>
+          <SelectItem value="skip">Skip code blocks</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
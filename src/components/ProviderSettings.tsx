@@ -0,0 +1,198 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  defaultProviderSettings,
+  formatVoiceIdMap,
+  loadProviderSettings,
+  parseVoiceIdMap,
+  saveProviderSettings,
+  type OpenAIResponseFormat,
+  type ProviderSettings as ProviderSettingsValue,
+} from "@/lib/provider-settings";
+
+interface ProviderSettingsProps {
+  onSave?: (settings: ProviderSettingsValue) => void;
+}
+
+export default function ProviderSettings({ onSave }: ProviderSettingsProps) {
+  const [settings, setSettings] = useState<ProviderSettingsValue>(defaultProviderSettings);
+  const [voiceIds, setVoiceIds] = useState("");
+  const [openAIVoiceIds, setOpenAIVoiceIds] = useState("");
+  const [saved, setSaved] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    const stored = loadProviderSettings();
+    setSettings(stored);
+    setVoiceIds(formatVoiceIdMap(stored.elevenlabs.voiceIds));
+    setOpenAIVoiceIds(formatVoiceIdMap(stored.openai.voiceIds));
+  }, []);
+
+  const updateElevenLabs = (key: "baseUrl" | "apiKey" | "modelId", value: string) => {
+    setSaved(false);
+    setSettings(prev => ({
+      ...prev,
+      elevenlabs: { ...prev.elevenlabs, [key]: value },
+    }));
+  };
+
+  const updateOpenAI = (key: "baseUrl" | "apiKey" | "model", value: string) => {
+    setSaved(false);
+    setSettings(prev => ({
+      ...prev,
+      openai: { ...prev.openai, [key]: value },
+    }));
+  };
+
+  const save = () => {
+    const next = {
+      ...settings,
+      elevenlabs: { ...settings.elevenlabs, voiceIds: parseVoiceIdMap(voiceIds) },
+      openai: { ...settings.openai, voiceIds: parseVoiceIdMap(openAIVoiceIds) },
+    };
+    saveProviderSettings(next);
+    setSettings(next);
+    setSaved(true);
+    onSave?.(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Providers</CardTitle>
+        <CardDescription>Connect remote voice services or a local mock server</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">ElevenLabs</h4>
+          <div className="space-y-1">
+            <Label htmlFor="elevenlabs-url" className="text-xs">Base URL</Label>
+            <Input
+              id="elevenlabs-url"
+              value={settings.elevenlabs.baseUrl}
+              onChange={(e) => updateElevenLabs("baseUrl", e.target.value)}
+              placeholder="https://api.elevenlabs.io"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="elevenlabs-key" className="text-xs">API key</Label>
+            <Input
+              id="elevenlabs-key"
+              type="password"
+              value={settings.elevenlabs.apiKey}
+              onChange={(e) => updateElevenLabs("apiKey", e.target.value)}
+              placeholder="xi-api-key"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="elevenlabs-model" className="text-xs">Model</Label>
+            <Input
+              id="elevenlabs-model"
+              value={settings.elevenlabs.modelId}
+              onChange={(e) => updateElevenLabs("modelId", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="elevenlabs-voices" className="text-xs">Voice ID overrides</Label>
+            <Input
+              id="elevenlabs-voices"
+              value={voiceIds}
+              onChange={(e) => {
+                setSaved(false);
+                setVoiceIds(e.target.value);
+              }}
+              placeholder="rachel=21m00Tcm4TlvDq8ikWAM"
+            />
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">OpenAI-compatible</h4>
+          <div className="space-y-1">
+            <Label htmlFor="openai-url" className="text-xs">Base URL</Label>
+            <Input
+              id="openai-url"
+              value={settings.openai.baseUrl}
+              onChange={(e) => updateOpenAI("baseUrl", e.target.value)}
+              placeholder="http://localhost:8880"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="openai-key" className="text-xs">API key (optional for self-hosted)</Label>
+            <Input
+              id="openai-key"
+              type="password"
+              value={settings.openai.apiKey}
+              onChange={(e) => updateOpenAI("apiKey", e.target.value)}
+              placeholder="sk-..."
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="openai-model" className="text-xs">Model</Label>
+              <Input
+                id="openai-model"
+                value={settings.openai.model}
+                onChange={(e) => updateOpenAI("model", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Format</Label>
+              <Select
+                value={settings.openai.responseFormat}
+                onValueChange={(value) => {
+                  setSaved(false);
+                  setSettings(prev => ({
+                    ...prev,
+                    openai: { ...prev.openai, responseFormat: value as OpenAIResponseFormat },
+                  }));
+                }}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {["mp3", "wav", "opus", "pcm"].map((format) => (
+                    <SelectItem key={format} value={format}>
+                      {format.toUpperCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="openai-voices" className="text-xs">Voice overrides</Label>
+            <Input
+              id="openai-voices"
+              value={openAIVoiceIds}
+              onChange={(e) => {
+                setSaved(false);
+                setOpenAIVoiceIds(e.target.value);
+              }}
+              placeholder="rachel=nova"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {saved ? "✅ Saved" : "Stored in this browser only"}
+          </span>
+          <Button size="sm" onClick={save} className="text-xs">
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getEngine, listEngines } from "@/lib/engines";
+import type { GenerationQueue, JobStatus, QueueState } from "@/lib/generation-queue";
+
+interface QueuePanelProps {
+  queue: GenerationQueue;
+  state: QueueState;
+}
+
+const statusLabels: Record<JobStatus, string> = {
+  queued: "⏳ Queued",
+  running: "🔄 Running",
+  done: "✅ Done",
+  failed: "❌ Failed",
+  cancelled: "⏹️ Cancelled",
+};
+
+export default function QueuePanel({ queue, state }: QueuePanelProps) {
+  const { jobs } = state;
+  const pendingCount = jobs.filter(job => job.status === "queued" || job.status === "running").length;
+  const hasFinished = jobs.some(job => job.status === "done" || job.status === "failed" || job.status === "cancelled");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Generation Queue</span>
+          <Badge variant="secondary" className="text-xs">
+            {pendingCount} pending
+          </Badge>
+        </CardTitle>
+        <CardDescription>Requests run in order; finished clips land in history</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Per-engine concurrency */}
+        <div className="space-y-2">
+          <span className="text-xs font-medium">Parallel jobs per engine</span>
+          {listEngines().map((engine) => {
+            const maxConcurrency = engine.capabilities.maxConcurrency;
+            return (
+              <div key={engine.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="text-muted-foreground truncate">{engine.name}</span>
+                <Select
+                  value={String(queue.getConcurrencyLimit(engine.id))}
+                  onValueChange={(value) => queue.setConcurrency(engine.id, Number(value))}
+                  disabled={maxConcurrency === 1}
+                >
+                  <SelectTrigger className="w-16" size="sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 4]
+                      .filter(limit => limit <= (maxConcurrency ?? Infinity))
+                      .map(limit => (
+                        <SelectItem key={limit} value={String(limit)}>
+                          {limit}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+
+        {jobs.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">
+            <p className="text-sm">Queue is empty</p>
+            <p className="text-xs mt-1">Press Generate while a voice is generating to queue more</p>
+          </div>
+        ) : (
+          <ScrollArea className="h-[300px]">
+            <div className="space-y-2 pr-3">
+              {jobs.map((job) => (
+                <div key={job.id} className="p-3 rounded-lg border space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={job.status === "failed" ? "destructive" : "outline"} className="text-xs">
+                        {job.paused ? "⏸️ Paused" : statusLabels[job.status]}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {getEngine(job.engineId)?.name ?? job.engineId} • {job.settings.voice}
+                        {job.format === "ssml" && " • SSML"}
+                      </span>
+                    </div>
+
+                    <div className="flex items-center gap-1">
+                      {job.status === "queued" && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => queue.move(job.id, -1)} className="h-6 w-6 p-0">
+                            ⬆️
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => queue.move(job.id, 1)} className="h-6 w-6 p-0">
+                            ⬇️
+                          </Button>
+                        </>
+                      )}
+                      {job.status === "running" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => job.paused ? queue.resume(job.id) : queue.pause(job.id)}
+                          className="h-6 w-6 p-0"
+                        >
+                          {job.paused ? "▶️" : "⏸️"}
+                        </Button>
+                      )}
+                      {job.status === "queued" || job.status === "running" ? (
+                        <Button variant="ghost" size="sm" onClick={() => queue.cancel(job.id)} className="h-6 w-6 p-0">
+                          ⏹️
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => queue.remove(job.id)}
+                          className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                        >
+                          🗑️
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  <p className="text-sm line-clamp-2 text-muted-foreground">{job.text}</p>
+
+                  {job.status === "running" && <Progress value={job.progress * 100} className="h-1" />}
+                  {job.cachedChunks > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      ⚡ {job.cachedChunks} {job.cachedChunks === 1 ? "chunk" : "chunks"} from cache
+                    </p>
+                  )}
+                  {(job.retries > 0 || job.failures.length > 0) && (
+                    <p className="text-xs text-muted-foreground">
+                      {job.retries > 0 && `${job.retries} ${job.retries === 1 ? "retry" : "retries"}`}
+                      {job.retries > 0 && job.failures.length > 0 && " • "}
+                      {job.failures.length > 0 &&
+                        `Fell back from ${job.failures.map(failure => getEngine(failure.engineId)?.name ?? failure.engineId).join(", ")}`}
+                    </p>
+                  )}
+                  {job.error && (
+                    <p className="text-xs text-destructive line-clamp-2">{job.error.message}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {hasFinished && (
+          <Button variant="outline" size="sm" className="w-full" onClick={queue.clearFinished}>
+            Clear finished
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
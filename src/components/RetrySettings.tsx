@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
+import { listEngines } from "@/lib/engines";
+import {
+  defaultGenerationSettings,
+  loadGenerationSettings,
+  saveGenerationSettings,
+  type GenerationSettings,
+} from "@/lib/generation-settings";
+
+export default function RetrySettings() {
+  const [settings, setSettings] = useState<GenerationSettings>(defaultGenerationSettings);
+  const [saved, setSaved] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setSettings(loadGenerationSettings());
+  }, []);
+
+  const updateRetry = (key: "maxAttempts" | "initialDelayMs" | "maxDelayMs", value: number) => {
+    if (!Number.isFinite(value) || value < 0) return;
+    setSaved(false);
+    setSettings(prev => ({ ...prev, retry: { ...prev.retry, [key]: value } }));
+  };
+
+  const toggleFallback = (engineId: string, enabled: boolean) => {
+    setSaved(false);
+    setSettings(prev => ({
+      ...prev,
+      fallbackEngineIds: enabled
+        ? [...prev.fallbackEngineIds, engineId]
+        : prev.fallbackEngineIds.filter(id => id !== engineId),
+    }));
+  };
+
+  const moveFallback = (engineId: string, direction: -1 | 1) => {
+    setSaved(false);
+    setSettings(prev => {
+      const ids = [...prev.fallbackEngineIds];
+      const index = ids.indexOf(engineId);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= ids.length) return prev;
+      [ids[index], ids[target]] = [ids[target], ids[index]];
+      return { ...prev, fallbackEngineIds: ids };
+    });
+  };
+
+  const save = () => {
+    // Other cards own the remaining fields, so only write ours
+    saveGenerationSettings({
+      ...loadGenerationSettings(),
+      retry: settings.retry,
+      fallbackEngineIds: settings.fallbackEngineIds,
+    });
+    setSaved(true);
+  };
+
+  const engines = listEngines();
+  // Enabled fallbacks in chain order, then the rest
+  const orderedEngines = [
+    ...settings.fallbackEngineIds
+      .map(id => engines.find(engine => engine.id === id))
+      .filter(engine => engine !== undefined),
+    ...engines.filter(engine => !settings.fallbackEngineIds.includes(engine.id)),
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Retry &amp; Fallback</CardTitle>
+        <CardDescription>What happens when an engine fails</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">Retries</h4>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="retry-attempts" className="text-xs">Attempts</Label>
+              <Input
+                id="retry-attempts"
+                type="number"
+                min={1}
+                max={10}
+                value={settings.retry.maxAttempts}
+                onChange={(e) => updateRetry("maxAttempts", Math.max(1, Math.round(Number(e.target.value))))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="retry-initial" className="text-xs">First delay (s)</Label>
+              <Input
+                id="retry-initial"
+                type="number"
+                min={0}
+                step={0.5}
+                value={settings.retry.initialDelayMs / 1000}
+                onChange={(e) => updateRetry("initialDelayMs", Number(e.target.value) * 1000)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="retry-max" className="text-xs">Max delay (s)</Label>
+              <Input
+                id="retry-max"
+                type="number"
+                min={0}
+                value={settings.retry.maxDelayMs / 1000}
+                onChange={(e) => updateRetry("maxDelayMs", Number(e.target.value) * 1000)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Network errors, server errors and rate limits are retried with doubling delays.
+            Invalid keys and rejected text fail immediately.
+          </p>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">Fallback order</h4>
+          <p className="text-xs text-muted-foreground">
+            If the selected engine still fails, the job restarts on the next checked engine.
+          </p>
+          <div className="space-y-2">
+            {orderedEngines.map((engine) => {
+              const position = settings.fallbackEngineIds.indexOf(engine.id);
+              const enabled = position !== -1;
+              return (
+                <div key={engine.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    id={`fallback-${engine.id}`}
+                    checked={enabled}
+                    onCheckedChange={(checked) => toggleFallback(engine.id, checked === true)}
+                  />
+                  <Label htmlFor={`fallback-${engine.id}`} className="flex-1 text-xs font-normal">
+                    {enabled && `${position + 1}. `}{engine.name}
+                  </Label>
+                  {enabled && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveFallback(engine.id, -1)}
+                        disabled={position === 0}
+                        className="h-6 w-6 p-0"
+                      >
+                        ⬆️
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveFallback(engine.id, 1)}
+                        disabled={position === settings.fallbackEngineIds.length - 1}
+                        className="h-6 w-6 p-0"
+                      >
+                        ⬇️
+                      </Button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {saved ? "✅ Saved" : "Stored in this browser only"}
+          </span>
+          <Button size="sm" onClick={save} className="text-xs">
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
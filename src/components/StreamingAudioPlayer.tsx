@@ -0,0 +1,123 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { StreamingPlayer, StreamingPlayerState } from "@/lib/streaming-player";
+
+interface StreamingAudioPlayerProps {
+  player: StreamingPlayer;
+  // Voice the streamed job was started with; unknown once the job is cleared from the queue
+  voice?: string;
+  // Called when the user leaves streaming mode or playback finishes
+  onClose: () => void;
+}
+
+export default function StreamingAudioPlayer({ player, voice, onClose }: StreamingAudioPlayerProps) {
+  const [state, setState] = useState<StreamingPlayerState>(() => player.getState());
+  const [volume, setVolume] = useState(0.8);
+
+  useEffect(() => {
+    setState(player.getState());
+    return player.subscribe(() => setState(player.getState()));
+  }, [player]);
+
+  useEffect(() => {
+    player.setVolume(volume);
+  }, [player, volume]);
+
+  // Hand over to the regular player once everything has been heard
+  useEffect(() => {
+    if (state.ended) {
+      onClose();
+    }
+  }, [state.ended, onClose]);
+
+  const togglePlayPause = useCallback(() => {
+    if (state.playing) {
+      player.pause();
+    } else {
+      player.play();
+    }
+  }, [player, state.playing]);
+
+  const seek = useCallback((newTime: number[]) => {
+    player.seek(newTime[0]);
+  }, [player]);
+
+  const formatTime = (time: number) => {
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-4">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex items-center gap-2">
+              <Badge variant={state.complete ? "secondary" : "default"}>
+                {state.complete ? "Fully synthesized" : "🔴 Streaming"}
+              </Badge>
+              {state.buffering && (
+                <span className="text-muted-foreground">Waiting for the next chunk...</span>
+              )}
+            </div>
+            {voice && <Badge variant="secondary">{voice}</Badge>}
+          </div>
+
+          {/* Seek range grows as chunks arrive */}
+          <div className="px-2">
+            <Slider
+              value={[state.currentTime]}
+              onValueChange={seek}
+              max={Math.max(state.bufferedDuration, 0.1)}
+              step={0.1}
+              className="cursor-pointer"
+              disabled={state.bufferedDuration === 0}
+            />
+          </div>
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>{formatTime(state.currentTime)}</span>
+            <span>
+              {formatTime(state.bufferedDuration)}
+              {!state.complete && "+"}
+            </span>
+          </div>
+        </div>
+      </Card>
+
+      <div className="flex items-center justify-center gap-4">
+        <Button
+          size="lg"
+          onClick={togglePlayPause}
+          className="w-16 h-16 rounded-full text-xl"
+        >
+          {state.buffering ? "⏳" : state.playing ? "⏸️" : "▶️"}
+        </Button>
+
+        {state.complete && (
+          <Button variant="outline" onClick={onClose}>
+            Open full player
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium flex items-center gap-2">
+          🔊 Volume: {Math.round(volume * 100)}%
+        </label>
+        <Slider
+          value={[volume]}
+          onValueChange={(value) => setVolume(value[0])}
+          max={1}
+          step={0.1}
+          className="cursor-pointer"
+        />
+      </div>
+    </div>
+  );
+}
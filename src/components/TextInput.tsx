@@ -4,35 +4,100 @@ import { useState, useRef, useCallback } from "react";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import type { TextFormat } from "@/lib/synthesis-pipeline";
+import { SUPPORTED_SSML_ELEMENTS, type SSMLIssue } from "@/lib/text/ssml";
+import { LINT_RULE_LABELS, type LintFinding } from "@/lib/text/lint";
+import { LANGUAGE_NAMES, type LanguageSpan } from "@/lib/text/language";
+import { IMPORT_ACCEPT, importDocument, renderDocument } from "@/lib/import";
 
 interface TextInputProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  format?: TextFormat;
+  onFormatChange?: (format: TextFormat) => void;
+  // Validation problems in SSML mode
+  issues?: SSMLIssue[];
+  // Likely speech problems, with quick fixes
+  findings?: LintFinding[];
+  // Detected language of each paragraph
+  languages?: LanguageSpan[];
+  autoLanguage?: boolean;
+  onAutoLanguageChange?: (enabled: boolean) => void;
 }
 
-export default function TextInput({ value, onChange, placeholder }: TextInputProps) {
+const ssmlExample = `<speak>
+  Welcome to our <emphasis level="strong">text-to-speech</emphasis> platform.
+  <break time="500ms"/>
+  Release <say-as interpret-as="cardinal">3</say-as> ships on
+  <say-as interpret-as="date" format="mdy">10/19/2026</say-as>.
+  <prosody rate="slow">Take your time.</prosody>
+</speak>`;
+
+const markdownExample = `# Release notes
+
+Version 3 brings **faster** voices. Read the [full guide](https://example.com/guide) for details.
+
+1. Pick a voice
+2. Paste your script
+3. Press *Generate*
+
+| Voice | Style |
+|-------|-------|
+| Rachel | Calm |
+| Adam | Deep |
+`;
+
+// The format button cycles through these
+const FORMATS: { format: TextFormat; label: string }[] = [
+  { format: "markup", label: "</> Text" },
+  { format: "markdown", label: "# Markdown" },
+  { format: "ssml", label: "</> SSML" },
+];
+
+export default function TextInput({
+  value,
+  onChange,
+  placeholder,
+  format = "markup",
+  onFormatChange,
+  issues = [],
+  findings = [],
+  languages = [],
+  autoLanguage = false,
+  onAutoLanguageChange,
+}: TextInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importedTitle, setImportedTitle] = useState<string | null>(null);
+  const [showFindings, setShowFindings] = useState(true);
 
-  const insertText = useCallback((textToInsert: string) => {
+  // Replace a range of the text, then place the caret after the new text or select it
+  const replaceRange = useCallback((start: number, end: number, replacement: string, select: boolean = false) => {
     const textarea = textareaRef.current;
     if (!textarea) return;
 
-    const start = textarea.selectionStart;
-    const end = textarea.selectionEnd;
-    const newValue = value.substring(0, start) + textToInsert + value.substring(end);
-    
+    const newValue = value.substring(0, start) + replacement + value.substring(end);
     onChange(newValue);
-    
-    // Restore cursor position
+
     setTimeout(() => {
       textarea.focus();
-      textarea.setSelectionRange(start + textToInsert.length, start + textToInsert.length);
+      textarea.setSelectionRange(select ? start : start + replacement.length, start + replacement.length);
     }, 0);
   }, [value, onChange]);
 
-  const formatText = useCallback((format: string) => {
+  const insertText = useCallback((textToInsert: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    replaceRange(textarea.selectionStart, textarea.selectionEnd, textToInsert);
+  }, [replaceRange]);
+
+  const formatText = useCallback((style: string) => {
     const textarea = textareaRef.current;
     if (!textarea) return;
 
@@ -41,30 +106,34 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
     const selectedText = value.substring(start, end);
     
     if (selectedText) {
+      const ssml = format === "ssml";
       let formattedText = "";
-      switch (format) {
+      switch (style) {
         case "emphasis":
-          formattedText = `*${selectedText}*`;
+          formattedText = ssml ? `<emphasis>${selectedText}</emphasis>` : `*${selectedText}*`;
           break;
         case "pause":
-          formattedText = `${selectedText}...`;
+          formattedText = ssml ? `${selectedText}<break time="500ms"/>` : `${selectedText}...`;
           break;
         case "slow":
-          formattedText = `[slow]${selectedText}[/slow]`;
+          formattedText = ssml ? `<prosody rate="slow">${selectedText}</prosody>` : `[slow]${selectedText}[/slow]`;
           break;
         default:
           formattedText = selectedText;
       }
       
-      const newValue = value.substring(0, start) + formattedText + value.substring(end);
-      onChange(newValue);
-      
-      setTimeout(() => {
-        textarea.focus();
-        textarea.setSelectionRange(start, start + formattedText.length);
-      }, 0);
+      replaceRange(start, end, formattedText, true);
     }
-  }, [value, onChange]);
+  }, [value, format, replaceRange]);
+
+  // Select the offending source so the error is easy to find
+  const selectRange = useCallback(({ start, end }: { start: number; end: number }) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    textarea.focus();
+    textarea.setSelectionRange(start, Math.max(end, start + 1));
+  }, []);
 
   const clearText = useCallback(() => {
     onChange("");
@@ -79,9 +148,54 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
     ];
     
     const randomExample = examples[Math.floor(Math.random() * examples.length)];
-    onChange(randomExample);
+    onChange(format === "ssml" ? ssmlExample : format === "markdown" ? markdownExample : randomExample);
     textareaRef.current?.focus();
-  }, [onChange]);
+  }, [onChange, format]);
+
+  // Replace the text with a document's readable content
+  const importFile = useCallback(async (file: File) => {
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const document = await importDocument(file);
+      if (document.blocks.length === 0) {
+        throw new Error(`No readable text found in ${file.name}`);
+      }
+      onChange(renderDocument(document, format));
+      setImportedTitle(document.title);
+      textareaRef.current?.focus();
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Import failed");
+      setImportedTitle(null);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [onChange, format]);
+
+  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = "";
+    if (file) importFile(file);
+  }, [importFile]);
+
+  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    // Dropped text (not files) falls through to the textarea
+    if (!file) return;
+    event.preventDefault();
+    importFile(file);
+  }, [importFile]);
+
+  const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes("Files")) return;
+    event.preventDefault();
+    setIsDragging(true);
+  }, []);
+
+  // A single detected language is only worth showing when voices follow it
+  const showLanguages = languages.length > 0 && (autoLanguage || new Set(languages.map(span => span.language)).size > 1);
 
   const wordCount = value.trim().split(/\s+/).filter(word => word.length > 0).length;
   const charCount = value.length;
@@ -102,7 +216,7 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
           <Button
             variant="outline"
             size="sm"
-            onClick={() => insertText("... ")}
+            onClick={() => insertText(format === "ssml" ? '<break time="500ms"/> ' : "... ")}
             className="text-xs"
           >
             Add Pause
@@ -123,9 +237,48 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
           >
             📝 Example
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="text-xs"
+            title="Import a .txt, .md, .html, .docx, .epub, .srt or .vtt file"
+          >
+            {isImporting ? "⏳ Importing..." : "📂 Import"}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_ACCEPT}
+            onChange={handleFileChange}
+            className="hidden"
+          />
         </div>
         
         <div className="flex items-center gap-2">
+          {onAutoLanguageChange && (
+            <Button
+              variant={autoLanguage ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => onAutoLanguageChange(!autoLanguage)}
+              className="text-xs"
+              title="Switch to a voice for each paragraph's language"
+            >
+              🌍 {autoLanguage ? "Auto language" : "One language"}
+            </Button>
+          )}
+          {onFormatChange && (
+            <Button
+              variant={format === "markup" ? "ghost" : "secondary"}
+              size="sm"
+              onClick={() => onFormatChange(FORMATS[(FORMATS.findIndex(option => option.format === format) + 1) % FORMATS.length].format)}
+              className="text-xs"
+              title="Switch between editor markup, Markdown and SSML"
+            >
+              {FORMATS.find(option => option.format === format)?.label}
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -146,16 +299,29 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
       </div>
 
       {/* Text Area */}
-      <div className="relative">
+      <div
+        className="relative"
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
         <Textarea
           ref={textareaRef}
           value={value}
           onChange={(e) => onChange(e.target.value)}
           placeholder={placeholder}
+          spellCheck={format !== "ssml"}
+          aria-invalid={issues.length > 0}
           className={`resize-none transition-all duration-300 ${
             isExpanded ? "min-h-[300px]" : "min-h-[150px]"
-          }`}
+          } ${format === "markup" ? "" : "font-mono text-sm"} ${isDragging ? "ring-2 ring-primary" : ""}`}
         />
+
+        {isDragging && (
+          <div className="pointer-events-none absolute inset-0 flex items-center justify-center rounded-md bg-background/80 text-sm text-muted-foreground">
+            📂 Drop a document to import its text
+          </div>
+        )}
         
         {/* Character/Word Count Overlay */}
         <div className="absolute bottom-3 right-3 flex items-center gap-3">
@@ -168,15 +334,127 @@ export default function TextInput({ value, onChange, placeholder }: TextInputPro
         </div>
       </div>
 
+      {/* Import result */}
+      {importError ? (
+        <p className="text-xs text-destructive">{importError}</p>
+      ) : importedTitle && (
+        <p className="text-xs text-muted-foreground">
+          📄 Imported “{importedTitle}”. Headings and paragraph breaks are kept as pauses.
+        </p>
+      )}
+
+      {/* Detected languages, one badge per paragraph */}
+      {showLanguages && (
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="text-xs text-muted-foreground">
+            {autoLanguage ? "Voices follow:" : "Detected:"}
+          </span>
+          {languages.map((span) => (
+            <button
+              key={span.start}
+              type="button"
+              onClick={() => selectRange(span)}
+              title={`${Math.round(span.confidence * 100)}% confident`}
+            >
+              <Badge variant="outline" className="text-xs hover:bg-muted">
+                {span.language.toUpperCase()} · {LANGUAGE_NAMES[span.language] ?? span.language}
+              </Badge>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* SSML validation errors */}
+      {format === "ssml" && issues.length > 0 && (
+        <div className="rounded-md border border-destructive/50 p-3 space-y-1">
+          <p className="text-xs font-medium text-destructive">
+            {issues.length} SSML {issues.length === 1 ? "error" : "errors"}
+          </p>
+          <ul className="space-y-0.5">
+            {issues.map((issue, index) => (
+              <li key={index}>
+                <button
+                  type="button"
+                  onClick={() => selectRange(issue)}
+                  className="text-left text-xs text-destructive hover:underline"
+                >
+                  Line {issue.line}, col {issue.column}: {issue.message}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Script check */}
+      {findings.length > 0 && (
+        <div className="rounded-md border p-3 space-y-2">
+          <button
+            type="button"
+            onClick={() => setShowFindings(!showFindings)}
+            className="text-xs font-medium text-muted-foreground hover:text-foreground"
+          >
+            🔎 {findings.length} possible speech {findings.length === 1 ? "problem" : "problems"} {showFindings ? "▾" : "▸"}
+          </button>
+          {showFindings && (
+            <ul className="space-y-1 max-h-60 overflow-y-auto">
+              {findings.map((finding) => (
+                <li key={`${finding.rule}-${finding.start}`} className="flex items-start justify-between gap-2">
+                  <button
+                    type="button"
+                    onClick={() => selectRange(finding)}
+                    className="text-left text-xs hover:underline"
+                  >
+                    <Badge variant="outline" className="text-xs mr-1">{LINT_RULE_LABELS[finding.rule]}</Badge>
+                    {finding.message}
+                  </button>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {finding.fixes.map((fix) => (
+                      <Button
+                        key={fix.label}
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => replaceRange(fix.start, fix.end, fix.replacement, true)}
+                        className="h-6 px-2 text-xs"
+                      >
+                        {fix.label}
+                      </Button>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Tips */}
       <div className="text-xs text-muted-foreground space-y-1">
         <p><strong>Tips:</strong></p>
-        <ul className="list-disc list-inside space-y-0.5 ml-2">
-          <li>Use *text* for emphasis and natural speech patterns</li>
-          <li>Add commas and periods for natural pauses</li>
-          <li>Select text and use formatting buttons for advanced control</li>
-          <li>Longer texts may take more time to generate</li>
-        </ul>
+        {format === "markdown" ? (
+          <ul className="list-disc list-inside space-y-0.5 ml-2">
+            <li>Headings are read with a pause before and after</li>
+            <li>List items are announced, links read only their text</li>
+            <li>Table rows are read cell by cell with their column headers</li>
+            <li>Code blocks are skipped or mentioned, never read out</li>
+          </ul>
+        ) : format === "ssml" ? (
+          <ul className="list-disc list-inside space-y-0.5 ml-2">
+            <li>Supported elements: {SUPPORTED_SSML_ELEMENTS.map(name => `<${name}>`).join(", ")}</li>
+            <li>The &lt;speak&gt; root is optional; it is added when missing</li>
+            <li>Write &amp;amp; and &amp;lt; for literal &amp; and &lt;</li>
+            <li>Engines without SSML support approximate breaks, emphasis and slow prosody</li>
+          </ul>
+        ) : (
+          <ul className="list-disc list-inside space-y-0.5 ml-2">
+            <li>Use *text* for emphasis and natural speech patterns</li>
+            <li>Wrap text in [slow]...[/slow] to slow it down</li>
+            <li>Add commas and periods for natural pauses, or ... for a longer one</li>
+            <li>Select text and use formatting buttons for advanced control</li>
+            <li>Drop a document on the editor or use Import to read it aloud</li>
+            <li>Longer texts may take more time to generate</li>
+          </ul>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,103 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NORMALIZATION_LOCALES } from "@/lib/text/locales";
+import { normalizeText, NORMALIZATION_EXAMPLES } from "@/lib/text/normalize";
+import { getSpokenText, type TextFormat } from "@/lib/synthesis-pipeline";
+import type { ExpansionOptions } from "@/lib/text/abbreviations";
+import type { Lexicon } from "@/lib/text/lexicon";
+import type { MarkdownReadingOptions } from "@/lib/text/markdown";
+
+interface TextNormalizationProps {
+  text: string;
+  format: TextFormat;
+  locale: string;
+  onLocaleChange: (locale: string) => void;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  // Abbreviation dictionaries and lexicon aliases, applied in the preview
+  expansions?: ExpansionOptions;
+  lexicons?: Lexicon[];
+  // How Markdown structure is read, in the Markdown format
+  markdown?: MarkdownReadingOptions;
+}
+
+export default function TextNormalization({
+  text,
+  format,
+  locale,
+  onLocaleChange,
+  enabled,
+  onEnabledChange,
+  expansions,
+  lexicons,
+  markdown,
+}: TextNormalizationProps) {
+  const [showPreview, setShowPreview] = useState(false);
+
+  const preview = useMemo(
+    () => showPreview ? getSpokenText(text, { format, locale: enabled ? locale : undefined, expansions, lexicons, markdown }) : "",
+    [showPreview, text, format, locale, enabled, expansions, lexicons, markdown]
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="normalize-text"
+            checked={enabled}
+            onCheckedChange={onEnabledChange}
+          />
+          <Label htmlFor="normalize-text" className="text-sm">Read numbers as words</Label>
+        </div>
+
+        <Select value={locale} onValueChange={onLocaleChange} disabled={!enabled}>
+          <SelectTrigger className="w-40" size="sm">
+            <SelectValue placeholder="Locale" />
+          </SelectTrigger>
+          <SelectContent>
+            {NORMALIZATION_LOCALES.map((option) => (
+              <SelectItem key={option.tag} value={option.tag}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowPreview(!showPreview)}
+          disabled={!text.trim()}
+          className="text-xs ml-auto"
+        >
+          {showPreview ? "Hide preview" : "👁️ Preview"}
+        </Button>
+      </div>
+
+      {showPreview && text.trim() && (
+        <div className="rounded-md border bg-muted/50 p-3 space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">What the voice will read</p>
+          <p className="text-sm whitespace-pre-wrap">{preview}</p>
+          {enabled && (
+            <details className="pt-1 text-xs text-muted-foreground">
+              <summary className="cursor-pointer">Examples</summary>
+              <ul className="mt-1 space-y-1">
+                {NORMALIZATION_EXAMPLES.map((example) => (
+                  <li key={example}>
+                    {example} → <span className="text-foreground">{normalizeText(example, locale)}</span>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
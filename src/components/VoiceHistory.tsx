@@ -4,6 +4,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { getEngine } from "@/lib/engines";
+import { downloadAudio as saveAudio } from "@/lib/audio-utils";
+import type { SynthesizedChunk } from "@/lib/synthesis-pipeline";
 
 interface VoiceSettings {
   voice: string;
@@ -21,6 +24,9 @@ interface GeneratedAudio {
   duration: number;
   createdAt: Date;
   settings: VoiceSettings;
+  chunks?: SynthesizedChunk[];
+  engineId?: string;
+  partial?: boolean;
 }
 
 interface VoiceHistoryProps {
@@ -49,15 +55,12 @@ export default function VoiceHistory({ history, onSelect, currentAudio }: VoiceH
     return date.toLocaleDateString();
   };
 
-  const downloadAudio = (audio: GeneratedAudio, event: React.MouseEvent) => {
+  const downloadAudio = async (audio: GeneratedAudio, event: React.MouseEvent) => {
     event.stopPropagation(); // Prevent selection
-    
-    const link = document.createElement('a');
-    link.href = audio.audioUrl;
-    link.download = `voice-${audio.id}.mp3`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+
+    // Named after the recording's actual type (MP3, WAV, ...) rather than assuming MP3
+    const blob = await (await fetch(audio.audioUrl)).blob();
+    saveAudio(blob, `voice-${audio.id}`);
   };
 
   const deleteFromHistory = (audioId: string, event: React.MouseEvent) => {
@@ -66,7 +69,7 @@ export default function VoiceHistory({ history, onSelect, currentAudio }: VoiceH
     // In a real app, you'd want to update the parent state
     // For now, we'll just revoke the URL to free memory
     const audio = history.find(a => a.id === audioId);
-    if (audio) {
+    if (audio?.audioUrl) {
       URL.revokeObjectURL(audio.audioUrl);
     }
   };
@@ -123,6 +126,21 @@ export default function VoiceHistory({ history, onSelect, currentAudio }: VoiceH
                       <span className="text-xs text-muted-foreground">
                         {formatTime(audio.duration)}
                       </span>
+                      {audio.chunks && audio.chunks.length > 1 && (
+                        <span className="text-xs text-muted-foreground">
+                          • {audio.chunks.length} chunks
+                        </span>
+                      )}
+                      {audio.engineId && (
+                        <span className="text-xs text-muted-foreground">
+                          • {getEngine(audio.engineId)?.name ?? audio.engineId}
+                        </span>
+                      )}
+                      {audio.partial && (
+                        <Badge variant="secondary" className="text-xs">
+                          Partial
+                        </Badge>
+                      )}
                     </div>
                     
                     <div className="flex items-center gap-1">
@@ -130,6 +148,7 @@ export default function VoiceHistory({ history, onSelect, currentAudio }: VoiceH
                         variant="ghost"
                         size="sm"
                         onClick={(e) => downloadAudio(audio, e)}
+                        disabled={!audio.audioUrl}
                         className="h-6 w-6 p-0 text-xs"
                         title="Download"
                       >
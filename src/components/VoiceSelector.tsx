@@ -5,6 +5,7 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
+import { resolveEngine } from "@/lib/engines";
 
 interface Voice {
   id: string;
@@ -83,11 +84,14 @@ const voices: Voice[] = [
 ];
 
 interface VoiceSelectorProps {
+  engineId?: string;
   value: string;
   onChange: (value: string) => void;
+  // A preview would interrupt a generation speaking through the same engine
+  previewDisabled?: boolean;
 }
 
-export default function VoiceSelector({ value, onChange }: VoiceSelectorProps) {
+export default function VoiceSelector({ engineId, value, onChange, previewDisabled = false }: VoiceSelectorProps) {
   const [previewingVoice, setPreviewingVoice] = useState<string | null>(null);
   
   const selectedVoice = voices.find(voice => voice.id === value);
@@ -96,63 +100,19 @@ export default function VoiceSelector({ value, onChange }: VoiceSelectorProps) {
     setPreviewingVoice(voiceId);
     
     try {
-      // Use browser's Speech Synthesis API for preview
-      if (!('speechSynthesis' in window)) {
-        alert('Speech synthesis not supported in this browser');
-        return;
+      const engine = resolveEngine(engineId);
+      const result = await engine.synthesize({
+        text: "Hello! This is a voice preview sample.",
+        settings: { voice: voiceId, speed: 1.0, pitch: 1.0, stability: 0.75, clarity: 0.75 },
+      });
+
+      // Engines that return audio need it played back; Web Speech already spoke it
+      if (result.audio) {
+        const url = URL.createObjectURL(result.audio);
+        const preview = new Audio(url);
+        preview.addEventListener("ended", () => URL.revokeObjectURL(url));
+        await preview.play();
       }
-
-      const utterance = new SpeechSynthesisUtterance("Hello! This is a voice preview sample.");
-      
-      // Get available voices
-      const voices = window.speechSynthesis.getVoices();
-      
-      // Voice mapping
-      const voiceMap: Record<string, string[]> = {
-        'rachel': ['Microsoft Zira', 'Google UK English Female', 'Karen', 'Samantha', 'female'],
-        'domi': ['Microsoft Hazel', 'Google US English Female', 'Victoria', 'Allison', 'female'],
-        'bella': ['Microsoft Eva', 'Google UK English Female', 'Fiona', 'Susan', 'female'],
-        'antoni': ['Microsoft David', 'Google US English Male', 'Daniel', 'Alex', 'male'],
-        'elli': ['Microsoft Mark', 'Google UK English Female', 'Kate', 'Veena', 'female'],
-        'josh': ['Microsoft Zira', 'Google US English Male', 'Tom', 'Fred', 'male'],
-        'arnold': ['Microsoft Paul', 'Google UK English Male', 'Oliver', 'Ralph', 'male'],
-        'adam': ['Microsoft Mark', 'Google US English Male', 'Aaron', 'Bruce', 'male'],
-        'sam': ['Microsoft David', 'Google US English Male', 'Sam', 'Junior', 'male']
-      };
-
-      // Find best matching voice
-      const preferredVoices = voiceMap[voiceId] || ['female'];
-      let selectedVoice = voices.find(voice => 
-        preferredVoices.some(pref => 
-          voice.name.toLowerCase().includes(pref.toLowerCase())
-        )
-      );
-
-      // Fallback to gender-based selection
-      if (!selectedVoice) {
-        const isFemale = preferredVoices.includes('female') || 
-          ['rachel', 'domi', 'bella', 'elli'].includes(voiceId);
-        selectedVoice = voices.find(voice => 
-          isFemale ? 
-            voice.name.toLowerCase().includes('female') :
-            voice.name.toLowerCase().includes('male')
-        );
-      }
-
-      if (selectedVoice) {
-        utterance.voice = selectedVoice;
-      }
-
-      // Set voice parameters
-      utterance.rate = 1.0;
-      utterance.pitch = 1.0;
-      utterance.volume = 1.0;
-
-      // Stop any current speech
-      window.speechSynthesis.cancel();
-      
-      // Speak the preview
-      window.speechSynthesis.speak(utterance);
     } catch (error) {
       console.error("Preview failed:", error);
     } finally {
@@ -224,8 +184,9 @@ export default function VoiceSelector({ value, onChange }: VoiceSelectorProps) {
                 variant="outline"
                 size="sm"
                 onClick={() => previewVoice(selectedVoice.id)}
-                disabled={previewingVoice === selectedVoice.id}
+                disabled={previewDisabled || previewingVoice === selectedVoice.id}
                 className="text-xs"
+                title={previewDisabled ? "Preview is available once the current generation has finished speaking" : undefined}
               >
                 {previewingVoice === selectedVoice.id ? "Playing..." : "🔊 Preview"}
               </Button>
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { selectPeakLevel, type WaveformPeaks } from "@/lib/audio-utils";
+
+interface WaveformProps {
+  waveform: WaveformPeaks;
+  // Seconds
+  currentTime: number;
+  onSeek: (time: number) => void;
+  disabled?: boolean;
+}
+
+const ZOOM_LEVELS = [1, 2, 4, 8, 16];
+const HEIGHT = 64;
+
+// Outline of the min/max envelope, one column per pixel, scaled so the loudest peak fills the height
+const buildPath = (waveform: WaveformPeaks, width: number, startSample: number, samplesPerPixel: number, scale: number) => {
+  const { samplesPerPeak, peaks } = selectPeakLevel(waveform, samplesPerPixel);
+  const count = peaks.length / 2;
+  const top: string[] = [];
+  const bottom: string[] = [];
+
+  for (let x = 0; x < width; x++) {
+    const first = Math.min(count - 1, Math.floor((startSample + x * samplesPerPixel) / samplesPerPeak));
+    const last = Math.min(count, Math.max(first + 1, Math.ceil((startSample + (x + 1) * samplesPerPixel) / samplesPerPeak)));
+    let min = 0;
+    let max = 0;
+    for (let peak = first; peak < last; peak++) {
+      min = Math.min(min, peaks[peak * 2]);
+      max = Math.max(max, peaks[peak * 2 + 1]);
+    }
+    // At least a hairline, so silence still shows where the audio is
+    const y1 = Math.min(HEIGHT / 2 - 0.5, (1 - max * scale) * (HEIGHT / 2));
+    const y2 = Math.max(HEIGHT / 2 + 0.5, (1 - min * scale) * (HEIGHT / 2));
+    top.push(`${x} ${y1.toFixed(1)}`, `${x + 1} ${y1.toFixed(1)}`);
+    bottom.push(`${x} ${y2.toFixed(1)}`, `${x + 1} ${y2.toFixed(1)}`);
+  }
+
+  return width > 0 ? `M${top.join("L")}L${bottom.reverse().join("L")}Z` : "";
+};
+
+export default function Waveform({ waveform, currentTime, onSeek, disabled = false }: WaveformProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [zoom, setZoom] = useState(1);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return undefined;
+
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const { sampleRate, length } = waveform;
+  const total = length / sampleRate;
+  // Zoomed in, the visible window follows the playhead
+  const visible = total / zoom;
+  const start = Math.max(0, Math.min(total - visible, currentTime - visible / 2));
+
+  const scale = useMemo(() => {
+    const coarsest = waveform.levels[waveform.levels.length - 1].peaks;
+    const peak = coarsest.reduce((loudest, value) => Math.max(loudest, Math.abs(value)), 0);
+    return 1 / Math.max(0.01, peak);
+  }, [waveform]);
+
+  const path = useMemo(
+    () => buildPath(waveform, width, start * sampleRate, width > 0 ? (visible * sampleRate) / width : 1, scale),
+    [waveform, width, start, visible, sampleRate, scale]
+  );
+
+  const playedX = total > 0 ? Math.max(0, Math.min(width, ((currentTime - start) / visible) * width)) : 0;
+
+  const seekTo = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (disabled || width === 0) return;
+    const x = event.clientX - event.currentTarget.getBoundingClientRect().left;
+    onSeek(Math.max(0, Math.min(total, start + (x / width) * visible)));
+  };
+
+  return (
+    <div className="space-y-1">
+      <div
+        ref={containerRef}
+        className={`relative w-full ${disabled ? "opacity-60" : "cursor-pointer"}`}
+        style={{ height: HEIGHT }}
+        onClick={seekTo}
+        title="Click to seek"
+      >
+        <svg width={width} height={HEIGHT} className="absolute inset-0 fill-muted-foreground/40">
+          <path d={path} />
+        </svg>
+        {/* The played part, drawn over the rest */}
+        <div className="absolute inset-y-0 left-0 overflow-hidden" style={{ width: playedX }}>
+          <svg width={width} height={HEIGHT} className="fill-primary">
+            <path d={path} />
+          </svg>
+        </div>
+        <div className="absolute inset-y-0 w-px bg-primary" style={{ left: playedX }} />
+      </div>
+
+      <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setZoom(ZOOM_LEVELS[Math.max(0, ZOOM_LEVELS.indexOf(zoom) - 1)])}
+          disabled={zoom === ZOOM_LEVELS[0]}
+          className="h-6 px-2"
+          title="Zoom out"
+        >
+          ➖
+        </Button>
+        <span className="w-8 text-center">{zoom}×</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setZoom(ZOOM_LEVELS[Math.min(ZOOM_LEVELS.length - 1, ZOOM_LEVELS.indexOf(zoom) + 1)])}
+          disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+          className="h-6 px-2"
+          title="Zoom in"
+        >
+          ➕
+        </Button>
+      </div>
+    </div>
+  );
+}
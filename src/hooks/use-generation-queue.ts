@@ -0,0 +1,32 @@
+import * as React from "react"
+import {
+  createGenerationQueue,
+  type GenerationJob,
+  type GenerationQueue,
+  type QueueState,
+} from "@/lib/generation-queue"
+
+/**
+ * Own a generation queue for the lifetime of the component and re-render
+ * whenever its jobs change
+ */
+export function useGenerationQueue(onJobSettled?: (job: GenerationJob) => void): {
+  queue: GenerationQueue
+  state: QueueState
+} {
+  // Keep the latest callback without recreating the queue
+  const onJobSettledRef = React.useRef(onJobSettled)
+  React.useEffect(() => {
+    onJobSettledRef.current = onJobSettled
+  }, [onJobSettled])
+
+  const [queue] = React.useState(() =>
+    createGenerationQueue({
+      onJobSettled: (job) => onJobSettledRef.current?.(job),
+    })
+  )
+
+  const state = React.useSyncExternalStore(queue.subscribe, queue.getState, queue.getState)
+
+  return { queue, state }
+}
@@ -2,6 +2,12 @@
  * Audio utilities for voice generation and processing
  */
 
+import { isSentenceEnd } from '@/lib/text/abbreviations';
+import { encodeWav, type WavBitDepth } from '@/lib/encoders/wav';
+import { getMp3Bitrates, type Mp3Mode } from '@/lib/encoders/mp3';
+import { encodeOpus, OPUS_BITRATES, OPUS_SAMPLE_RATE } from '@/lib/encoders/opus';
+import type { EncodeRequest, EncodeResponse } from '@/lib/encoders/encoder-worker';
+
 export interface AudioMetadata {
   duration: number;
   size: number;
@@ -38,36 +44,221 @@ export const getAudioMetadata = (audioBlob: Blob): Promise<AudioMetadata> => {
   });
 };
 
+// Sample rate used when decoding clips that need to be combined
+export const DECODE_SAMPLE_RATE = 44100;
+
+/**
+ * Decode an audio blob into an AudioBuffer (no user gesture required)
+ */
+export const decodeAudioBlob = async (
+  audioBlob: Blob,
+  sampleRate: number = DECODE_SAMPLE_RATE
+): Promise<AudioBuffer> => {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  return context.decodeAudioData(await audioBlob.arrayBuffer());
+};
+
+/**
+ * Join audio buffers end to end, with optional silence (seconds) after each one
+ */
+export const concatenateAudioBuffers = (buffers: AudioBuffer[], gaps: number[] = []): AudioBuffer => {
+  const sampleRate = buffers[0]?.sampleRate ?? DECODE_SAMPLE_RATE;
+  const numberOfChannels = Math.max(1, ...buffers.map(buffer => buffer.numberOfChannels));
+  const gapFrames = buffers.map((_, i) => Math.round((gaps[i] || 0) * sampleRate));
+  const length = buffers.reduce((sum, buffer, i) => sum + buffer.length + gapFrames[i], 0);
+
+  const result = new AudioBuffer({ length: Math.max(1, length), numberOfChannels, sampleRate });
+  let offset = 0;
+  buffers.forEach((buffer, i) => {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      // Mono clips are copied into every output channel
+      const source = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+      result.copyToChannel(source, channel, offset);
+    }
+    offset += buffer.length + gapFrames[i];
+  });
+
+  return result;
+};
+
+/**
+ * Copy the channels of an AudioBuffer into plain arrays
+ */
+export const getChannels = (buffer: AudioBuffer): Float32Array[] => {
+  return Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+};
+
+export type ExportFormat = 'wav' | 'mp3' | 'flac' | 'opus';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  sampleRate: number;
+  // 1 (mono) or 2 (stereo); other channel counts are mixed down or up
+  channels: number;
+  // WAV and FLAC
+  bitDepth: WavBitDepth;
+  // MP3 and Opus: constant bitrate, or a variable one averaging `bitrate`
+  bitrateMode: Mp3Mode;
+  // kbps
+  bitrate: number;
+  // FLAC only: 0 (fastest) to 8 (smallest)
+  compression: number;
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat; name: string }[] = [
+  { format: 'wav', name: 'WAV (PCM)' },
+  { format: 'mp3', name: 'MP3' },
+  { format: 'flac', name: 'FLAC (lossless)' },
+  { format: 'opus', name: 'Opus (OGG)' },
+];
+
+// All of these are valid MP3 sample rates too. Opus always exports at 48 kHz.
+export const EXPORT_SAMPLE_RATES = [16000, 22050, 24000, 44100, 48000];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'wav',
+  sampleRate: DECODE_SAMPLE_RATE,
+  channels: 1,
+  bitDepth: 16,
+  bitrateMode: 'cbr',
+  bitrate: 128,
+  compression: 5,
+};
+
+// FLAC's typical size relative to PCM for speech
+const FLAC_RATIO = 0.6;
+
+/**
+ * Bitrates (kbps) offered for a lossy format
+ */
+export const getExportBitrates = ({ format, sampleRate }: Pick<ExportOptions, 'format' | 'sampleRate'>): number[] => {
+  return format === 'opus' ? OPUS_BITRATES : getMp3Bitrates(sampleRate);
+};
+
 /**
- * Convert audio blob to different formats (browser-supported formats only)
+ * Encode MP3 or FLAC in a Web Worker, as they take a few seconds per minute of audio
+ */
+export const encodeInWorker = (
+  request: EncodeRequest,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  const name = request.format.toUpperCase();
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./encoders/encoder-worker.ts', import.meta.url));
+    worker.addEventListener('message', (event: MessageEvent<EncodeResponse>) => {
+      if ('progress' in event.data) {
+        onProgress?.(event.data.progress);
+        return;
+      }
+
+      worker.terminate();
+      if ('error' in event.data) {
+        reject(new Error(`${name} encoding failed: ${event.data.error}`));
+      } else {
+        resolve(event.data.audio);
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      worker.terminate();
+      reject(new Error(`${name} encoder crashed: ${event.message}`));
+    });
+
+    worker.postMessage(request);
+  });
+};
+
+/**
+ * Decode audio and render it at the given sample rate and channel count.
+ * The browser resamples while decoding and mixes channels while rendering.
+ */
+export const renderAudio = async (audioBlob: Blob, sampleRate: number, channels: number): Promise<AudioBuffer> => {
+  const decoded = await decodeAudioBlob(audioBlob, sampleRate);
+  const context = new OfflineAudioContext(channels, decoded.length, sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = decoded;
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+};
+
+/**
+ * Convert an audio blob for export
  */
 export const convertAudioFormat = async (
-  audioBlob: Blob, 
-  targetFormat: 'audio/wav' | 'audio/webm' | 'audio/mp4'
+  audioBlob: Blob,
+  options: ExportOptions,
+  onProgress?: (fraction: number) => void
 ): Promise<Blob> => {
-  // This is a simplified version - in a real app you'd use Web Audio API
-  // or a library like ffmpeg.wasm for proper format conversion
-  
-  if (!MediaRecorder.isTypeSupported(targetFormat)) {
-    throw new Error(`Format ${targetFormat} is not supported`);
+  const sampleRate = options.format === 'opus' ? OPUS_SAMPLE_RATE : options.sampleRate;
+  const rendered = await renderAudio(audioBlob, sampleRate, options.channels);
+  const channels = getChannels(rendered);
+  switch (options.format) {
+    case 'wav':
+      return encodeWav(channels, sampleRate, options.bitDepth);
+    case 'mp3':
+      return encodeInWorker({ format: 'mp3', channels, sampleRate, mode: options.bitrateMode, bitrate: options.bitrate }, onProgress);
+    case 'flac':
+      return encodeInWorker({ format: 'flac', channels, sampleRate, bitDepth: options.bitDepth, compression: options.compression }, onProgress);
+    case 'opus':
+      return encodeOpus(channels, sampleRate, {
+        bitrate: options.bitrate,
+        bitrateMode: options.bitrateMode === 'vbr' ? 'variable' : 'constant',
+        onProgress,
+      });
   }
-  
-  // For now, return the original blob
-  // In a production app, implement actual format conversion
-  return audioBlob;
 };
 
 /**
- * Download audio file with proper filename
+ * Approximate size in bytes of an export of `duration` seconds
+ */
+export const estimateExportSize = (duration: number, options: ExportOptions): number => {
+  switch (options.format) {
+    case 'wav':
+      return 44 + Math.ceil(duration * options.sampleRate) * options.channels * (options.bitDepth / 8);
+    case 'flac':
+      return Math.ceil(duration * options.sampleRate * options.channels * (options.bitDepth / 8) * FLAC_RATIO);
+    case 'mp3':
+    case 'opus':
+      return Math.ceil((duration * options.bitrate * 1000) / 8);
+  }
+};
+
+// File extensions by MIME type, with or without its codecs parameter
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/ogg;codecs=opus': 'opus',
+  'audio/opus': 'opus',
+  'audio/webm': 'webm',
+  'audio/flac': 'flac',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/pcm': 'pcm',
+};
+
+/**
+ * File extension matching an audio blob's MIME type
+ */
+export const getAudioExtension = (type: string): string => {
+  const normalized = type.replace(/\s+/g, '').replace(/"/g, '').toLowerCase();
+  return AUDIO_EXTENSIONS[normalized] ?? AUDIO_EXTENSIONS[normalized.split(';')[0]] ?? 'bin';
+};
+
+/**
+ * Download audio file. A filename without an extension gets the one matching
+ * the blob's type.
  */
 export const downloadAudio = (audioBlob: Blob, filename: string = 'voice'): void => {
   const url = URL.createObjectURL(audioBlob);
   const link = document.createElement('a');
   
-  // Ensure proper file extension
   let finalFilename = filename;
   if (!finalFilename.includes('.')) {
-    finalFilename += '.mp3';
+    finalFilename += `.${getAudioExtension(audioBlob.type)}`;
   }
   
   link.href = url;
@@ -141,8 +332,10 @@ export const cleanTextForTTS = (text: string): string => {
     .replace(/\s+/g, ' ')
     // Remove excessive punctuation
     .replace(/([.!?]){2,}/g, '$1')
-    // Ensure proper spacing around punctuation
-    .replace(/([.!?])([A-Z])/g, '$1 $2')
+    // Ensure proper spacing after sentences, but not inside "U.S.A" or after "Dr."
+    .replace(/([.!?])([A-Z])/g, (match, mark: string, letter: string, offset: number, source: string) => {
+      return isSentenceEnd(source, offset) ? `${mark} ${letter}` : match;
+    })
     // Remove HTML tags if any
     .replace(/<[^>]*>/g, '')
     // Trim whitespace
@@ -181,23 +374,71 @@ export const analyzeAudio = async (audioBlob: Blob): Promise<{
   };
 };
 
+export interface PeakLevel {
+  // Source samples summarised by each min/max pair
+  samplesPerPeak: number;
+  // Interleaved min, max pairs, -1..1
+  peaks: Float32Array;
+}
+
+export interface WaveformPeaks {
+  sampleRate: number;
+  // In samples
+  length: number;
+  // Finest first; each level summarises PEAK_LEVEL_FACTOR times as many samples as the one before
+  levels: PeakLevel[];
+}
+
+// Samples per peak at the finest zoom level
+const PEAK_BASE_SAMPLES = 256;
+const PEAK_LEVEL_FACTOR = 4;
+// Coarser levels stop once they'd have fewer peaks than this
+const PEAK_MIN_COUNT = 64;
+
 /**
- * Create audio visualization data (simplified)
+ * Min/max peaks of an audio buffer (all channels together) at several zoom
+ * levels, for drawing its waveform
  */
-export const createVisualizationData = (): number[] => {
-  // This is a simplified version - in a real app you'd use Web Audio API
-  // to create proper waveform visualization data with actual audio buffer
-  
-  const dataPoints = 100;
-  const data: number[] = [];
-  
-  // Generate sample visualization data
-  for (let i = 0; i < dataPoints; i++) {
-    const value = Math.sin(i * 0.1) * Math.random() * 0.5 + 0.5;
-    data.push(Math.max(0.1, value));
+export const createVisualizationData = (buffer: AudioBuffer): WaveformPeaks => {
+  const channels = getChannels(buffer);
+  const count = Math.max(1, Math.ceil(buffer.length / PEAK_BASE_SAMPLES));
+  const finest = new Float32Array(count * 2);
+
+  for (let peak = 0; peak < count; peak++) {
+    let min = 0;
+    let max = 0;
+    const end = Math.min(buffer.length, (peak + 1) * PEAK_BASE_SAMPLES);
+    for (const channel of channels) {
+      for (let i = peak * PEAK_BASE_SAMPLES; i < end; i++) {
+        if (channel[i] < min) min = channel[i];
+        if (channel[i] > max) max = channel[i];
+      }
+    }
+    finest[peak * 2] = min;
+    finest[peak * 2 + 1] = max;
   }
-  
-  return data;
+
+  // Coarser levels merge groups of peaks from the level below
+  const levels: PeakLevel[] = [{ samplesPerPeak: PEAK_BASE_SAMPLES, peaks: finest }];
+  for (let previous = levels[0]; previous.peaks.length / 2 >= PEAK_MIN_COUNT * PEAK_LEVEL_FACTOR; previous = levels[levels.length - 1]) {
+    const source = previous.peaks;
+    const peaks = new Float32Array(Math.ceil(source.length / 2 / PEAK_LEVEL_FACTOR) * 2);
+    for (let i = 0; i < source.length; i += 2) {
+      const target = Math.floor(i / 2 / PEAK_LEVEL_FACTOR) * 2;
+      peaks[target] = Math.min(peaks[target], source[i]);
+      peaks[target + 1] = Math.max(peaks[target + 1], source[i + 1]);
+    }
+    levels.push({ samplesPerPeak: previous.samplesPerPeak * PEAK_LEVEL_FACTOR, peaks });
+  }
+
+  return { sampleRate: buffer.sampleRate, length: buffer.length, levels };
+};
+
+/**
+ * The coarsest peak level that still resolves `samplesPerPixel`
+ */
+export const selectPeakLevel = (waveform: WaveformPeaks, samplesPerPixel: number): PeakLevel => {
+  return waveform.levels.reduce((best, level) => (level.samplesPerPeak <= samplesPerPixel ? level : best), waveform.levels[0]);
 };
 
 interface VoiceSettings {
@@ -208,27 +449,47 @@ interface VoiceSettings {
   clarity?: number;
 }
 
+export interface PronunciationDictionaryLocator {
+  id: string;
+  versionId: string;
+}
+
 /**
  * Voice generation request builder
  */
-export const buildVoiceRequest = (text: string, settings: VoiceSettings) => {
+export const buildVoiceRequest = (
+  text: string,
+  settings: VoiceSettings,
+  modelId: string = 'eleven_multilingual_v2',
+  context: {
+    previousText?: string;
+    nextText?: string;
+    dictionaries?: PronunciationDictionaryLocator[];
+    // ISO 639-1; only some models accept it
+    languageCode?: string;
+  } = {}
+) => {
   const cleanText = cleanTextForTTS(text);
   
   return {
     text: cleanText,
     voice: settings.voice || 'rachel',
-    model_id: 'eleven_multilingual_v2',
+    model_id: modelId,
     voice_settings: {
       stability: Math.max(0, Math.min(1, settings.stability || 0.75)),
       similarity_boost: Math.max(0, Math.min(1, settings.clarity || 0.75)),
       style: 0.0,
       use_speaker_boost: true,
     },
-    pronunciation_dictionary_locators: [],
+    pronunciation_dictionary_locators: (context.dictionaries ?? []).map(dictionary => ({
+      pronunciation_dictionary_id: dictionary.id,
+      version_id: dictionary.versionId,
+    })),
     seed: null,
-    previous_text: null,
-    next_text: null,
+    previous_text: context.previousText ?? null,
+    next_text: context.nextText ?? null,
     previous_request_ids: [],
-    next_request_ids: []
+    next_request_ids: [],
+    ...(context.languageCode && { language_code: context.languageCode }),
   };
 };
\ No newline at end of file
@@ -0,0 +1,49 @@
+/**
+ * Web Worker that runs the MP3 and FLAC encoders off the main thread
+ */
+
+import { encodeFlac, type FlacBitDepth } from '@/lib/encoders/flac';
+import { encodeMp3, type Mp3Mode } from '@/lib/encoders/mp3';
+
+interface EncodeInput {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export type EncodeRequest = EncodeInput & (
+  | { format: 'mp3'; mode: Mp3Mode; bitrate: number }
+  | { format: 'flac'; bitDepth: FlacBitDepth; compression: number }
+);
+
+export type EncodeResponse =
+  | { audio: Blob }
+  | { progress: number }
+  | { error: string };
+
+const ctx = self as unknown as Worker;
+
+const encode = (request: EncodeRequest, onProgress: (progress: number) => void): Blob => {
+  const { channels, sampleRate } = request;
+  switch (request.format) {
+    case 'mp3':
+      return encodeMp3(channels, sampleRate, { mode: request.mode, bitrate: request.bitrate, onProgress });
+    case 'flac':
+      return encodeFlac(channels, sampleRate, { bitDepth: request.bitDepth, compression: request.compression, onProgress });
+  }
+};
+
+ctx.addEventListener('message', (event: MessageEvent<EncodeRequest>) => {
+  try {
+    const audio = encode(event.data, (progress) => {
+      const update: EncodeResponse = { progress };
+      ctx.postMessage(update);
+    });
+    const response: EncodeResponse = { audio };
+    ctx.postMessage(response);
+  } catch (error) {
+    const response: EncodeResponse = {
+      error: error instanceof Error ? error.message : String(error),
+    };
+    ctx.postMessage(response);
+  }
+});
@@ -0,0 +1,534 @@
+/**
+ * FLAC encoding: fixed and LPC predictors with partitioned Rice-coded
+ * residuals, stereo decorrelation, and compression levels 0-8 trading
+ * speed for size like the reference encoder's
+ */
+
+export type FlacBitDepth = 16 | 24;
+
+export interface FlacOptions {
+  bitDepth?: FlacBitDepth;
+  // 0 (fastest) to 8 (smallest)
+  compression?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+export const FLAC_COMPRESSION_LEVELS = 9;
+
+interface CompressionLevel {
+  // Largest LPC order; 0 uses the fixed predictors only
+  lpcOrder: number;
+  partitionOrder: number;
+  // Try left/side, right/side and mid/side as well as independent channels
+  stereo: boolean;
+  // Try every LPC order instead of the one with the best estimated size
+  exhaustive: boolean;
+}
+
+const LEVELS: CompressionLevel[] = [
+  { lpcOrder: 0, partitionOrder: 3, stereo: false, exhaustive: false },
+  { lpcOrder: 0, partitionOrder: 3, stereo: true, exhaustive: false },
+  { lpcOrder: 0, partitionOrder: 4, stereo: true, exhaustive: false },
+  { lpcOrder: 6, partitionOrder: 4, stereo: false, exhaustive: false },
+  { lpcOrder: 8, partitionOrder: 4, stereo: true, exhaustive: false },
+  { lpcOrder: 8, partitionOrder: 5, stereo: true, exhaustive: false },
+  { lpcOrder: 8, partitionOrder: 6, stereo: true, exhaustive: false },
+  { lpcOrder: 12, partitionOrder: 6, stereo: true, exhaustive: false },
+  { lpcOrder: 12, partitionOrder: 6, stereo: true, exhaustive: true },
+];
+
+const BLOCK_SIZE = 4096;
+// Bits per quantized LPC coefficient, as the reference encoder uses for this block size
+const LPC_PRECISION = 12;
+const MAX_RICE_PARAMETER = 30;
+
+// Sample rates the frame header can name; others are read from STREAMINFO
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6, 24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11,
+};
+
+// Channel assignment codes for stereo decorrelation
+const LEFT_SIDE = 8;
+const RIGHT_SIDE = 9;
+const MID_SIDE = 10;
+
+interface BitWriter {
+  bytes: Uint8Array;
+  // In bits
+  position: number;
+}
+
+interface Subframe {
+  bits: number;
+  write: (writer: BitWriter) => void;
+}
+
+const createWriter = (bytes: number): BitWriter => ({ bytes: new Uint8Array(bytes), position: 0 });
+
+const ensureCapacity = (writer: BitWriter, bits: number): void => {
+  const needed = (writer.position + bits + 7) >> 3;
+  if (needed > writer.bytes.length) {
+    const grown = new Uint8Array(Math.max(needed, writer.bytes.length * 2));
+    grown.set(writer.bytes);
+    writer.bytes = grown;
+  }
+};
+
+const writeBits = (writer: BitWriter, value: number, bits: number): void => {
+  ensureCapacity(writer, bits);
+  for (let bit = bits - 1; bit >= 0; bit--) {
+    if ((value >>> bit) & 1) {
+      writer.bytes[writer.position >> 3] |= 0x80 >> (writer.position & 7);
+    }
+    writer.position++;
+  }
+};
+
+const writeSigned = (writer: BitWriter, value: number, bits: number): void => {
+  writeBits(writer, value < 0 ? value + 2 ** bits : value, bits);
+};
+
+// `count` zeros then a one
+const writeUnary = (writer: BitWriter, count: number): void => {
+  ensureCapacity(writer, count + 1);
+  writer.position += count;
+  writer.bytes[writer.position >> 3] |= 0x80 >> (writer.position & 7);
+  writer.position++;
+};
+
+const CRC8_TABLE = Uint8Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  return crc;
+});
+
+const CRC16_TABLE = Uint16Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte << 8;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  return crc;
+});
+
+const crc8 = (bytes: Uint8Array, end: number): number => {
+  let crc = 0;
+  for (let i = 0; i < end; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+};
+
+const crc16 = (bytes: Uint8Array, end: number): number => {
+  let crc = 0;
+  for (let i = 0; i < end; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  return crc;
+};
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+/**
+ * Streaming MD5, for the STREAMINFO signature of the unencoded audio
+ */
+const createMd5 = () => {
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  const block = new Uint8Array(64);
+  const view = new DataView(block.buffer);
+  let buffered = 0;
+  let length = 0;
+
+  const transform = () => {
+    let [a, b, c, d] = state;
+    for (let i = 0; i < 64; i++) {
+      const round = i >> 4;
+      let f: number;
+      let word: number;
+      if (round === 0) {
+        f = (b & c) | (~b & d);
+        word = i;
+      } else if (round === 1) {
+        f = (d & b) | (~d & c);
+        word = (5 * i + 1) % 16;
+      } else if (round === 2) {
+        f = b ^ c ^ d;
+        word = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        word = (7 * i) % 16;
+      }
+      const sum = (a + f + MD5_CONSTANTS[i] + view.getUint32(word * 4, true)) | 0;
+      const shift = MD5_SHIFTS[round * 4 + (i % 4)];
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    state[0] = (state[0] + a) | 0;
+    state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0;
+    state[3] = (state[3] + d) | 0;
+  };
+
+  const update = (bytes: Uint8Array) => {
+    length += bytes.length;
+    for (const byte of bytes) {
+      block[buffered++] = byte;
+      if (buffered === 64) {
+        transform();
+        buffered = 0;
+      }
+    }
+  };
+
+  const digest = (): Uint8Array => {
+    const bits = length * 8;
+    update(new Uint8Array([0x80]));
+    while (buffered !== 56) update(new Uint8Array(1));
+    view.setUint32(56, bits >>> 0, true);
+    view.setUint32(60, Math.floor(bits / 2 ** 32), true);
+    transform();
+
+    const result = new Uint8Array(16);
+    const resultView = new DataView(result.buffer);
+    state.forEach((word, i) => resultView.setUint32(i * 4, word >>> 0, true));
+    return result;
+  };
+
+  return { update, digest };
+};
+
+const zigzag = (value: number): number => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+/**
+ * Rice-code `residual[order..]` in 2^p partitions, choosing the partition
+ * order and each partition's parameter from estimated sizes
+ */
+const planResidual = (residual: Int32Array, order: number, maxPartitionOrder: number): Subframe => {
+  const blockSize = residual.length;
+  let maxOrder = 0;
+  while (maxOrder < maxPartitionOrder && blockSize % (1 << (maxOrder + 1)) === 0 && (blockSize >> (maxOrder + 1)) > order) {
+    maxOrder++;
+  }
+
+  // Sums of the zigzagged residual per partition at the finest order; coarser orders add neighbours
+  let sums = new Float64Array(1 << maxOrder);
+  const partitionSize = blockSize >> maxOrder;
+  for (let i = order; i < blockSize; i++) sums[Math.floor(i / partitionSize)] += zigzag(residual[i]);
+
+  const estimate = (sum: number, count: number) => {
+    const mean = count > 0 ? sum / count : 0;
+    const parameter = Math.min(MAX_RICE_PARAMETER, mean > 1 ? Math.floor(Math.log2(mean)) : 0);
+    return { parameter, bits: count * (parameter + 1) + Math.floor(sum / 2 ** parameter) - (parameter > 0 ? count / 2 : 0) };
+  };
+
+  let best: { partitionOrder: number; parameters: number[]; bits: number } | null = null;
+  for (let partitionOrder = maxOrder; partitionOrder >= 0; partitionOrder--) {
+    if (partitionOrder < maxOrder) {
+      sums = Float64Array.from({ length: 1 << partitionOrder }, (_, i) => sums[2 * i] + sums[2 * i + 1]);
+    }
+    const size = blockSize >> partitionOrder;
+    const partitions = Array.from(sums, (sum, i) => estimate(sum, i === 0 ? size - order : size));
+    const parameters = partitions.map(partition => partition.parameter);
+    // RICE2 (5-bit parameters) only when a parameter needs it
+    const parameterBits = parameters.some(parameter => parameter > 14) ? 5 : 4;
+    const bits = partitions.reduce((total, partition) => total + parameterBits + partition.bits, 0);
+    if (!best || bits < best.bits) best = { partitionOrder, parameters, bits };
+  }
+
+  const { partitionOrder, parameters, bits } = best!;
+  const wide = parameters.some(parameter => parameter > 14);
+  return {
+    bits: 6 + bits,
+    write: (writer) => {
+      writeBits(writer, wide ? 1 : 0, 2);
+      writeBits(writer, partitionOrder, 4);
+      const size = blockSize >> partitionOrder;
+      parameters.forEach((parameter, partition) => {
+        writeBits(writer, parameter, wide ? 5 : 4);
+        for (let i = partition === 0 ? order : partition * size; i < (partition + 1) * size; i++) {
+          const value = zigzag(residual[i]);
+          writeUnary(writer, Math.floor(value / 2 ** parameter));
+          if (parameter > 0) writeBits(writer, value % 2 ** parameter, parameter);
+        }
+      });
+    },
+  };
+};
+
+const FIXED_PREDICTORS = [
+  [],
+  [1],
+  [2, -1],
+  [3, -3, 1],
+  [4, -6, 4, -1],
+];
+
+const predict = (samples: Int32Array, coefficients: number[], shift: number): Int32Array => {
+  const residual = new Int32Array(samples.length);
+  const order = coefficients.length;
+  const scale = 2 ** shift;
+  for (let i = order; i < samples.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < order; j++) sum += coefficients[j] * samples[i - 1 - j];
+    residual[i] = samples[i] - Math.floor(sum / scale);
+  }
+  return residual;
+};
+
+const writeWarmup = (writer: BitWriter, samples: Int32Array, order: number, bitsPerSample: number): void => {
+  for (let i = 0; i < order; i++) writeSigned(writer, samples[i], bitsPerSample);
+};
+
+/**
+ * Linear prediction coefficients for orders 1..maxOrder (Levinson-Durbin on
+ * the Tukey-windowed autocorrelation), with each order's prediction error
+ */
+const computeLpc = (samples: Int32Array, maxOrder: number): { coefficients: number[][]; errors: number[] } | null => {
+  const n = samples.length;
+  const windowed = new Float64Array(n);
+  const taper = Math.floor(n / 4);
+  for (let i = 0; i < n; i++) {
+    const edge = Math.min(i, n - 1 - i);
+    const weight = edge < taper ? 0.5 * (1 - Math.cos((Math.PI * edge) / taper)) : 1;
+    windowed[i] = samples[i] * weight;
+  }
+
+  const autocorrelation = new Float64Array(maxOrder + 1);
+  for (let lag = 0; lag <= maxOrder; lag++) {
+    let sum = 0;
+    for (let i = lag; i < n; i++) sum += windowed[i] * windowed[i - lag];
+    autocorrelation[lag] = sum;
+  }
+  if (autocorrelation[0] === 0) return null;
+
+  const coefficients: number[][] = [];
+  const errors: number[] = [];
+  let previous: number[] = [];
+  let error = autocorrelation[0];
+  for (let order = 1; order <= maxOrder; order++) {
+    let acc = autocorrelation[order];
+    for (let j = 0; j < order - 1; j++) acc -= previous[j] * autocorrelation[order - 1 - j];
+    const reflection = acc / error;
+    const current = previous.map((value, j) => value - reflection * previous[order - 2 - j]);
+    current.push(reflection);
+    error *= 1 - reflection * reflection;
+    if (!(error > 0)) break;
+    coefficients.push(current);
+    errors.push(error);
+    previous = current;
+  }
+  return { coefficients, errors };
+};
+
+/** Quantize coefficients to LPC_PRECISION bits, carrying each rounding error into the next */
+const quantizeLpc = (coefficients: number[]): { quantized: number[]; shift: number } | null => {
+  const max = Math.max(...coefficients.map(Math.abs));
+  if (!(max > 0)) return null;
+
+  const limit = 2 ** (LPC_PRECISION - 1);
+  const shift = Math.min(15, LPC_PRECISION - 1 - (Math.floor(Math.log2(max)) + 1));
+  if (shift < 0) return null;
+
+  let error = 0;
+  const quantized = coefficients.map(coefficient => {
+    error += coefficient * 2 ** shift;
+    const value = Math.max(-limit, Math.min(limit - 1, Math.round(error)));
+    error -= value;
+    return value;
+  });
+  return { quantized, shift };
+};
+
+/** The smallest subframe for one channel of a block */
+const planSubframe = (samples: Int32Array, bitsPerSample: number, level: CompressionLevel): Subframe => {
+  const n = samples.length;
+  if (samples.every(sample => sample === samples[0])) {
+    return {
+      bits: 8 + bitsPerSample,
+      write: (writer) => {
+        writeBits(writer, 0, 8);
+        writeSigned(writer, samples[0], bitsPerSample);
+      },
+    };
+  }
+
+  let best: Subframe = {
+    bits: 8 + n * bitsPerSample,
+    write: (writer) => {
+      writeBits(writer, 0b00000010, 8);
+      writeWarmup(writer, samples, n, bitsPerSample);
+    },
+  };
+
+  for (let order = 0; order < FIXED_PREDICTORS.length && order < n; order++) {
+    const residual = planResidual(predict(samples, FIXED_PREDICTORS[order], 0), order, level.partitionOrder);
+    const bits = 8 + order * bitsPerSample + residual.bits;
+    if (bits < best.bits) {
+      best = {
+        bits,
+        write: (writer) => {
+          writeBits(writer, (0b001000 | order) << 1, 8);
+          writeWarmup(writer, samples, order, bitsPerSample);
+          residual.write(writer);
+        },
+      };
+    }
+  }
+
+  const lpc = level.lpcOrder > 0 && n > level.lpcOrder ? computeLpc(samples, level.lpcOrder) : null;
+  if (lpc) {
+    // Estimated bits per residual sample shrink with the prediction error, while warm-up and coefficients grow
+    const estimate = (order: number) => 0.5 * Math.log2(Math.max(lpc.errors[order - 1] / n, 1)) * (n - order) + order * (bitsPerSample + LPC_PRECISION);
+    const orders = level.exhaustive
+      ? lpc.coefficients.map((_, i) => i + 1)
+      : [lpc.coefficients.reduce((bestOrder, _, i) => (estimate(i + 1) < estimate(bestOrder) ? i + 1 : bestOrder), 1)];
+
+    for (const order of orders) {
+      const quantized = quantizeLpc(lpc.coefficients[order - 1]);
+      if (!quantized) continue;
+      const residual = planResidual(predict(samples, quantized.quantized, quantized.shift), order, level.partitionOrder);
+      const bits = 8 + order * bitsPerSample + 4 + 5 + order * LPC_PRECISION + residual.bits;
+      if (bits < best.bits) {
+        best = {
+          bits,
+          write: (writer) => {
+            writeBits(writer, (0b100000 | (order - 1)) << 1, 8);
+            writeWarmup(writer, samples, order, bitsPerSample);
+            writeBits(writer, LPC_PRECISION - 1, 4);
+            writeSigned(writer, quantized.shift, 5);
+            quantized.quantized.forEach(coefficient => writeSigned(writer, coefficient, LPC_PRECISION));
+            residual.write(writer);
+          },
+        };
+      }
+    }
+  }
+
+  return best;
+};
+
+/** Frame number, UTF-8 style */
+const writeFrameNumber = (writer: BitWriter, value: number): void => {
+  if (value < 0x80) {
+    writeBits(writer, value, 8);
+    return;
+  }
+  let continuation = 1;
+  while (value >= 2 ** (5 * continuation + 6)) continuation++;
+  const lead = (0xff << (7 - continuation)) & 0xff;
+  writeBits(writer, lead | Math.floor(value / 2 ** (6 * continuation)), 8);
+  for (let i = continuation - 1; i >= 0; i--) {
+    writeBits(writer, 0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+};
+
+const toIntegers = (channel: Float32Array, bitDepth: FlacBitDepth): Int32Array => {
+  const negative = 2 ** (bitDepth - 1);
+  const positive = negative - 1;
+  return Int32Array.from(channel, value => {
+    const sample = Math.max(-1, Math.min(1, value));
+    return Math.round(sample < 0 ? sample * negative : sample * positive);
+  });
+};
+
+/**
+ * Encode planar float channels (-1..1) as FLAC, with an MD5 signature of the
+ * integer samples. Up to 8 channels.
+ */
+export const encodeFlac = (channels: Float32Array[], sampleRate: number, { bitDepth = 16, compression = 5, onProgress }: FlacOptions = {}): Blob => {
+  const numChannels = channels.length;
+  if (numChannels < 1 || numChannels > 8) {
+    throw new Error(`FLAC can't encode ${numChannels} channels`);
+  }
+
+  const level = LEVELS[Math.max(0, Math.min(LEVELS.length - 1, Math.round(compression)))];
+  const samples = channels.map(channel => toIntegers(channel, bitDepth));
+  const totalSamples = samples[0].length;
+  const bytesPerSample = bitDepth / 8;
+  const md5 = createMd5();
+  const frames: Uint8Array[] = [];
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+
+  const numFrames = Math.ceil(totalSamples / BLOCK_SIZE);
+  for (let frame = 0; frame < numFrames; frame++) {
+    const start = frame * BLOCK_SIZE;
+    const blockSize = Math.min(BLOCK_SIZE, totalSamples - start);
+    const block = samples.map(channel => channel.subarray(start, start + blockSize));
+
+    // MD5 input: interleaved little-endian samples
+    const interleaved = new Uint8Array(blockSize * numChannels * bytesPerSample);
+    const interleavedView = new DataView(interleaved.buffer);
+    for (let i = 0, offset = 0; i < blockSize; i++) {
+      for (let channel = 0; channel < numChannels; channel++, offset += bytesPerSample) {
+        const value = block[channel][i];
+        if (bitDepth === 16) {
+          interleavedView.setInt16(offset, value, true);
+        } else {
+          interleavedView.setUint16(offset, value & 0xffff, true);
+          interleavedView.setInt8(offset + 2, value >> 16);
+        }
+      }
+    }
+    md5.update(interleaved);
+
+    let assignment = numChannels - 1;
+    let subframes = block.map(channel => planSubframe(channel, bitDepth, level));
+    if (numChannels === 2 && level.stereo) {
+      const [left, right] = block;
+      const side = Int32Array.from(left, (value, i) => value - right[i]);
+      const mid = Int32Array.from(left, (value, i) => (value + right[i]) >> 1);
+      const sideFrame = planSubframe(side, bitDepth + 1, level);
+      const midFrame = planSubframe(mid, bitDepth, level);
+      const [leftFrame, rightFrame] = subframes;
+      const options: [number, Subframe[]][] = [
+        [assignment, subframes],
+        [LEFT_SIDE, [leftFrame, sideFrame]],
+        [RIGHT_SIDE, [sideFrame, rightFrame]],
+        [MID_SIDE, [midFrame, sideFrame]],
+      ];
+      const size = (frameSubframes: Subframe[]) => frameSubframes[0].bits + frameSubframes[1].bits;
+      [assignment, subframes] = options.reduce((best, option) => (size(option[1]) < size(best[1]) ? option : best));
+    }
+
+    const writer = createWriter(64 + (blockSize * numChannels * (bitDepth + 1)) / 8);
+    writeBits(writer, 0b11111111111110, 14);
+    writeBits(writer, 0, 2); // Reserved; fixed block size
+    writeBits(writer, blockSize === BLOCK_SIZE ? 12 : 7, 4); // 12: 4096, 7: 16-bit size at the end of the header
+    writeBits(writer, SAMPLE_RATE_CODES[sampleRate] ?? 0, 4);
+    writeBits(writer, assignment, 4);
+    writeBits(writer, bitDepth === 16 ? 0b100 : 0b110, 3);
+    writeBits(writer, 0, 1);
+    writeFrameNumber(writer, frame);
+    if (blockSize !== BLOCK_SIZE) writeBits(writer, blockSize - 1, 16);
+    writeBits(writer, crc8(writer.bytes, writer.position >> 3), 8);
+
+    subframes.forEach(subframe => subframe.write(writer));
+    writer.position = (writer.position + 7) & ~7;
+    writeBits(writer, crc16(writer.bytes, writer.position >> 3), 16);
+
+    const bytes = writer.bytes.slice(0, writer.position >> 3);
+    minFrameSize = Math.min(minFrameSize, bytes.length);
+    maxFrameSize = Math.max(maxFrameSize, bytes.length);
+    frames.push(bytes);
+
+    if (onProgress && frame % 16 === 0) onProgress(frame / numFrames);
+  }
+
+  // "fLaC" and the STREAMINFO block, the only (so last) metadata block
+  const header = createWriter(42);
+  'fLaC'.split('').forEach(char => writeBits(header, char.charCodeAt(0), 8));
+  writeBits(header, 1, 1);
+  writeBits(header, 0, 7);
+  writeBits(header, 34, 24);
+  const blockSize = Math.min(BLOCK_SIZE, Math.max(16, totalSamples));
+  writeBits(header, blockSize, 16);
+  writeBits(header, blockSize, 16);
+  writeBits(header, frames.length > 0 ? minFrameSize : 0, 24);
+  writeBits(header, maxFrameSize, 24);
+  writeBits(header, sampleRate, 20);
+  writeBits(header, numChannels - 1, 3);
+  writeBits(header, bitDepth - 1, 5);
+  writeBits(header, Math.floor(totalSamples / 2 ** 32), 4);
+  writeBits(header, totalSamples >>> 0, 32);
+  header.bytes.set(md5.digest(), header.position >> 3);
+
+  onProgress?.(1);
+  return new Blob([header.bytes, ...frames], { type: 'audio/flac' });
+};
@@ -0,0 +1,567 @@
+/**
+ * MP3 (MPEG-1/2 audio Layer III) encoding: the polyphase analysis filterbank,
+ * an 18-line MDCT per subband and a global-gain quantization loop feeding the
+ * standard Huffman codebooks. Long blocks only, no bit reservoir and no
+ * scalefactors, which keeps every frame self-contained.
+ */
+
+import {
+  ALIAS_COEFFICIENTS,
+  BIG_VALUE_TABLES,
+  COUNT1_TABLES,
+  MPEG1_BITRATES,
+  MPEG1_SAMPLE_RATES,
+  MPEG2_BITRATES,
+  MPEG2_SAMPLE_RATES,
+  REGION_SPLITS,
+  SCALEFACTOR_BANDS,
+  WINDOW_PROTOTYPE,
+  type HuffmanTable,
+} from '@/lib/encoders/mp3-tables';
+
+export type Mp3Mode = 'cbr' | 'vbr';
+
+export interface Mp3Options {
+  mode: Mp3Mode;
+  // kbps; for VBR the average the frame bitrates are steered towards
+  bitrate: number;
+  onProgress?: (fraction: number) => void;
+}
+
+export const MP3_SAMPLE_RATES = [...MPEG2_SAMPLE_RATES, 32000, 44100, 48000].sort((a, b) => a - b);
+
+/** Bitrates (kbps) an MP3 at this sample rate can use */
+export const getMp3Bitrates = (sampleRate: number): number[] => {
+  return (MPEG1_SAMPLE_RATES.includes(sampleRate) ? MPEG1_BITRATES : MPEG2_BITRATES).slice(1);
+};
+
+const GRANULE = 576;
+const SUBBANDS = 32;
+const LINES = 18;
+
+// Largest quantized value: 15 plus 13 linbits
+const MAX_QUANTIZED = 15 + 8191;
+// part2_3_length is a 12-bit field
+const MAX_GRANULE_BITS = 4095;
+
+// VBR quality (target signal-to-noise ratio per granule, dB) and how fast it follows the average bitrate
+const VBR_MIN_SNR = 3;
+const VBR_MAX_SNR = 60;
+const VBR_STEP_DB = 1.5;
+// Quantization noise below this (per spectral line, full scale = 1) is inaudible
+const NOISE_FLOOR = 1e-10;
+
+interface StreamLayout {
+  // 1 for MPEG-1, 0 for MPEG-2 (the header's ID bit)
+  id: number;
+  sampleRateIndex: number;
+  granules: number;
+  bitrates: number[];
+  sideInfoBytes: number;
+  bands: number[];
+  // Bytes per frame are slotFactor * bitrate / sampleRate
+  slotFactor: number;
+}
+
+interface GranuleCoding {
+  globalGain: number;
+  // Quantized magnitudes; signs are taken from the spectrum
+  values: Int32Array;
+  bigValues: number;
+  count1: number;
+  count1Table: number;
+  tables: number[];
+  region0Count: number;
+  region1Count: number;
+  // Region boundaries in spectral lines
+  regionEnds: number[];
+  bits: number;
+}
+
+interface BitWriter {
+  bytes: Uint8Array;
+  // In bits
+  position: number;
+}
+
+const writeBits = (writer: BitWriter, value: number, bits: number): void => {
+  for (let bit = bits - 1; bit >= 0; bit--) {
+    if ((value >>> bit) & 1) {
+      writer.bytes[writer.position >> 3] |= 0x80 >> (writer.position & 7);
+    }
+    writer.position++;
+  }
+};
+
+// Analysis window C[n] of the standard: the symmetric prototype with the sign
+// of every other 64-sample block flipped by the folded cosine modulation
+const ANALYSIS_WINDOW = Float64Array.from({ length: 512 }, (_, n) => {
+  const value = WINDOW_PROTOTYPE[n <= 256 ? n : 512 - n] / 2 ** 21;
+  return Math.floor(n / 64) % 2 === 0 ? value : -value;
+});
+
+const ANALYSIS_MATRIX = (() => {
+  const matrix = new Float64Array(SUBBANDS * 64);
+  for (let i = 0; i < SUBBANDS; i++) {
+    for (let k = 0; k < 64; k++) {
+      matrix[i * 64 + k] = Math.cos(((2 * i + 1) * (k - 16) * Math.PI) / 64);
+    }
+  }
+  return matrix;
+})();
+
+// Sine-windowed MDCT basis, scaled so the decoder's inverse restores the input
+const MDCT_BASIS = (() => {
+  const basis = new Float64Array(LINES * 36);
+  for (let k = 0; k < LINES; k++) {
+    for (let n = 0; n < 36; n++) {
+      const window = Math.sin((Math.PI / 36) * (n + 0.5));
+      basis[k * 36 + n] = (window * Math.cos((Math.PI / 72) * (2 * n + 19) * (2 * k + 1))) / 9;
+    }
+  }
+  return basis;
+})();
+
+const ALIAS_CS = ALIAS_COEFFICIENTS.map(c => 1 / Math.sqrt(1 + c * c));
+const ALIAS_CA = ALIAS_COEFFICIENTS.map(c => c / Math.sqrt(1 + c * c));
+
+// |value|^(4/3), as the decoder reconstructs it
+const POW_43 = Float64Array.from({ length: MAX_QUANTIZED + 1 }, (_, value) => value ** (4 / 3));
+
+const getLayout = (sampleRate: number, channels: number): StreamLayout => {
+  const mpeg1 = MPEG1_SAMPLE_RATES.indexOf(sampleRate);
+  const mpeg2 = MPEG2_SAMPLE_RATES.indexOf(sampleRate);
+  if (mpeg1 < 0 && mpeg2 < 0) {
+    throw new Error(`MP3 doesn't support a sample rate of ${sampleRate} Hz`);
+  }
+
+  const mono = channels === 1;
+  return mpeg1 >= 0
+    ? { id: 1, sampleRateIndex: mpeg1, granules: 2, bitrates: MPEG1_BITRATES, sideInfoBytes: mono ? 17 : 32, bands: SCALEFACTOR_BANDS[sampleRate], slotFactor: 144000 }
+    : { id: 0, sampleRateIndex: mpeg2, granules: 1, bitrates: MPEG2_BITRATES, sideInfoBytes: mono ? 9 : 17, bands: SCALEFACTOR_BANDS[sampleRate], slotFactor: 72000 };
+};
+
+/**
+ * Per-channel filterbank: 32 polyphase subbands of 18 samples per granule,
+ * each turned into 18 spectral lines by an MDCT overlapping the last granule
+ */
+const createFilterbank = () => {
+  const fifo = new Float64Array(512);
+  const folded = new Float64Array(64);
+  const previous = new Float64Array(GRANULE);
+  const current = new Float64Array(GRANULE);
+  const block = new Float64Array(36);
+
+  return (input: Float32Array, offset: number, spectrum: Float64Array): void => {
+    for (let slot = 0; slot < LINES; slot++) {
+      // Newest sample first
+      fifo.copyWithin(32, 0, 480);
+      for (let i = 0; i < 32; i++) {
+        const index = offset + slot * 32 + i;
+        fifo[31 - i] = index < input.length ? input[index] : 0;
+      }
+
+      for (let k = 0; k < 64; k++) {
+        let sum = 0;
+        for (let j = k; j < 512; j += 64) sum += ANALYSIS_WINDOW[j] * fifo[j];
+        folded[k] = sum;
+      }
+      for (let band = 0; band < SUBBANDS; band++) {
+        let sum = 0;
+        const row = band * 64;
+        for (let k = 0; k < 64; k++) sum += ANALYSIS_MATRIX[row + k] * folded[k];
+        // Odd subbands are frequency-inverted on odd time slots
+        current[band * LINES + slot] = band % 2 === 1 && slot % 2 === 1 ? -sum : sum;
+      }
+    }
+
+    for (let band = 0; band < SUBBANDS; band++) {
+      block.set(previous.subarray(band * LINES, (band + 1) * LINES), 0);
+      block.set(current.subarray(band * LINES, (band + 1) * LINES), LINES);
+      for (let k = 0; k < LINES; k++) {
+        let sum = 0;
+        const row = k * 36;
+        for (let n = 0; n < 36; n++) sum += MDCT_BASIS[row + n] * block[n];
+        spectrum[band * LINES + k] = sum;
+      }
+    }
+    previous.set(current);
+
+    // Alias reduction butterflies across each subband boundary
+    for (let band = 1; band < SUBBANDS; band++) {
+      for (let i = 0; i < 8; i++) {
+        const upper = band * LINES - 1 - i;
+        const lower = band * LINES + i;
+        const bu = spectrum[upper];
+        const bd = spectrum[lower];
+        spectrum[upper] = bu * ALIAS_CS[i] + bd * ALIAS_CA[i];
+        spectrum[lower] = bd * ALIAS_CS[i] - bu * ALIAS_CA[i];
+      }
+    }
+  };
+};
+
+const quantize = (magnitudes: Float64Array, gain: number, values: Int32Array): void => {
+  const scale = 2 ** (-0.1875 * (gain - 210));
+  for (let i = 0; i < GRANULE; i++) {
+    values[i] = Math.min(MAX_QUANTIZED, Math.floor(magnitudes[i] * scale + 0.4054));
+  }
+};
+
+/** Smallest global gain that keeps every quantized value codeable */
+const minimumGain = (magnitudes: Float64Array): number => {
+  let max = 0;
+  for (let i = 0; i < GRANULE; i++) max = Math.max(max, magnitudes[i]);
+  if (max === 0) return 0;
+  const gain = Math.ceil(210 + Math.log2(max / (MAX_QUANTIZED - 0.4054)) / 0.1875);
+  return Math.max(0, Math.min(255, gain));
+};
+
+const pairBits = (table: HuffmanTable, x: number, y: number): number => {
+  let bits = (x !== 0 ? 1 : 0) + (y !== 0 ? 1 : 0);
+  if (table.linbits > 0) {
+    if (x >= 15) bits += table.linbits;
+    if (y >= 15) bits += table.linbits;
+    return bits + table.lengths[Math.min(x, 15) * 16 + Math.min(y, 15)];
+  }
+  return bits + table.lengths[x * table.xlen + y];
+};
+
+// Tables worth trying for the largest value in a region
+const candidateTables = (max: number): number[] => {
+  if (max === 0) return [0];
+  if (max === 1) return [1];
+  if (max === 2) return [2, 3];
+  if (max === 3) return [5, 6];
+  if (max <= 5) return [7, 8, 9];
+  if (max <= 7) return [10, 11, 12];
+  if (max <= 15) return [13, 15];
+  const fits = (index: number) => (BIG_VALUE_TABLES[index]!.linbits >= 13 || max - 15 < 2 ** BIG_VALUE_TABLES[index]!.linbits);
+  const first = [16, 17, 18, 19, 20, 21, 22, 23].find(fits)!;
+  const second = [24, 25, 26, 27, 28, 29, 30, 31].find(fits)!;
+  return [first, second];
+};
+
+/** Cheapest table for the pairs in [start, end), and its cost in bits */
+const chooseTable = (values: Int32Array, start: number, end: number): { table: number; bits: number } => {
+  let max = 0;
+  for (let i = start; i < end; i++) max = Math.max(max, values[i]);
+
+  let best = { table: 0, bits: 0 };
+  for (const index of candidateTables(max)) {
+    const table = BIG_VALUE_TABLES[index];
+    if (!table) continue;
+    let bits = 0;
+    for (let i = start; i < end; i += 2) bits += pairBits(table, values[i], values[i + 1]);
+    if (best.table === 0 || bits < best.bits) best = { table: index, bits };
+  }
+  return best;
+};
+
+/** Split the spectrum into big values, count1 quadruples and zeros, and count the Huffman bits */
+const codeGranule = (values: Int32Array, bands: number[], globalGain: number): GranuleCoding => {
+  let end = GRANULE;
+  while (end > 1 && values[end - 1] === 0 && values[end - 2] === 0) end -= 2;
+
+  let count1 = 0;
+  while (end > 3 && values[end - 1] <= 1 && values[end - 2] <= 1 && values[end - 3] <= 1 && values[end - 4] <= 1) {
+    count1++;
+    end -= 4;
+  }
+  const bigValues = end / 2;
+
+  let region0Count = 0;
+  let region1Count = 0;
+  if (end > 0) {
+    let bandCount = 0;
+    while (bands[bandCount] < end) bandCount++;
+    [region0Count, region1Count] = REGION_SPLITS[bandCount];
+    while (region0Count > 0 && bands[region0Count + 1] > end) region0Count--;
+    while (region1Count > 0 && bands[region0Count + region1Count + 2] > end) region1Count--;
+  }
+  const regionEnds = [
+    Math.min(bands[region0Count + 1], end),
+    Math.min(bands[region0Count + region1Count + 2], end),
+    end,
+  ];
+
+  let bits = 0;
+  const tables: number[] = [];
+  let start = 0;
+  for (const regionEnd of regionEnds) {
+    const choice = regionEnd > start ? chooseTable(values, start, regionEnd) : { table: 0, bits: 0 };
+    tables.push(choice.table);
+    bits += choice.bits;
+    start = Math.max(start, regionEnd);
+  }
+
+  let bitsA = 0;
+  let bitsB = 0;
+  for (let i = end; i < end + count1 * 4; i += 4) {
+    const signs = values[i] + values[i + 1] + values[i + 2] + values[i + 3];
+    bitsA += COUNT1_TABLES[0].lengths[values[i] * 8 + values[i + 1] * 4 + values[i + 2] * 2 + values[i + 3]] + signs;
+    bitsB += 4 + signs;
+  }
+  const count1Table = bitsB < bitsA ? 1 : 0;
+  bits += Math.min(bitsA, bitsB);
+
+  return { globalGain, values, bigValues, count1, count1Table, tables, region0Count, region1Count, regionEnds, bits };
+};
+
+/** Finest quantization whose Huffman code fits in `budget` bits */
+const quantizeToBudget = (magnitudes: Float64Array, bands: number[], budget: number, lowestGain?: number): GranuleCoding => {
+  const values = new Int32Array(GRANULE);
+  const limit = Math.min(budget, MAX_GRANULE_BITS);
+  let low = Math.max(minimumGain(magnitudes), lowestGain ?? 0);
+  let high = 255;
+
+  // Bits fall as the gain rises: binary search for the lowest gain that fits
+  while (low < high) {
+    const gain = (low + high) >> 1;
+    quantize(magnitudes, gain, values);
+    if (codeGranule(values, bands, gain).bits <= limit) {
+      high = gain;
+    } else {
+      low = gain + 1;
+    }
+  }
+
+  quantize(magnitudes, low, values);
+  return codeGranule(values, bands, low);
+};
+
+const quantizationNoise = (spectrum: Float64Array, magnitudes: Float64Array, gain: number, values: Int32Array): number => {
+  quantize(magnitudes, gain, values);
+  const step = 2 ** ((gain - 210) / 4);
+  let noise = 0;
+  for (let i = 0; i < GRANULE; i++) {
+    const error = Math.abs(spectrum[i]) - POW_43[values[i]] * step;
+    noise += error * error;
+  }
+  return noise;
+};
+
+/** Coarsest quantization keeping the noise `snr` dB below the granule's energy */
+const quantizeToQuality = (spectrum: Float64Array, magnitudes: Float64Array, bands: number[], snr: number): GranuleCoding => {
+  let energy = 0;
+  for (let i = 0; i < GRANULE; i++) energy += spectrum[i] * spectrum[i];
+  const allowed = Math.max(energy * 10 ** (-snr / 10), NOISE_FLOOR * GRANULE);
+
+  const values = new Int32Array(GRANULE);
+  let low = minimumGain(magnitudes);
+  let high = 255;
+  // Noise grows with the gain: binary search for the highest gain within the allowance
+  while (low < high) {
+    const gain = (low + high + 1) >> 1;
+    if (quantizationNoise(spectrum, magnitudes, gain, values) <= allowed) {
+      low = gain;
+    } else {
+      high = gain - 1;
+    }
+  }
+
+  quantize(magnitudes, low, values);
+  const coding = codeGranule(values, bands, low);
+  return coding.bits <= MAX_GRANULE_BITS ? coding : quantizeToBudget(magnitudes, bands, MAX_GRANULE_BITS, low);
+};
+
+const writeHuffman = (writer: BitWriter, coding: GranuleCoding, spectrum: Float64Array): void => {
+  const { values } = coding;
+  const sign = (i: number) => (spectrum[i] < 0 ? 1 : 0);
+
+  let start = 0;
+  coding.regionEnds.forEach((end, region) => {
+    const table = BIG_VALUE_TABLES[coding.tables[region]];
+    for (let i = start; table && i < end; i += 2) {
+      const x = values[i];
+      const y = values[i + 1];
+      const index = table.linbits > 0 ? Math.min(x, 15) * 16 + Math.min(y, 15) : x * table.xlen + y;
+      writeBits(writer, table.codes[index], table.lengths[index]);
+      if (table.linbits > 0 && x >= 15) writeBits(writer, x - 15, table.linbits);
+      if (x !== 0) writeBits(writer, sign(i), 1);
+      if (table.linbits > 0 && y >= 15) writeBits(writer, y - 15, table.linbits);
+      if (y !== 0) writeBits(writer, sign(i + 1), 1);
+    }
+    start = Math.max(start, end);
+  });
+
+  const count1 = COUNT1_TABLES[coding.count1Table];
+  for (let i = coding.bigValues * 2; i < coding.bigValues * 2 + coding.count1 * 4; i += 4) {
+    const index = values[i] * 8 + values[i + 1] * 4 + values[i + 2] * 2 + values[i + 3];
+    writeBits(writer, count1.codes[index], count1.lengths[index]);
+    for (let j = i; j < i + 4; j++) {
+      if (values[j] !== 0) writeBits(writer, sign(j), 1);
+    }
+  }
+};
+
+const frameBytes = (layout: StreamLayout, bitrateIndex: number, sampleRate: number, padding: number): number => {
+  return Math.floor((layout.slotFactor * layout.bitrates[bitrateIndex]) / sampleRate) + padding;
+};
+
+const writeHeader = (writer: BitWriter, layout: StreamLayout, bitrateIndex: number, padding: number, channels: number): void => {
+  writeBits(writer, 0xfff, 12);
+  writeBits(writer, layout.id, 1);
+  writeBits(writer, 0b01, 2); // Layer III
+  writeBits(writer, 1, 1); // No CRC
+  writeBits(writer, bitrateIndex, 4);
+  writeBits(writer, layout.sampleRateIndex, 2);
+  writeBits(writer, padding, 1);
+  writeBits(writer, 0, 1);
+  writeBits(writer, channels === 1 ? 0b11 : 0b00, 2); // Mono or plain stereo
+  writeBits(writer, 0, 2);
+  writeBits(writer, 0, 1);
+  writeBits(writer, 1, 1); // Original
+  writeBits(writer, 0, 2);
+};
+
+const writeSideInfo = (writer: BitWriter, layout: StreamLayout, codings: GranuleCoding[][]): void => {
+  const channels = codings[0].length;
+  writeBits(writer, 0, layout.id ? 9 : 8); // main_data_begin: no bit reservoir
+  writeBits(writer, 0, layout.id ? (channels === 1 ? 5 : 3) : channels);
+  if (layout.id) writeBits(writer, 0, 4 * channels); // scfsi
+
+  for (const granule of codings) {
+    for (const coding of granule) {
+      writeBits(writer, coding.bits, 12);
+      writeBits(writer, coding.bigValues, 9);
+      writeBits(writer, coding.globalGain, 8);
+      writeBits(writer, 0, layout.id ? 4 : 9); // scalefac_compress: no scalefactors
+      writeBits(writer, 0, 1); // Long blocks
+      for (const table of coding.tables) writeBits(writer, table, 5);
+      writeBits(writer, coding.region0Count, 4);
+      writeBits(writer, coding.region1Count, 3);
+      if (layout.id) writeBits(writer, 0, 1); // preflag
+      writeBits(writer, 0, 1); // scalefac_scale
+      writeBits(writer, coding.count1Table, 1);
+    }
+  }
+};
+
+/**
+ * Xing header frame, so players can show the duration of a VBR stream and seek in it
+ */
+const createXingFrame = (layout: StreamLayout, sampleRate: number, channels: number, frameSizes: number[]): Uint8Array => {
+  const needed = 4 + layout.sideInfoBytes + 4 + 4 + 4 + 4 + 100;
+  let bitrateIndex = 1;
+  while (frameBytes(layout, bitrateIndex, sampleRate, 0) < needed) bitrateIndex++;
+
+  const size = frameBytes(layout, bitrateIndex, sampleRate, 0);
+  const writer: BitWriter = { bytes: new Uint8Array(size), position: 0 };
+  writeHeader(writer, layout, bitrateIndex, 0, channels);
+
+  const totalBytes = size + frameSizes.reduce((sum, bytes) => sum + bytes, 0);
+  const view = new DataView(writer.bytes.buffer);
+  let offset = 4 + layout.sideInfoBytes;
+  'Xing'.split('').forEach(char => view.setUint8(offset++, char.charCodeAt(0)));
+  view.setUint32(offset, 0x7, false); // Frames, bytes and table of contents
+  view.setUint32(offset + 4, frameSizes.length, false);
+  view.setUint32(offset + 8, totalBytes, false);
+  offset += 12;
+
+  // Byte position (out of 256) at each percent of the duration
+  let position = size;
+  let frame = 0;
+  for (let percent = 0; percent < 100; percent++) {
+    const target = Math.floor((percent / 100) * frameSizes.length);
+    while (frame < target) position += frameSizes[frame++];
+    view.setUint8(offset + percent, Math.min(255, Math.floor((position / totalBytes) * 256)));
+  }
+
+  return writer.bytes;
+};
+
+/**
+ * Encode planar float channels (-1..1) as MP3. Mono and stereo only; the
+ * sample rate must be one MP3 supports (see `MP3_SAMPLE_RATES`).
+ */
+export const encodeMp3 = (channels: Float32Array[], sampleRate: number, { mode, bitrate, onProgress }: Mp3Options): Blob => {
+  const numChannels = channels.length;
+  if (numChannels < 1 || numChannels > 2) {
+    throw new Error(`MP3 can't encode ${numChannels} channels`);
+  }
+
+  const layout = getLayout(sampleRate, numChannels);
+  const bitrateIndex = layout.bitrates.indexOf(bitrate);
+  if (bitrateIndex < 1) {
+    throw new Error(`MP3 at ${sampleRate} Hz doesn't support ${bitrate} kbps`);
+  }
+
+  const samplesPerFrame = GRANULE * layout.granules;
+  // Extra frames flush the filterbank delay
+  const numFrames = Math.ceil((channels[0].length + 2 * GRANULE) / samplesPerFrame);
+  const filterbanks = channels.map(() => createFilterbank());
+  const spectra = Array.from({ length: layout.granules }, () => channels.map(() => new Float64Array(GRANULE)));
+  const magnitudes = Array.from({ length: layout.granules }, () => channels.map(() => new Float64Array(GRANULE)));
+
+  const frames: Uint8Array[] = [];
+  const mainDataBytes = (index: number, padding: number) => frameBytes(layout, index, sampleRate, padding) - 4 - layout.sideInfoBytes;
+
+  // CBR: padding slots keep the average frame size exact
+  const remainder = (layout.slotFactor * bitrate) % sampleRate;
+  let slotDebt = 0;
+  // VBR: quality steered by the running bit surplus
+  const targetFrameBits = (bitrate * 1000 * samplesPerFrame) / sampleRate;
+  let snr = 12 + bitrate / (8 * numChannels);
+
+  for (let frame = 0; frame < numFrames; frame++) {
+    for (let granule = 0; granule < layout.granules; granule++) {
+      const offset = (frame * layout.granules + granule) * GRANULE;
+      channels.forEach((input, channel) => {
+        const spectrum = spectra[granule][channel];
+        filterbanks[channel](input, offset, spectrum);
+        for (let i = 0; i < GRANULE; i++) magnitudes[granule][channel][i] = Math.abs(spectrum[i]) ** 0.75;
+      });
+    }
+
+    // Share the frame's bits between granules and channels, passing on what each leaves unused
+    const allocate = (index: number, padding: number): GranuleCoding[][] => {
+      let available = mainDataBytes(index, padding) * 8;
+      let remaining = layout.granules * numChannels;
+      return spectra.map((granule, g) => granule.map((_, channel) => {
+        const coding = quantizeToBudget(magnitudes[g][channel], layout.bands, Math.floor(available / remaining));
+        available -= coding.bits;
+        remaining--;
+        return coding;
+      }));
+    };
+
+    let index = bitrateIndex;
+    let padding = 0;
+    let codings: GranuleCoding[][];
+    if (mode === 'cbr') {
+      slotDebt -= remainder;
+      if (slotDebt < 0) {
+        padding = 1;
+        slotDebt += sampleRate;
+      }
+      codings = allocate(index, padding);
+    } else {
+      codings = spectra.map((granule, g) => granule.map((spectrum, channel) => (
+        quantizeToQuality(spectrum, magnitudes[g][channel], layout.bands, snr)
+      )));
+      const bits = codings.flat().reduce((sum, coding) => sum + coding.bits, 0);
+      index = 1;
+      while (index < layout.bitrates.length - 1 && mainDataBytes(index, 0) * 8 < bits) index++;
+      if (mainDataBytes(index, 0) * 8 < bits) codings = allocate(index, 0);
+
+      const frameBits = frameBytes(layout, index, sampleRate, 0) * 8;
+      snr = Math.min(VBR_MAX_SNR, Math.max(VBR_MIN_SNR, snr + (VBR_STEP_DB * (targetFrameBits - frameBits)) / targetFrameBits));
+    }
+
+    const writer: BitWriter = { bytes: new Uint8Array(frameBytes(layout, index, sampleRate, padding)), position: 0 };
+    writeHeader(writer, layout, index, padding, numChannels);
+    writeSideInfo(writer, layout, codings);
+    codings.forEach((granule, g) => granule.forEach((coding, channel) => writeHuffman(writer, coding, spectra[g][channel])));
+    frames.push(writer.bytes);
+
+    if (onProgress && frame % 64 === 0) onProgress(frame / numFrames);
+  }
+
+  if (mode === 'vbr') {
+    frames.unshift(createXingFrame(layout, sampleRate, numChannels, frames.map(frame => frame.length)));
+  }
+  onProgress?.(1);
+
+  return new Blob(frames, { type: 'audio/mpeg' });
+};
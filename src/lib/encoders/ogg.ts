@@ -0,0 +1,85 @@
+/**
+ * Ogg container pages for a single logical stream
+ */
+
+export interface OggPacket {
+  data: Uint8Array;
+  // Codec-defined position after this packet (samples for Opus); -1 when none ends on its page
+  granulePosition: number;
+}
+
+// Packets per audio page, about a second of 20 ms Opus packets
+const PACKETS_PER_PAGE = 50;
+const MAX_SEGMENTS = 255;
+
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte << 24;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  return crc >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+};
+
+// Lacing values: 255 per full segment, then the remainder (0 when the packet is a multiple of 255)
+const lacing = (length: number): number[] => [...Array(Math.floor(length / 255)).fill(255), length % 255];
+
+const createPage = (packets: OggPacket[], serial: number, sequence: number, flags: number): Uint8Array => {
+  const segments = packets.flatMap(packet => lacing(packet.data.length));
+  const bodyLength = packets.reduce((total, packet) => total + packet.data.length, 0);
+  const page = new Uint8Array(27 + segments.length + bodyLength);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(5, flags);
+  const granulePosition = packets[packets.length - 1].granulePosition;
+  view.setUint32(6, granulePosition < 0 ? 0xffffffff : granulePosition >>> 0, true);
+  view.setUint32(10, granulePosition < 0 ? 0xffffffff : Math.floor(granulePosition / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, segments.length);
+  page.set(segments, 27);
+  let offset = 27 + segments.length;
+  for (const packet of packets) {
+    page.set(packet.data, offset);
+    offset += packet.data.length;
+  }
+  view.setUint32(22, crc32(page), true);
+  return page;
+};
+
+/**
+ * Mux packets into Ogg pages. Header packets each get their own page, as
+ * Opus and Vorbis require; audio packets are grouped whole, so each packet
+ * must fit a page (under 64 KB).
+ */
+export const writeOggStream = (headers: Uint8Array[], packets: OggPacket[]): Uint8Array[] => {
+  const serial = Math.floor(Math.random() * 2 ** 32);
+  const pages: Uint8Array[] = [];
+
+  headers.forEach((data, i) => {
+    // Beginning of stream on the first page; headers carry a zero granule position
+    pages.push(createPage([{ data, granulePosition: 0 }], serial, pages.length, i === 0 ? 0x02 : 0));
+  });
+
+  let start = 0;
+  while (start < packets.length) {
+    let end = start;
+    let segments = 0;
+    while (end < packets.length && end - start < PACKETS_PER_PAGE) {
+      const packetSegments = lacing(packets[end].data.length).length;
+      if (packetSegments > MAX_SEGMENTS) throw new Error('Ogg packet too large for one page');
+      if (segments + packetSegments > MAX_SEGMENTS) break;
+      segments += packetSegments;
+      end++;
+    }
+    const last = end === packets.length;
+    pages.push(createPage(packets.slice(start, end), serial, pages.length, last ? 0x04 : 0));
+    start = end;
+  }
+
+  return pages;
+};
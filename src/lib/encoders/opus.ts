@@ -0,0 +1,167 @@
+/**
+ * Ogg Opus encoding with the browser's WebCodecs AudioEncoder
+ */
+
+import { writeOggStream, type OggPacket } from '@/lib/encoders/ogg';
+
+export interface OpusOptions {
+  // kbps for the whole stream
+  bitrate: number;
+  bitrateMode: BitrateMode;
+  onProgress?: (fraction: number) => void;
+}
+
+export const OPUS_BITRATES = [16, 24, 32, 48, 64, 96, 128, 160, 192, 256];
+
+// Opus always decodes at 48 kHz; granule positions count samples at this rate
+export const OPUS_SAMPLE_RATE = 48000;
+
+// libopus's encoder delay at 48 kHz, used when the encoder doesn't report its own
+const DEFAULT_PRE_SKIP = 312;
+// Samples handed to the encoder per AudioData
+const CHUNK_FRAMES = 4800;
+const MAX_QUEUED_CHUNKS = 8;
+
+const VENDOR = 'VoiceGen';
+
+const getConfig = (numberOfChannels: number, sampleRate: number, { bitrate, bitrateMode }: Pick<OpusOptions, 'bitrate' | 'bitrateMode'>): AudioEncoderConfig => ({
+  codec: 'opus',
+  numberOfChannels,
+  sampleRate,
+  bitrate: bitrate * 1000,
+  bitrateMode,
+  opus: { frameDuration: 20000, complexity: 10 },
+});
+
+/** Whether this browser can encode Opus at all */
+export const isOpusSupported = async (numberOfChannels = 2, sampleRate = OPUS_SAMPLE_RATE): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported(getConfig(numberOfChannels, sampleRate, { bitrate: 64, bitrateMode: 'variable' }));
+    return supported === true;
+  } catch {
+    return false;
+  }
+};
+
+/** Samples at 48 kHz in an Opus packet, from its TOC byte (RFC 6716 §3.1) */
+const packetSamples = (packet: Uint8Array): number => {
+  if (packet.length === 0) return 0;
+  const config = packet[0] >> 3;
+  const frameSize = config < 12
+    ? [480, 960, 1920, 2880][config % 4]
+    : config < 16 ? [480, 960][config % 2] : [120, 240, 480, 960][config % 4];
+  const code = packet[0] & 3;
+  const frames = code === 0 ? 1 : code === 3 ? (packet[1] ?? 0) & 0x3f : 2;
+  return frames * frameSize;
+};
+
+const createOpusHead = (numberOfChannels: number, preSkip: number, sampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  view.setUint8(8, 1); // Version
+  view.setUint8(9, numberOfChannels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  view.setUint8(18, 0); // Mapping family: mono or stereo
+  return head;
+};
+
+const createOpusTags = (): Uint8Array => {
+  const vendor = new TextEncoder().encode(VENDOR);
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode('OpusTags'));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true); // No user comments
+  return tags;
+};
+
+/** The encoder's pre-skip, when its decoder config carries an OpusHead */
+const readPreSkip = (description: BufferSource | undefined): number | null => {
+  if (!description) return null;
+  const bytes = description instanceof ArrayBuffer
+    ? new Uint8Array(description)
+    : new Uint8Array(description.buffer, description.byteOffset, description.byteLength);
+  if (bytes.length < 19 || new TextDecoder().decode(bytes.subarray(0, 8)) !== 'OpusHead') return null;
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(10, true);
+};
+
+/**
+ * Encode planar float channels (one or two) as Ogg Opus. Needs WebCodecs,
+ * which is only available in secure contexts.
+ */
+export const encodeOpus = async (channels: Float32Array[], sampleRate: number, { bitrate, bitrateMode, onProgress }: OpusOptions): Promise<Blob> => {
+  const numberOfChannels = channels.length;
+  if (numberOfChannels < 1 || numberOfChannels > 2) {
+    throw new Error(`Opus export supports mono or stereo, not ${numberOfChannels} channels`);
+  }
+  if (!(await isOpusSupported(numberOfChannels, sampleRate))) {
+    throw new Error("This browser can't encode Opus; try Chrome, Edge or Safari, or choose another format");
+  }
+
+  const packets: Uint8Array[] = [];
+  let preSkip: number | null = null;
+  let failure: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push(data);
+      preSkip ??= readPreSkip(metadata?.decoderConfig?.description);
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure(getConfig(numberOfChannels, sampleRate, { bitrate, bitrateMode }));
+
+  const length = channels[0].length;
+  try {
+    for (let offset = 0; offset < length && !failure; offset += CHUNK_FRAMES) {
+      const frames = Math.min(CHUNK_FRAMES, length - offset);
+      const data = new Float32Array(frames * numberOfChannels);
+      channels.forEach((channel, i) => data.set(channel.subarray(offset, offset + frames), i * frames));
+      const audio = new AudioData({
+        format: 'f32-planar',
+        sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels,
+        timestamp: Math.round((offset * 1e6) / sampleRate),
+        data,
+      });
+      encoder.encode(audio);
+      audio.close();
+
+      // Keep memory bounded and progress honest by letting the encoder catch up
+      while (encoder.encodeQueueSize > MAX_QUEUED_CHUNKS) {
+        await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+      onProgress?.(offset / length);
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (failure) throw failure;
+
+  // Granule positions count decoded samples, including the pre-skip; the last is trimmed to the input's end
+  const skip = preSkip ?? DEFAULT_PRE_SKIP;
+  const end = skip + Math.round((length * OPUS_SAMPLE_RATE) / sampleRate);
+  let position = 0;
+  const oggPackets: OggPacket[] = packets.map(data => {
+    position += packetSamples(data);
+    return { data, granulePosition: position };
+  });
+  if (oggPackets.length > 0) {
+    const last = oggPackets[oggPackets.length - 1];
+    last.granulePosition = Math.min(last.granulePosition, end);
+  }
+
+  const pages = writeOggStream([createOpusHead(numberOfChannels, skip, sampleRate), createOpusTags()], oggPackets);
+  onProgress?.(1);
+  return new Blob(pages, { type: 'audio/ogg; codecs=opus' });
+};
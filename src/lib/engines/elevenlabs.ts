@@ -0,0 +1,215 @@
+/**
+ * ElevenLabs-compatible HTTP provider
+ */
+
+import type { EngineVoice, SpeechEngine, SynthesisRequest, SynthesisResult, VoiceSettings } from '@/lib/speech-engine';
+import { buildVoiceRequest, getAudioMetadata, type PronunciationDictionaryLocator } from '@/lib/audio-utils';
+import { providerErrorFromResponse } from '@/lib/engines/errors';
+import { linkAbortSignal, providerFetch, readResponseBlob } from '@/lib/engines/http';
+import { loadProviderSettings, normalizeBaseUrl, type ElevenLabsSettings } from '@/lib/provider-settings';
+import { applyLexicons, type Lexicon } from '@/lib/text/lexicon';
+
+const PROVIDER = 'ElevenLabs';
+
+// Premade ElevenLabs voices matching our voice names
+export const elevenLabsVoiceIds: Record<string, string> = {
+  rachel: '21m00Tcm4TlvDq8ikWAM',
+  domi: 'AZnzlk1XvdvUeBnXmlld',
+  bella: 'EXAVITQu4vr4xnSDxMaL',
+  antoni: 'ErXwobaYiN019PkySvjV',
+  elli: 'MF3mGyEYCl7XYWbV9V9Y',
+  josh: 'TxGEqnHWrfWFTfGW9XjX',
+  arnold: 'VR6AewLTigWG4xSOukaG',
+  adam: 'pNInz6obpgDQGcFmaJgB',
+  sam: 'yoZ06aMxZJJ28mfd3POQ',
+};
+
+/**
+ * Resolve our voice id to the provider's, honouring user overrides.
+ * Unknown ids are passed through so provider voice ids can be used directly.
+ */
+export const resolveElevenLabsVoiceId = (voice: string, overrides: Record<string, string> = {}): string => {
+  return overrides[voice] || elevenLabsVoiceIds[voice] || voice;
+};
+
+type PronunciationRule =
+  | { type: 'alias'; string_to_replace: string; alias: string }
+  | { type: 'phoneme'; string_to_replace: string; phoneme: string; alphabet: 'ipa' | 'cmu-arpabet' };
+
+/**
+ * Lexicons as one list of ElevenLabs rules; earlier lexicons win when
+ * spellings collide. ElevenLabs has no X-SAMPA, so those entries only keep their alias.
+ */
+export const toPronunciationRules = (lexicons: Lexicon[]): PronunciationRule[] => {
+  const rules = new Map<string, PronunciationRule>();
+  for (const lexicon of lexicons) {
+    for (const entry of lexicon.entries) {
+      for (const grapheme of entry.graphemes) {
+        if (rules.has(grapheme)) continue;
+        if (entry.phoneme && (lexicon.alphabet === 'ipa' || lexicon.alphabet === 'cmu-arpabet')) {
+          rules.set(grapheme, { type: 'phoneme', string_to_replace: grapheme, phoneme: entry.phoneme, alphabet: lexicon.alphabet });
+        } else if (entry.alias) {
+          rules.set(grapheme, { type: 'alias', string_to_replace: grapheme, alias: entry.alias });
+        }
+      }
+    }
+  }
+  return Array.from(rules.values());
+};
+
+// Only these models accept a language code; others reject the request
+const LANGUAGE_CODE_MODELS = /(?:turbo|flash)_v2_5/;
+
+// Uploaded dictionaries by server and rules, so each lexicon version is uploaded once per session
+const uploadedDictionaries = new Map<string, Promise<PronunciationDictionaryLocator>>();
+
+const uploadDictionary = (
+  config: ElevenLabsSettings,
+  rules: PronunciationRule[],
+  name: string,
+  signal: AbortSignal
+): Promise<PronunciationDictionaryLocator> => {
+  const baseUrl = normalizeBaseUrl(config.baseUrl);
+  const key = JSON.stringify([baseUrl, rules]);
+  const existing = uploadedDictionaries.get(key);
+  if (existing) return existing;
+
+  const upload = (async () => {
+    const response = await providerFetch(PROVIDER, `${baseUrl}/v1/pronunciation-dictionaries/add-from-rules`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'xi-api-key': config.apiKey,
+      },
+      body: JSON.stringify({ name, rules }),
+      signal,
+    });
+    if (!response.ok) {
+      throw await providerErrorFromResponse(PROVIDER, response);
+    }
+    const { id, version_id } = await response.json() as { id: string; version_id: string };
+    return { id, versionId: version_id };
+  })();
+
+  uploadedDictionaries.set(key, upload);
+  // A failed upload is tried again with the next request
+  upload.catch(() => uploadedDictionaries.delete(key));
+  return upload;
+};
+
+export const createElevenLabsEngine = (): SpeechEngine => {
+  const controllers = new Set<AbortController>();
+
+  const synthesize = async ({ text, settings, lexicons = [], lang, previousText, nextText, signal, onProgress }: SynthesisRequest): Promise<SynthesisResult> => {
+    const config = loadProviderSettings().elevenlabs;
+
+    const controller = new AbortController();
+    controllers.add(controller);
+    const unlinkSignal = linkAbortSignal(controller, signal);
+
+    try {
+      const rules = toPronunciationRules(lexicons);
+      let input = text;
+      let dictionaries: PronunciationDictionaryLocator[] = [];
+      if (rules.length > 0) {
+        try {
+          dictionaries = [await uploadDictionary(config, rules, lexicons.map(lexicon => lexicon.name).join(' + '), controller.signal)];
+        } catch (error) {
+          if (controller.signal.aborted) throw error;
+          // Still speak, reading aliases the way engines without lexicon support do
+          console.warn('Pronunciation dictionary upload failed; applying aliases to the text instead:', error);
+          input = applyLexicons(text, lexicons);
+        }
+      }
+
+      // The voice travels in the URL path, not the body
+      const { voice, ...payload } = buildVoiceRequest(input, settings, config.modelId, {
+        previousText,
+        nextText,
+        dictionaries,
+        languageCode: LANGUAGE_CODE_MODELS.test(config.modelId) ? lang : undefined,
+      });
+      const voiceId = resolveElevenLabsVoiceId(voice, config.voiceIds);
+
+      const response = await providerFetch(
+        PROVIDER,
+        `${normalizeBaseUrl(config.baseUrl)}/v1/text-to-speech/${encodeURIComponent(voiceId)}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'audio/mpeg',
+            'xi-api-key': config.apiKey,
+          },
+          body: JSON.stringify(payload),
+          signal: controller.signal,
+        }
+      );
+
+      if (!response.ok) {
+        throw await providerErrorFromResponse(PROVIDER, response);
+      }
+
+      const audio = await readResponseBlob(response, onProgress && (fraction => onProgress({ fraction })));
+      const metadata = await getAudioMetadata(audio);
+      return {
+        audio,
+        duration: metadata.duration,
+        voiceName: voiceId,
+      };
+    } finally {
+      unlinkSignal();
+      controllers.delete(controller);
+    }
+  };
+
+  const listVoices = async (): Promise<EngineVoice[]> => {
+    const config = loadProviderSettings().elevenlabs;
+    const response = await providerFetch(PROVIDER, `${normalizeBaseUrl(config.baseUrl)}/v1/voices`, {
+      headers: { 'xi-api-key': config.apiKey },
+    });
+    if (!response.ok) {
+      throw await providerErrorFromResponse(PROVIDER, response);
+    }
+
+    const { voices = [] } = await response.json() as {
+      voices?: { voice_id: string; name: string; labels?: { gender?: string } }[];
+    };
+    return voices.map(voice => ({
+      id: voice.voice_id,
+      name: voice.name,
+      gender: voice.labels?.gender === 'male' || voice.labels?.gender === 'female'
+        ? voice.labels.gender
+        : undefined,
+    }));
+  };
+
+  const cancel = () => {
+    controllers.forEach(controller => controller.abort());
+    controllers.clear();
+  };
+
+  const cacheVariant = (settings: VoiceSettings): string => {
+    const config = loadProviderSettings().elevenlabs;
+    const voiceId = resolveElevenLabsVoiceId(settings.voice, config.voiceIds);
+    return [normalizeBaseUrl(config.baseUrl), config.modelId, voiceId].join('|');
+  };
+
+  return {
+    id: 'elevenlabs',
+    name: 'ElevenLabs',
+    capabilities: {
+      producesAudio: true,
+      lexicons: true,
+      maxChars: 5000,
+    },
+    isAvailable: () => {
+      const config = loadProviderSettings().elevenlabs;
+      return typeof fetch !== 'undefined' && !!config.baseUrl && !!config.apiKey;
+    },
+    listVoices,
+    synthesize,
+    cancel,
+    cacheVariant,
+  };
+};
@@ -0,0 +1,115 @@
+/**
+ * Typed errors raised by HTTP speech providers
+ */
+
+export class ProviderError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(provider: string, message: string, status?: number, retryable: boolean = false) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * 401 - missing or invalid API key
+ */
+export class ProviderAuthError extends ProviderError {
+  constructor(provider: string, message: string = 'Invalid or missing API key') {
+    super(provider, message, 401, false);
+    this.name = 'ProviderAuthError';
+  }
+}
+
+/**
+ * 422 - the provider rejected the request payload
+ */
+export class ProviderValidationError extends ProviderError {
+  readonly details: string[];
+
+  constructor(provider: string, details: string[]) {
+    super(provider, `Request rejected: ${details.join('; ') || 'invalid payload'}`, 422, false);
+    this.name = 'ProviderValidationError';
+    this.details = details;
+  }
+}
+
+/**
+ * 429 - too many requests or quota exhausted
+ */
+export class ProviderRateLimitError extends ProviderError {
+  // Seconds to wait before retrying, when the provider says so
+  readonly retryAfter?: number;
+
+  constructor(provider: string, retryAfter?: number) {
+    super(
+      provider,
+      retryAfter ? `Rate limited, retry in ${retryAfter}s` : 'Rate limited, please retry later',
+      429,
+      true
+    );
+    this.name = 'ProviderRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Pull human-readable messages out of a JSON error body
+ * (FastAPI-style `detail` arrays, `{ detail: { message } }` or `{ error: { message } }`)
+ */
+const extractErrorDetails = (body: unknown): string[] => {
+  if (!body || typeof body !== 'object') return [];
+
+  const { detail, error } = body as { detail?: unknown; error?: unknown };
+  if (Array.isArray(detail)) {
+    return detail.map(item => {
+      const { loc, msg } = (item || {}) as { loc?: unknown[]; msg?: string };
+      return loc ? `${loc.join('.')}: ${msg}` : String(msg ?? item);
+    });
+  }
+  if (typeof detail === 'string') return [detail];
+  if (detail && typeof detail === 'object' && 'message' in detail) {
+    return [String((detail as { message: unknown }).message)];
+  }
+  if (error && typeof error === 'object' && 'message' in error) {
+    return [String((error as { message: unknown }).message)];
+  }
+  if (typeof error === 'string') return [error];
+  return [];
+};
+
+/**
+ * Map a failed HTTP response to the matching typed error
+ */
+export const providerErrorFromResponse = async (provider: string, response: Response): Promise<ProviderError> => {
+  let body: unknown = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Non-JSON error body
+  }
+  const details = extractErrorDetails(body);
+
+  switch (response.status) {
+    case 401:
+      return new ProviderAuthError(provider, details[0]);
+    case 422:
+      return new ProviderValidationError(provider, details);
+    case 429: {
+      const retryAfter = Number(response.headers.get('retry-after'));
+      return new ProviderRateLimitError(provider, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined);
+    }
+    default:
+      return new ProviderError(
+        provider,
+        details[0] || `Request failed with status ${response.status}`,
+        response.status,
+        response.status >= 500
+      );
+  }
+};
@@ -0,0 +1,61 @@
+/**
+ * Shared fetch helper for HTTP speech providers
+ */
+
+import { ProviderError } from '@/lib/engines/errors';
+
+/**
+ * Wrap fetch so network failures surface as retryable provider errors
+ */
+export const providerFetch = async (provider: string, url: string, init: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw error;
+    }
+    throw new ProviderError(provider, `Could not reach ${url}`, undefined, true);
+  }
+};
+
+/**
+ * Abort `controller` when the caller's signal aborts; returns a cleanup function
+ */
+export const linkAbortSignal = (controller: AbortController, signal?: AbortSignal): (() => void) => {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    controller.abort();
+    return () => {};
+  }
+
+  const abort = () => controller.abort();
+  signal.addEventListener('abort', abort, { once: true });
+  return () => signal.removeEventListener('abort', abort);
+};
+
+/**
+ * Read a response body as a Blob, reporting download progress when the
+ * server sends a Content-Length
+ */
+export const readResponseBlob = async (
+  response: Response,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  const total = Number(response.headers.get('Content-Length'));
+  if (!onProgress || !response.body || !total) {
+    return response.blob();
+  }
+
+  const reader = response.body.getReader();
+  const parts: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+    received += value.byteLength;
+    onProgress(Math.min(1, received / total));
+  }
+
+  return new Blob(parts, { type: response.headers.get('Content-Type') || '' });
+};
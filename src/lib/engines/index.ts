@@ -0,0 +1,20 @@
+/**
+ * Built-in speech engines, registered on import
+ */
+
+import { registerEngine, setDefaultEngine } from '@/lib/speech-engine';
+import { createWebSpeechEngine } from '@/lib/engines/web-speech';
+import { createOfflineEngine } from '@/lib/engines/offline';
+import { createElevenLabsEngine } from '@/lib/engines/elevenlabs';
+import { createOpenAIEngine } from '@/lib/engines/openai';
+
+registerEngine(createWebSpeechEngine());
+registerEngine(createOfflineEngine());
+registerEngine(createElevenLabsEngine());
+registerEngine(createOpenAIEngine());
+
+// The offline engine produces real audio files, so prefer it
+setDefaultEngine('offline');
+
+export * from '@/lib/speech-engine';
+export * from '@/lib/engines/errors';
@@ -0,0 +1,123 @@
+/**
+ * Offline engine: bundled formant synthesizer running in a Web Worker
+ */
+
+import type { EngineVoice, SpeechEngine, SynthesisRequest, SynthesisResult } from '@/lib/speech-engine';
+import { encodeWav } from '@/lib/encoders/wav';
+import { voiceProfiles } from '@/lib/engines/offline/synthesizer';
+import type { OfflineSynthesisRequest, OfflineSynthesisResponse } from '@/lib/engines/offline/worker';
+
+// Silence returned when a chunk has nothing pronounceable ("...", an emoji), so its audio still decodes (seconds)
+const EMPTY_OUTPUT_SILENCE = 0.1;
+
+interface PendingRequest {
+  onProgress?: (fraction: number) => void;
+  resolve: (response: { samples: Float32Array; sampleRate: number }) => void;
+  reject: (error: Error) => void;
+}
+
+export const createOfflineEngine = (): SpeechEngine => {
+  let worker: Worker | null = null;
+  let nextRequestId = 0;
+  const pending = new Map<number, PendingRequest>();
+
+  const getWorker = (): Worker => {
+    if (worker) return worker;
+
+    worker = new Worker(new URL('./worker.ts', import.meta.url));
+    worker.addEventListener('message', (event: MessageEvent<OfflineSynthesisResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+
+      if ('progress' in event.data) {
+        request.onProgress?.(event.data.progress);
+        return;
+      }
+
+      pending.delete(event.data.id);
+      if ('error' in event.data) {
+        request.reject(new Error(`Offline synthesis failed: ${event.data.error}`));
+      } else {
+        request.resolve(event.data);
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      const error = new Error(`Offline synthesis worker crashed: ${event.message}`);
+      pending.forEach(request => request.reject(error));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    });
+
+    return worker;
+  };
+
+  const synthesize = async ({ text, settings, signal, onProgress }: SynthesisRequest): Promise<SynthesisResult> => {
+    signal?.throwIfAborted();
+
+    const id = nextRequestId++;
+    const { samples, sampleRate } = await new Promise<{ samples: Float32Array; sampleRate: number }>((resolve, reject) => {
+      // The worker keeps rendering an aborted request; its result is simply dropped
+      const abort = () => {
+        pending.delete(id);
+        reject(new DOMException('Speech synthesis cancelled', 'AbortError'));
+      };
+      signal?.addEventListener('abort', abort, { once: true });
+
+      pending.set(id, {
+        onProgress: onProgress && (fraction => onProgress({ fraction })),
+        resolve: (response) => {
+          signal?.removeEventListener('abort', abort);
+          resolve(response);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', abort);
+          reject(error);
+        },
+      });
+      const message: OfflineSynthesisRequest = { id, text, settings };
+      getWorker().postMessage(message);
+    });
+
+    const rendered = samples.length > 0 ? samples : new Float32Array(Math.round(EMPTY_OUTPUT_SILENCE * sampleRate));
+    return {
+      audio: encodeWav([rendered], sampleRate),
+      duration: rendered.length / sampleRate,
+      voiceName: settings.voice,
+    };
+  };
+
+  const listVoices = async (): Promise<EngineVoice[]> => {
+    return Object.entries(voiceProfiles).map(([id, profile]) => ({
+      id,
+      name: id.charAt(0).toUpperCase() + id.slice(1),
+      lang: 'en-US',
+      gender: profile.baseF0 > 160 ? 'female' : 'male',
+    }));
+  };
+
+  // The synthesizer can't be interrupted mid-render, so cancelling restarts the worker
+  const cancel = () => {
+    if (!worker) return;
+
+    worker.terminate();
+    worker = null;
+    const error = new Error('Speech synthesis cancelled');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  };
+
+  return {
+    id: 'offline',
+    name: 'Offline (built-in)',
+    capabilities: {
+      producesAudio: true,
+      // One worker renders requests one after another
+      maxConcurrency: 1,
+    },
+    isAvailable: () => typeof Worker !== 'undefined',
+    listVoices,
+    synthesize,
+    cancel,
+  };
+};
@@ -0,0 +1,581 @@
+/**
+ * English letter-to-sound rules (after the NRL rule set by Elovitz et al., 1976)
+ *
+ * Each rule is [left context, match, right context, phonemes]. Rules for a
+ * letter are tried in order and the first whose contexts match wins.
+ * Context symbols:
+ *   ' '  word boundary          '#'  one or more vowels
+ *   '.'  one voiced consonant   '^'  one consonant
+ *   '+'  one of E, I, Y         ':'  zero or more consonants
+ *   '%'  suffix (E, ER, ES, ED, ING, ELY), right context only
+ * An empty context matches anything.
+ */
+
+type Rule = [string, string, string, string];
+
+const rules: Record<string, Rule[]> = {
+  A: [
+    ['', 'A', ' ', 'AX'],
+    [' ', 'ARE', ' ', 'AA R'],
+    [' ', 'AR', 'O', 'AX R'],
+    ['', 'AR', '#', 'EH R'],
+    ['^', 'AS', '#', 'EY S'],
+    ['', 'A', 'WA', 'AX'],
+    ['', 'AW', '', 'AO'],
+    [' :', 'ANY', '', 'EH N IY'],
+    ['', 'A', '^+#', 'EY'],
+    ['#:', 'ALLY', '', 'AX L IY'],
+    [' ', 'AL', '#', 'AX L'],
+    ['', 'AGAIN', '', 'AX G EH N'],
+    ['#:', 'AG', 'E', 'IH JH'],
+    ['', 'A', '^+:#', 'AE'],
+    [' :', 'A', '^+ ', 'EY'],
+    ['', 'A', '^%', 'EY'],
+    [' ', 'ARR', '', 'AX R'],
+    ['', 'ARR', '', 'AE R'],
+    [' :', 'AR', ' ', 'AA R'],
+    ['', 'AR', ' ', 'ER'],
+    ['', 'AR', '', 'AA R'],
+    ['', 'AIR', '', 'EH R'],
+    ['', 'AI', '', 'EY'],
+    ['', 'AY', '', 'EY'],
+    ['', 'AU', '', 'AO'],
+    ['#:', 'AL', ' ', 'AX L'],
+    ['#:', 'ALS', ' ', 'AX L Z'],
+    ['', 'ALK', '', 'AO K'],
+    ['', 'AL', '^', 'AO L'],
+    [' :', 'ABLE', '', 'EY B AX L'],
+    ['', 'ABLE', '', 'AX B AX L'],
+    ['', 'ANG', '+', 'EY N JH'],
+    ['', 'A', '', 'AE'],
+  ],
+  B: [
+    [' ', 'BE', '^#', 'B IH'],
+    ['', 'BEING', '', 'B IY IH NG'],
+    [' ', 'BOTH', ' ', 'B OW TH'],
+    [' ', 'BUS', '#', 'B IH Z'],
+    ['', 'BUIL', '', 'B IH L'],
+    ['', 'BB', '', 'B'],
+    ['', 'B', '', 'B'],
+  ],
+  C: [
+    [' ', 'CH', '^', 'K'],
+    ['^E', 'CH', '', 'K'],
+    ['', 'CH', '', 'CH'],
+    [' S', 'CI', '#', 'S AY'],
+    ['', 'CI', 'A', 'SH'],
+    ['', 'CI', 'O', 'SH'],
+    ['', 'CI', 'EN', 'SH'],
+    ['', 'C', '+', 'S'],
+    ['', 'CK', '', 'K'],
+    ['', 'COM', '%', 'K AH M'],
+    ['', 'CC', '+', 'K S'],
+    ['', 'CC', '', 'K'],
+    ['', 'C', '', 'K'],
+  ],
+  D: [
+    ['#:', 'DED', ' ', 'D IH D'],
+    ['.E', 'D', ' ', 'D'],
+    ['#:^E', 'D', ' ', 'T'],
+    [' ', 'DE', '^#', 'D IH'],
+    [' ', 'DO', ' ', 'D UW'],
+    [' ', 'DOES', '', 'D AH Z'],
+    [' ', 'DOING', '', 'D UW IH NG'],
+    [' ', 'DOW', '', 'D AW'],
+    ['', 'DU', 'A', 'JH UW'],
+    ['', 'DD', '', 'D'],
+    ['', 'D', '', 'D'],
+  ],
+  E: [
+    ['#:', 'E', ' ', ''],
+    [' :', 'E', ' ', 'IY'],
+    ['#', 'ED', ' ', 'D'],
+    ['#:', 'E', 'D ', ''],
+    ['', 'EV', 'ER', 'EH V'],
+    ['', 'E', '^%', 'IY'],
+    ['', 'ERI', '#', 'IY R IY'],
+    ['', 'ERI', '', 'EH R IH'],
+    ['#:', 'ER', '#', 'ER'],
+    ['', 'ER', '#', 'EH R'],
+    ['', 'ER', '', 'ER'],
+    [' ', 'EVEN', '', 'IY V EH N'],
+    ['#:', 'E', 'W', ''],
+    ['T', 'EW', '', 'UW'],
+    ['S', 'EW', '', 'UW'],
+    ['R', 'EW', '', 'UW'],
+    ['D', 'EW', '', 'UW'],
+    ['L', 'EW', '', 'UW'],
+    ['Z', 'EW', '', 'UW'],
+    ['N', 'EW', '', 'UW'],
+    ['J', 'EW', '', 'UW'],
+    ['TH', 'EW', '', 'UW'],
+    ['CH', 'EW', '', 'UW'],
+    ['SH', 'EW', '', 'UW'],
+    ['', 'EW', '', 'Y UW'],
+    ['', 'E', 'O', 'IY'],
+    ['#:S', 'ES', ' ', 'IH Z'],
+    ['#:C', 'ES', ' ', 'IH Z'],
+    ['#:G', 'ES', ' ', 'IH Z'],
+    ['#:Z', 'ES', ' ', 'IH Z'],
+    ['#:X', 'ES', ' ', 'IH Z'],
+    ['#:J', 'ES', ' ', 'IH Z'],
+    ['#:CH', 'ES', ' ', 'IH Z'],
+    ['#:SH', 'ES', ' ', 'IH Z'],
+    ['#:', 'E', 'S ', ''],
+    ['#:', 'ELY', ' ', 'L IY'],
+    ['#:', 'EMENT', '', 'M EH N T'],
+    ['', 'EFUL', '', 'F UH L'],
+    ['', 'EE', '', 'IY'],
+    ['', 'EARN', '', 'ER N'],
+    [' ', 'EAR', '^', 'ER'],
+    ['', 'EAD', '', 'EH D'],
+    ['#:', 'EA', ' ', 'IY AX'],
+    ['', 'EA', 'SU', 'EH'],
+    ['', 'EA', '', 'IY'],
+    ['', 'EIGH', '', 'EY'],
+    ['', 'EI', '', 'IY'],
+    [' ', 'EYE', '', 'AY'],
+    ['', 'EY', '', 'IY'],
+    ['', 'EU', '', 'Y UW'],
+    ['', 'E', '', 'EH'],
+  ],
+  F: [
+    ['', 'FUL', '', 'F UH L'],
+    ['', 'FF', '', 'F'],
+    ['', 'F', '', 'F'],
+  ],
+  G: [
+    ['', 'GIV', '', 'G IH V'],
+    [' ', 'G', 'I^', 'G'],
+    ['', 'GE', 'T', 'G EH'],
+    ['SU', 'GGES', '', 'G JH EH S'],
+    ['', 'GG', '', 'G'],
+    [' B#', 'G', '', 'G'],
+    ['', 'G', '+', 'JH'],
+    ['', 'GREAT', '', 'G R EY T'],
+    ['#', 'GH', '', ''],
+    ['', 'G', '', 'G'],
+  ],
+  H: [
+    [' ', 'HAV', '', 'HH AE V'],
+    [' ', 'HERE', '', 'HH IY R'],
+    [' ', 'HOUR', '', 'AW ER'],
+    ['', 'HOW', '', 'HH AW'],
+    ['', 'H', '#', 'HH'],
+    ['', 'H', '', ''],
+  ],
+  I: [
+    [' ', 'IN', '', 'IH N'],
+    [' ', 'I', ' ', 'AY'],
+    ['', 'IN', 'D', 'AY N'],
+    ['', 'IER', '', 'IY ER'],
+    ['#:R', 'IED', '', 'IY D'],
+    ['', 'IED', ' ', 'AY D'],
+    ['', 'IEN', '', 'IY EH N'],
+    ['', 'IE', 'T', 'AY EH'],
+    [' :', 'I', '%', 'AY'],
+    ['', 'I', '%', 'IY'],
+    ['', 'IE', '', 'IY'],
+    ['', 'I', '^+:#', 'IH'],
+    ['', 'IR', '#', 'AY R'],
+    ['', 'IZ', '%', 'AY Z'],
+    ['', 'IS', '%', 'AY Z'],
+    ['', 'I', 'D%', 'AY'],
+    ['+^', 'I', '^+', 'IH'],
+    ['', 'I', 'T%', 'AY'],
+    ['#:^', 'I', '^+', 'IH'],
+    ['', 'I', '^+', 'AY'],
+    ['', 'IR', '', 'ER'],
+    ['', 'IGH', '', 'AY'],
+    ['', 'ILD', '', 'AY L D'],
+    ['', 'IGN', ' ', 'AY N'],
+    ['', 'IGN', '^', 'AY N'],
+    ['', 'IGN', '%', 'AY N'],
+    ['', 'IQUE', '', 'IY K'],
+    ['', 'I', '', 'IH'],
+  ],
+  J: [
+    ['', 'J', '', 'JH'],
+  ],
+  K: [
+    [' ', 'K', 'N', ''],
+    ['', 'K', '', 'K'],
+  ],
+  L: [
+    ['', 'LO', 'C#', 'L OW'],
+    ['L', 'L', '', ''],
+    ['#:^', 'L', '%', 'AX L'],
+    ['', 'LEAD', '', 'L IY D'],
+    ['', 'L', '', 'L'],
+  ],
+  M: [
+    ['', 'MOV', '', 'M UW V'],
+    ['', 'MM', '', 'M'],
+    ['', 'M', '', 'M'],
+  ],
+  N: [
+    ['E', 'NG', '+', 'N JH'],
+    ['', 'NG', 'R', 'NG G'],
+    ['', 'NG', '#', 'NG G'],
+    ['', 'NGL', '%', 'NG G AX L'],
+    ['', 'NG', '', 'NG'],
+    ['', 'NK', '', 'NG K'],
+    [' ', 'NOW', ' ', 'N AW'],
+    ['', 'NN', '', 'N'],
+    ['', 'N', '', 'N'],
+  ],
+  O: [
+    ['', 'OF', ' ', 'AX V'],
+    ['', 'OROUGH', '', 'ER OW'],
+    ['#:', 'OR', ' ', 'ER'],
+    ['#:', 'ORS', ' ', 'ER Z'],
+    ['', 'OR', '', 'AO R'],
+    [' ', 'ONE', '', 'W AH N'],
+    ['', 'OW', '', 'OW'],
+    [' ', 'OVER', '', 'OW V ER'],
+    ['', 'OV', '', 'AH V'],
+    ['', 'O', '^%', 'OW'],
+    ['', 'O', '^EN', 'OW'],
+    ['', 'O', '^I#', 'OW'],
+    ['', 'OL', 'D', 'OW L'],
+    ['', 'OUGHT', '', 'AO T'],
+    ['', 'OUGH', '', 'AH F'],
+    [' ', 'OU', '', 'AW'],
+    ['H', 'OU', 'S#', 'AW'],
+    ['', 'OUS', '', 'AX S'],
+    ['', 'OUR', '', 'AO R'],
+    ['', 'OULD', '', 'UH D'],
+    ['^', 'OU', '^L', 'AH'],
+    ['', 'OUP', '', 'UW P'],
+    ['', 'OU', '', 'AW'],
+    ['', 'OY', '', 'OY'],
+    ['', 'OING', '', 'OW IH NG'],
+    ['', 'OI', '', 'OY'],
+    ['', 'OOR', '', 'AO R'],
+    ['', 'OOK', '', 'UH K'],
+    ['', 'OOD', '', 'UH D'],
+    ['', 'OO', '', 'UW'],
+    ['', 'O', 'E', 'OW'],
+    ['', 'O', ' ', 'OW'],
+    ['', 'OA', '', 'OW'],
+    [' ', 'ONLY', '', 'OW N L IY'],
+    [' ', 'ONCE', '', 'W AH N S'],
+    ['', "ON'T", '', 'OW N T'],
+    ['C', 'O', 'N', 'AA'],
+    ['', 'O', 'NG', 'AO'],
+    [' :^', 'O', 'N', 'AH'],
+    ['I', 'ON', '', 'AX N'],
+    ['#:', 'ON', ' ', 'AX N'],
+    ['#^', 'ON', '', 'AX N'],
+    ['', 'O', 'ST ', 'OW'],
+    ['', 'OF', '^', 'AO F'],
+    ['', 'OTHER', '', 'AH DH ER'],
+    ['', 'OSS', ' ', 'AO S'],
+    ['#:^', 'OM', '', 'AH M'],
+    ['', 'O', '', 'AA'],
+  ],
+  P: [
+    ['', 'PH', '', 'F'],
+    ['', 'PEOP', '', 'P IY P'],
+    ['', 'POW', '', 'P AW'],
+    ['', 'PUT', ' ', 'P UH T'],
+    ['', 'PP', '', 'P'],
+    ['', 'P', '', 'P'],
+  ],
+  Q: [
+    ['', 'QUAR', '', 'K W AO R'],
+    ['', 'QU', '', 'K W'],
+    ['', 'Q', '', 'K'],
+  ],
+  R: [
+    [' ', 'RE', '^#', 'R IY'],
+    ['', 'RR', '', 'R'],
+    ['', 'R', '', 'R'],
+  ],
+  S: [
+    ['', 'SH', '', 'SH'],
+    ['#', 'SION', '', 'ZH AX N'],
+    ['', 'SOME', '', 'S AH M'],
+    ['#', 'SUR', '#', 'ZH ER'],
+    ['', 'SUR', '#', 'SH ER'],
+    ['#', 'SU', '#', 'ZH UW'],
+    ['#', 'SSU', '#', 'SH UW'],
+    ['#', 'SED', ' ', 'Z D'],
+    ['#', 'S', '#', 'Z'],
+    ['', 'SAID', '', 'S EH D'],
+    ['^', 'SION', '', 'SH AX N'],
+    ['', 'S', 'S', ''],
+    ['.', 'S', ' ', 'Z'],
+    ['#:.E', 'S', ' ', 'Z'],
+    ['#:^##', 'S', ' ', 'Z'],
+    ['#:^#', 'S', ' ', 'S'],
+    ['U', 'S', ' ', 'S'],
+    [' :#', 'S', ' ', 'Z'],
+    [' ', 'SCH', '', 'S K'],
+    ['', 'S', 'C+', ''],
+    ['#', 'SM', '', 'Z M'],
+    ['', 'S', '', 'S'],
+  ],
+  T: [
+    [' ', 'THE', ' ', 'DH AX'],
+    ['', 'TO', ' ', 'T UW'],
+    ['', 'THAT', ' ', 'DH AE T'],
+    [' ', 'THIS', ' ', 'DH IH S'],
+    [' ', 'THEY', '', 'DH EY'],
+    [' ', 'THERE', '', 'DH EH R'],
+    ['', 'THER', '', 'DH ER'],
+    ['', 'THEIR', '', 'DH EH R'],
+    [' ', 'THAN', ' ', 'DH AE N'],
+    [' ', 'THEM', ' ', 'DH EH M'],
+    ['', 'THESE', ' ', 'DH IY Z'],
+    [' ', 'THEN', '', 'DH EH N'],
+    ['', 'THROUGH', '', 'TH R UW'],
+    ['', 'THOSE', '', 'DH OW Z'],
+    ['', 'THOUGH', ' ', 'DH OW'],
+    [' ', 'THUS', '', 'DH AH S'],
+    ['', 'TH', '', 'TH'],
+    ['#:', 'TED', ' ', 'T IH D'],
+    ['S', 'TI', '#N', 'CH'],
+    ['', 'TI', 'O', 'SH'],
+    ['', 'TI', 'A', 'SH'],
+    ['', 'TIEN', '', 'SH AX N'],
+    ['', 'TUR', '#', 'CH ER'],
+    ['', 'TU', 'A', 'CH UW'],
+    [' ', 'TWO', '', 'T UW'],
+    ['', 'TT', '', 'T'],
+    ['', 'T', '', 'T'],
+  ],
+  U: [
+    [' ', 'UN', 'I', 'Y UW N'],
+    [' ', 'UN', '', 'AH N'],
+    [' ', 'UPON', '', 'AX P AO N'],
+    ['T', 'UR', '#', 'UH R'],
+    ['S', 'UR', '#', 'UH R'],
+    ['R', 'UR', '#', 'UH R'],
+    ['D', 'UR', '#', 'UH R'],
+    ['L', 'UR', '#', 'UH R'],
+    ['Z', 'UR', '#', 'UH R'],
+    ['N', 'UR', '#', 'UH R'],
+    ['J', 'UR', '#', 'UH R'],
+    ['TH', 'UR', '#', 'UH R'],
+    ['CH', 'UR', '#', 'UH R'],
+    ['SH', 'UR', '#', 'UH R'],
+    ['', 'UR', '#', 'Y UH R'],
+    ['', 'UR', '', 'ER'],
+    ['', 'U', '^ ', 'AH'],
+    ['', 'U', '^^', 'AH'],
+    ['', 'UY', '', 'AY'],
+    [' G', 'U', '#', ''],
+    ['G', 'U', '%', ''],
+    ['G', 'U', '#', 'W'],
+    ['#N', 'U', '', 'Y UW'],
+    ['T', 'U', '', 'UW'],
+    ['S', 'U', '', 'UW'],
+    ['R', 'U', '', 'UW'],
+    ['D', 'U', '', 'UW'],
+    ['L', 'U', '', 'UW'],
+    ['Z', 'U', '', 'UW'],
+    ['N', 'U', '', 'UW'],
+    ['J', 'U', '', 'UW'],
+    ['TH', 'U', '', 'UW'],
+    ['CH', 'U', '', 'UW'],
+    ['SH', 'U', '', 'UW'],
+    ['', 'U', '', 'Y UW'],
+  ],
+  V: [
+    ['', 'VIEW', '', 'V Y UW'],
+    ['', 'V', '', 'V'],
+  ],
+  W: [
+    [' ', 'WERE', '', 'W ER'],
+    ['', 'WA', 'S', 'W AA'],
+    ['', 'WA', 'T', 'W AA'],
+    ['', 'WHERE', '', 'W EH R'],
+    ['', 'WHAT', '', 'W AA T'],
+    ['', 'WHOL', '', 'HH OW L'],
+    ['', 'WHO', '', 'HH UW'],
+    ['', 'WH', '', 'W'],
+    ['', 'WAR', '', 'W AO R'],
+    ['', 'WOR', '^', 'W ER'],
+    ['', 'WR', '', 'R'],
+    ['', 'W', '', 'W'],
+  ],
+  X: [
+    ['', 'X', '', 'K S'],
+  ],
+  Y: [
+    ['', 'YOUNG', '', 'Y AH NG'],
+    [' ', 'YOU', '', 'Y UW'],
+    [' ', 'YES', '', 'Y EH S'],
+    [' ', 'Y', '', 'Y'],
+    ['#:^', 'Y', ' ', 'IY'],
+    ['#:^', 'Y', 'I', 'IY'],
+    [' :', 'Y', ' ', 'AY'],
+    [' :', 'Y', '#', 'AY'],
+    [' :', 'Y', '^+:#', 'IH'],
+    [' :', 'Y', '^#', 'AY'],
+    ['', 'Y', '', 'IH'],
+  ],
+  Z: [
+    ['', 'ZZ', '', 'Z'],
+    ['', 'Z', '', 'Z'],
+  ],
+};
+
+// Names used when a word has no vowels and is read letter by letter
+const letterNames: Record<string, string> = {
+  A: 'EY', B: 'B IY', C: 'S IY', D: 'D IY', E: 'IY', F: 'EH F', G: 'JH IY',
+  H: 'EY CH', I: 'AY', J: 'JH EY', K: 'K EY', L: 'EH L', M: 'EH M',
+  N: 'EH N', O: 'OW', P: 'P IY', Q: 'K Y UW', R: 'AA R', S: 'EH S',
+  T: 'T IY', U: 'Y UW', V: 'V IY', W: 'D AH B AX L Y UW', X: 'EH K S',
+  Y: 'W AY', Z: 'Z IY',
+};
+
+const VOWELS = 'AEIOUY';
+const VOICED = 'BDVGJLMNRWZ';
+const FRONT = 'EIY';
+
+const isLetter = (char: string | undefined): boolean => {
+  return !!char && char >= 'A' && char <= 'Z';
+};
+
+const isVowel = (char: string | undefined): boolean => {
+  return !!char && VOWELS.includes(char);
+};
+
+const isConsonant = (char: string | undefined): boolean => {
+  return isLetter(char) && !isVowel(char);
+};
+
+/**
+ * Match a left context pattern, reading both pattern and word right-to-left
+ */
+const matchLeft = (pattern: string, word: string, end: number): boolean => {
+  let pos = end;
+  for (let i = pattern.length - 1; i >= 0; i--) {
+    const symbol = pattern[i];
+    switch (symbol) {
+      case ' ':
+        if (isLetter(word[pos])) return false;
+        pos--;
+        break;
+      case '#':
+        if (!isVowel(word[pos])) return false;
+        while (isVowel(word[pos])) pos--;
+        break;
+      case '.':
+        if (!word[pos] || !VOICED.includes(word[pos])) return false;
+        pos--;
+        break;
+      case '^':
+        if (!isConsonant(word[pos])) return false;
+        pos--;
+        break;
+      case '+':
+        if (!word[pos] || !FRONT.includes(word[pos])) return false;
+        pos--;
+        break;
+      case ':':
+        while (isConsonant(word[pos])) pos--;
+        break;
+      default:
+        if (word[pos] !== symbol) return false;
+        pos--;
+    }
+  }
+  return true;
+};
+
+/**
+ * Match a right context pattern, reading left-to-right
+ */
+const matchRight = (pattern: string, word: string, start: number): boolean => {
+  let pos = start;
+  for (let i = 0; i < pattern.length; i++) {
+    const symbol = pattern[i];
+    switch (symbol) {
+      case ' ':
+        if (isLetter(word[pos])) return false;
+        pos++;
+        break;
+      case '#':
+        if (!isVowel(word[pos])) return false;
+        while (isVowel(word[pos])) pos++;
+        break;
+      case '.':
+        if (!word[pos] || !VOICED.includes(word[pos])) return false;
+        pos++;
+        break;
+      case '^':
+        if (!isConsonant(word[pos])) return false;
+        pos++;
+        break;
+      case '+':
+        if (!word[pos] || !FRONT.includes(word[pos])) return false;
+        pos++;
+        break;
+      case ':':
+        while (isConsonant(word[pos])) pos++;
+        break;
+      case '%': {
+        const rest = word.slice(pos);
+        const suffix = ['ING', 'ELY', 'ER', 'ES', 'ED', 'E'].find(s => rest.startsWith(s));
+        if (!suffix) return false;
+        pos += suffix.length;
+        break;
+      }
+      default:
+        if (word[pos] !== symbol) return false;
+        pos++;
+    }
+  }
+  return true;
+};
+
+/**
+ * Convert a single word to a list of ARPAbet phonemes
+ */
+export const wordToPhonemes = (word: string): string[] => {
+  const upper = word.toUpperCase().replace(/[^A-Z']/g, '');
+  if (!upper) return [];
+
+  // Vowel-less words (acronyms like "TV", "NHS") are spelled out
+  if (!/[AEIOUY]/.test(upper)) {
+    return upper
+      .split('')
+      .filter(isLetter)
+      .flatMap(letter => letterNames[letter].split(' '));
+  }
+
+  // Pad with boundaries so ' ' contexts match at the word edges
+  const padded = ` ${upper} `;
+  const phonemes: string[] = [];
+  let index = 1;
+
+  while (index < padded.length - 1) {
+    const letter = padded[index];
+    const letterRules = rules[letter];
+    if (!letterRules) {
+      index++;
+      continue;
+    }
+
+    const rule = letterRules.find(([left, match, right]) =>
+      padded.startsWith(match, index) &&
+      matchLeft(left, padded, index - 1) &&
+      matchRight(right, padded, index + match.length)
+    );
+
+    if (!rule) {
+      index++;
+      continue;
+    }
+
+    if (rule[3]) {
+      phonemes.push(...rule[3].split(' '));
+    }
+    index += rule[1].length;
+  }
+
+  return phonemes;
+};
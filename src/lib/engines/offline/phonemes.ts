@@ -0,0 +1,135 @@
+/**
+ * Phoneme inventory for the formant synthesizer (values after Klatt, 1980)
+ */
+
+export type PhonemeKind =
+  | 'vowel'
+  | 'diphthong'
+  | 'approximant'
+  | 'nasal'
+  | 'fricative'
+  | 'plosive'
+  | 'affricate'
+  | 'aspirate';
+
+export interface Phoneme {
+  kind: PhonemeKind;
+  // Inherent duration in milliseconds at normal speed
+  duration: number;
+  // Formant frequencies (Hz); diphthongs glide from these to `glide`
+  formants: [number, number, number];
+  bandwidths: [number, number, number];
+  glide?: [number, number, number];
+  voiced: boolean;
+  // Frication noise: centre frequency, bandwidth and level (0..1)
+  frication?: { frequency: number; bandwidth: number; level: number };
+}
+
+const vowel = (
+  duration: number,
+  formants: [number, number, number],
+  glide?: [number, number, number]
+): Phoneme => ({
+  kind: glide ? 'diphthong' : 'vowel',
+  duration,
+  formants,
+  bandwidths: [60, 90, 150],
+  glide,
+  voiced: true,
+});
+
+const sonorant = (
+  kind: 'approximant' | 'nasal',
+  duration: number,
+  formants: [number, number, number]
+): Phoneme => ({
+  kind,
+  duration,
+  formants,
+  bandwidths: kind === 'nasal' ? [100, 200, 300] : [80, 120, 200],
+  voiced: true,
+});
+
+const obstruent = (
+  kind: 'fricative' | 'plosive' | 'affricate',
+  duration: number,
+  voiced: boolean,
+  formants: [number, number, number],
+  frequency: number,
+  bandwidth: number,
+  level: number
+): Phoneme => ({
+  kind,
+  duration,
+  formants,
+  bandwidths: [200, 250, 300],
+  voiced,
+  frication: { frequency, bandwidth, level },
+});
+
+export const phonemes: Record<string, Phoneme> = {
+  // Monophthongs
+  IY: vowel(140, [310, 2020, 2960]),
+  IH: vowel(90, [400, 1800, 2570]),
+  EH: vowel(110, [530, 1680, 2500]),
+  AE: vowel(150, [620, 1660, 2430]),
+  AA: vowel(150, [700, 1220, 2600]),
+  AO: vowel(150, [600, 990, 2570]),
+  UH: vowel(100, [450, 1100, 2350]),
+  UW: vowel(140, [350, 1250, 2200]),
+  AH: vowel(100, [620, 1220, 2550]),
+  ER: vowel(150, [470, 1270, 1540]),
+  AX: vowel(60, [500, 1400, 2300]),
+
+  // Diphthongs
+  EY: vowel(160, [480, 1720, 2520], [330, 2200, 2600]),
+  AY: vowel(180, [660, 1200, 2550], [400, 1880, 2500]),
+  OY: vowel(200, [550, 960, 2400], [360, 1820, 2450]),
+  AW: vowel(200, [640, 1230, 2550], [420, 940, 2350]),
+  OW: vowel(160, [540, 1100, 2300], [450, 900, 2300]),
+
+  // Sonorant consonants
+  M: sonorant('nasal', 70, [480, 1270, 2130]),
+  N: sonorant('nasal', 60, [480, 1340, 2470]),
+  NG: sonorant('nasal', 80, [480, 2000, 2900]),
+  L: sonorant('approximant', 70, [330, 1060, 2530]),
+  R: sonorant('approximant', 70, [310, 1060, 1380]),
+  W: sonorant('approximant', 60, [290, 610, 2150]),
+  Y: sonorant('approximant', 60, [260, 2070, 3020]),
+
+  // Fricatives
+  F: obstruent('fricative', 100, false, [340, 1100, 2080], 6000, 4000, 0.25),
+  V: obstruent('fricative', 60, true, [220, 1100, 2080], 6000, 4000, 0.15),
+  TH: obstruent('fricative', 90, false, [320, 1290, 2540], 5000, 3000, 0.2),
+  DH: obstruent('fricative', 50, true, [270, 1290, 2540], 5000, 3000, 0.12),
+  S: obstruent('fricative', 110, false, [320, 1390, 2530], 6500, 1500, 0.7),
+  Z: obstruent('fricative', 80, true, [240, 1390, 2530], 6500, 1500, 0.45),
+  SH: obstruent('fricative', 110, false, [300, 1840, 2750], 3000, 1200, 0.7),
+  ZH: obstruent('fricative', 80, true, [300, 1840, 2750], 3000, 1200, 0.45),
+
+  // Plosives: closure followed by a release burst at the given frequency
+  P: obstruent('plosive', 90, false, [400, 1100, 2150], 1000, 2000, 0.5),
+  B: obstruent('plosive', 80, true, [200, 1100, 2150], 1000, 2000, 0.3),
+  T: obstruent('plosive', 80, false, [400, 1600, 2600], 4500, 2500, 0.6),
+  D: obstruent('plosive', 70, true, [200, 1600, 2600], 4500, 2500, 0.4),
+  K: obstruent('plosive', 90, false, [300, 1990, 2850], 2200, 1200, 0.6),
+  G: obstruent('plosive', 80, true, [200, 1990, 2850], 2200, 1200, 0.4),
+
+  // Affricates: closure released into frication
+  CH: obstruent('affricate', 110, false, [350, 1800, 2820], 3000, 1200, 0.7),
+  JH: obstruent('affricate', 90, true, [260, 1800, 2820], 3000, 1200, 0.45),
+
+  // Aspiration takes its formants from the following sound
+  HH: {
+    kind: 'aspirate',
+    duration: 60,
+    formants: [500, 1500, 2500],
+    bandwidths: [300, 300, 300],
+    voiced: false,
+  },
+};
+
+export const isVowelPhoneme = (symbol: string): boolean => {
+  const phoneme = phonemes[symbol];
+  return !!phoneme && (phoneme.kind === 'vowel' || phoneme.kind === 'diphthong');
+};
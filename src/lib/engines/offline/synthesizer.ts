@@ -0,0 +1,534 @@
+/**
+ * Rule-based formant synthesizer: text -> phonemes -> prosody -> PCM samples
+ */
+
+import type { VoiceSettings } from '@/lib/speech-engine';
+import { wordToPhonemes } from '@/lib/engines/offline/letter-to-sound';
+import { isVowelPhoneme, phonemes, type Phoneme } from '@/lib/engines/offline/phonemes';
+
+export const SAMPLE_RATE = 22050;
+
+const FRAME_MS = 5;
+// Report render progress about once per second of output
+const PROGRESS_FRAMES = 200;
+
+export interface VoiceProfile {
+  baseF0: number;
+  formantScale: number;
+  breathiness: number;
+}
+
+// Each of our voices gets its own pitch, vocal tract length and breathiness
+export const voiceProfiles: Record<string, VoiceProfile> = {
+  rachel: { baseF0: 205, formantScale: 1.15, breathiness: 0.08 },
+  domi: { baseF0: 190, formantScale: 1.12, breathiness: 0.04 },
+  bella: { baseF0: 220, formantScale: 1.17, breathiness: 0.15 },
+  elli: { baseF0: 235, formantScale: 1.2, breathiness: 0.1 },
+  antoni: { baseF0: 100, formantScale: 0.97, breathiness: 0.05 },
+  josh: { baseF0: 120, formantScale: 1.0, breathiness: 0.06 },
+  arnold: { baseF0: 92, formantScale: 0.94, breathiness: 0.03 },
+  adam: { baseF0: 110, formantScale: 1.0, breathiness: 0.04 },
+  sam: { baseF0: 128, formantScale: 1.02, breathiness: 0.08 },
+};
+
+const functionWords = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'by',
+  'for', 'with', 'from', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'it',
+  'its', 'that', 'this', 'he', 'she', 'we', 'you', 'they', 'i', 'my', 'your',
+  'our', 'their', 'his', 'her', 'has', 'have', 'had', 'do', 'does', 'not',
+  'can', 'will', 'would', 'could', 'should', 'if', 'so', 'than', 'then',
+]);
+
+const ones = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen',
+  'seventeen', 'eighteen', 'nineteen',
+];
+const tens = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const numberToWords = (value: number): string => {
+  if (value < 20) return ones[value];
+  if (value < 100) {
+    return tens[Math.floor(value / 10)] + (value % 10 ? ` ${ones[value % 10]}` : '');
+  }
+  if (value < 1000) {
+    const rest = value % 100;
+    return `${ones[Math.floor(value / 100)]} hundred${rest ? ` ${numberToWords(rest)}` : ''}`;
+  }
+  const scales: [number, string][] = [[1e9, 'billion'], [1e6, 'million'], [1e3, 'thousand']];
+  for (const [scale, name] of scales) {
+    if (value >= scale) {
+      const rest = value % scale;
+      return `${numberToWords(Math.floor(value / scale))} ${name}${rest ? ` ${numberToWords(rest)}` : ''}`;
+    }
+  }
+  return String(value);
+};
+
+interface Phone {
+  symbol: string;
+  duration: number;
+  // Pitch multipliers relative to the voice's base F0 at phone start/end
+  pitchStart: number;
+  pitchEnd: number;
+}
+
+interface Word {
+  phonemes: string[];
+  stressed: boolean;
+}
+
+interface Phrase {
+  words: Word[];
+  terminator: string;
+}
+
+const pauseAfter: Record<string, number> = {
+  ',': 180,
+  ';': 280,
+  ':': 280,
+  '.': 420,
+  '!': 420,
+  '?': 420,
+  '\n': 600,
+};
+
+/**
+ * Split text into phrases of words, ending at punctuation or line breaks
+ */
+const parsePhrases = (text: string): Phrase[] => {
+  const phrases: Phrase[] = [];
+  let words: Word[] = [];
+
+  const tokens = text.match(/[A-Za-z']+|\d+|\n\s*\n|[,;:.!?]/g) || [];
+  for (const token of tokens) {
+    if (/^[,;:.!?]$/.test(token) || token.startsWith('\n')) {
+      if (words.length > 0) {
+        phrases.push({ words, terminator: token.startsWith('\n') ? '\n' : token });
+        words = [];
+      }
+      continue;
+    }
+
+    const spoken = /^\d+$/.test(token)
+      ? (token.length > 9 ? token.split('').map(d => ones[Number(d)]).join(' ') : numberToWords(Number(token)))
+      : token;
+
+    for (const part of spoken.split(' ')) {
+      const symbols = wordToPhonemes(part);
+      if (symbols.length > 0) {
+        words.push({ phonemes: symbols, stressed: !functionWords.has(part.toLowerCase()) });
+      }
+    }
+  }
+
+  if (words.length > 0) {
+    phrases.push({ words, terminator: '.' });
+  }
+  return phrases;
+};
+
+/**
+ * Assign durations and a pitch contour to every phoneme
+ */
+const applyProsody = (phrases: Phrase[], speed: number, expressiveness: number): Phone[] => {
+  const phones: Phone[] = [];
+  const rate = Math.max(0.5, Math.min(2.0, speed || 1.0));
+
+  for (const phrase of phrases) {
+    const totalPhonemes = phrase.words.reduce((sum, word) => sum + word.phonemes.length, 0);
+    let position = 0;
+
+    phrase.words.forEach((word, wordIndex) => {
+      const isLastWord = wordIndex === phrase.words.length - 1;
+      const lastVowel = word.phonemes.reduce((last, symbol, i) => isVowelPhoneme(symbol) ? i : last, -1);
+      let stressPlaced = false;
+
+      word.phonemes.forEach((symbol, i) => {
+        const phoneme = phonemes[symbol];
+        if (!phoneme) return;
+
+        // Declination: pitch drifts down across the phrase
+        const start = position / totalPhonemes;
+        const end = (position + 1) / totalPhonemes;
+        let pitchStart = 1.1 - 0.2 * start;
+        let pitchEnd = 1.1 - 0.2 * end;
+        let duration = phoneme.duration;
+
+        if (isVowelPhoneme(symbol)) {
+          if (word.stressed && !stressPlaced) {
+            // Pitch accent on the first vowel of content words
+            const accent = 1 + 0.12 * expressiveness;
+            pitchStart *= accent;
+            pitchEnd *= 1 + 0.06 * expressiveness;
+            duration *= 1.2;
+            stressPlaced = true;
+          } else {
+            duration *= word.stressed ? 0.85 : 0.7;
+          }
+
+          if (isLastWord && i === lastVowel) {
+            // Phrase-final lengthening and boundary tone
+            duration *= 1.4;
+            if (phrase.terminator === '?') {
+              pitchEnd = 1.35;
+            } else if (phrase.terminator === ',' || phrase.terminator === ';') {
+              pitchEnd = 1.02;
+            } else {
+              pitchEnd = 0.75;
+            }
+          }
+        }
+
+        phones.push({ symbol, duration: duration / rate, pitchStart, pitchEnd });
+        position++;
+      });
+    });
+
+    const pause = pauseAfter[phrase.terminator] || 0;
+    if (pause > 0) {
+      phones.push({ symbol: '_', duration: pause / rate, pitchStart: 0.8, pitchEnd: 0.8 });
+    }
+  }
+
+  return phones;
+};
+
+interface Frame {
+  formants: [number, number, number];
+  bandwidths: [number, number, number];
+  voicing: number;
+  aspiration: number;
+  frication: number;
+  fricationFrequency: number;
+  fricationBandwidth: number;
+  pitch: number;
+}
+
+const silentFrame = (pitch: number): Frame => ({
+  formants: [500, 1500, 2500],
+  bandwidths: [100, 150, 200],
+  voicing: 0,
+  aspiration: 0,
+  frication: 0,
+  fricationFrequency: 4000,
+  fricationBandwidth: 2000,
+  pitch,
+});
+
+/**
+ * Expand phones into 5ms parameter frames
+ */
+const buildFrames = (phones: Phone[]): Frame[] => {
+  const frames: Frame[] = [];
+
+  phones.forEach((phone, index) => {
+    const count = Math.max(1, Math.round(phone.duration / FRAME_MS));
+    const phoneme: Phoneme | undefined = phonemes[phone.symbol];
+    let next: Phoneme | undefined;
+    for (let j = index + 1; j < phones.length && !next; j++) {
+      next = phonemes[phones[j].symbol];
+    }
+
+    for (let i = 0; i < count; i++) {
+      const t = count > 1 ? i / (count - 1) : 0;
+      const pitch = phone.pitchStart + (phone.pitchEnd - phone.pitchStart) * t;
+
+      if (!phoneme) {
+        frames.push(silentFrame(pitch));
+        continue;
+      }
+
+      let formants: [number, number, number] = [...phoneme.formants];
+      if (phoneme.glide) {
+        formants = formants.map((f, k) => f + (phoneme.glide![k] - f) * t) as [number, number, number];
+      }
+      if (phoneme.kind === 'aspirate' && next) {
+        formants = [...next.formants];
+      }
+
+      const frame: Frame = {
+        formants,
+        bandwidths: [...phoneme.bandwidths],
+        voicing: 0,
+        aspiration: 0,
+        frication: 0,
+        fricationFrequency: phoneme.frication?.frequency ?? 4000,
+        fricationBandwidth: phoneme.frication?.bandwidth ?? 2000,
+        pitch,
+      };
+
+      switch (phoneme.kind) {
+        case 'vowel':
+        case 'diphthong':
+          frame.voicing = 1;
+          break;
+        case 'approximant':
+          frame.voicing = 0.8;
+          break;
+        case 'nasal':
+          frame.voicing = 0.6;
+          break;
+        case 'aspirate':
+          frame.aspiration = 0.5;
+          break;
+        case 'fricative':
+          frame.voicing = phoneme.voiced ? 0.5 : 0;
+          frame.frication = phoneme.frication!.level;
+          break;
+        case 'plosive': {
+          // Closure, then a short release burst, then aspiration or voicing onset
+          const burstStart = Math.floor(count * 0.65);
+          if (i < burstStart) {
+            frame.voicing = phoneme.voiced ? 0.12 : 0;
+          } else if (i < burstStart + 2) {
+            frame.frication = phoneme.frication!.level;
+          } else if (phoneme.voiced) {
+            frame.voicing = 0.6;
+            if (next) frame.formants = [...next.formants];
+          } else {
+            frame.aspiration = 0.35;
+            if (next) frame.formants = [...next.formants];
+          }
+          break;
+        }
+        case 'affricate': {
+          const releaseStart = Math.floor(count * 0.4);
+          if (i < releaseStart) {
+            frame.voicing = phoneme.voiced ? 0.12 : 0;
+          } else {
+            frame.voicing = phoneme.voiced ? 0.4 : 0;
+            frame.frication = phoneme.frication!.level;
+          }
+          break;
+        }
+      }
+
+      frames.push(frame);
+    }
+  });
+
+  return frames;
+};
+
+/**
+ * Smooth formant tracks so neighbouring phonemes blend (coarticulation)
+ */
+const smoothFormants = (frames: Frame[], radius: number): void => {
+  const original = frames.map(frame => frame.formants);
+  for (let i = 0; i < frames.length; i++) {
+    const from = Math.max(0, i - radius);
+    const to = Math.min(frames.length - 1, i + radius);
+    const sum: [number, number, number] = [0, 0, 0];
+    for (let j = from; j <= to; j++) {
+      sum[0] += original[j][0];
+      sum[1] += original[j][1];
+      sum[2] += original[j][2];
+    }
+    const count = to - from + 1;
+    frames[i].formants = [sum[0] / count, sum[1] / count, sum[2] / count];
+  }
+};
+
+/**
+ * Two-pole resonator (Klatt, 1980) with unity gain at DC
+ */
+class Resonator {
+  private a = 1;
+  private b = 0;
+  private c = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  setup(frequency: number, bandwidth: number, sampleRate: number): void {
+    const r = Math.exp(-Math.PI * bandwidth / sampleRate);
+    this.c = -(r * r);
+    this.b = 2 * r * Math.cos(2 * Math.PI * frequency / sampleRate);
+    this.a = 1 - this.b - this.c;
+  }
+
+  process(x: number): number {
+    const y = this.a * x + this.b * this.y1 + this.c * this.y2;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+/**
+ * Band-pass biquad with 0 dB peak gain, used to shape frication noise
+ */
+class BandPass {
+  private b0 = 0;
+  private b2 = 0;
+  private a1 = 0;
+  private a2 = 0;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  setup(frequency: number, bandwidth: number, sampleRate: number): void {
+    const w0 = 2 * Math.PI * Math.min(frequency, sampleRate * 0.45) / sampleRate;
+    const q = Math.max(0.3, frequency / bandwidth);
+    const alpha = Math.sin(w0) / (2 * q);
+    const a0 = 1 + alpha;
+    this.b0 = alpha / a0;
+    this.b2 = -alpha / a0;
+    this.a1 = (-2 * Math.cos(w0)) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  process(x: number): number {
+    const y = this.b0 * x + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+/**
+ * Deterministic white noise so the same text always renders identically
+ */
+const createNoise = (seed: number) => {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x80000000 - 1;
+  };
+};
+
+/**
+ * Rosenberg glottal pulse; `phase` runs 0..1 over one pitch period
+ */
+const glottalFlow = (phase: number): number => {
+  const rise = 0.4;
+  const fall = 0.16;
+  if (phase < rise) return 0.5 * (1 - Math.cos(Math.PI * phase / rise));
+  if (phase < rise + fall) return Math.cos((Math.PI / 2) * (phase - rise) / fall);
+  return 0;
+};
+
+const renderFrames = (
+  frames: Frame[],
+  profile: VoiceProfile,
+  settings: VoiceSettings,
+  sampleRate: number,
+  onProgress?: (fraction: number) => void
+): Float32Array => {
+  const frameSize = Math.round(sampleRate * FRAME_MS / 1000);
+  const output = new Float32Array(frames.length * frameSize);
+
+  const cascade = [new Resonator(), new Resonator(), new Resonator(), new Resonator(), new Resonator()];
+  const fricationFilter = new BandPass();
+  const noise = createNoise(0x5eed);
+
+  const baseF0 = profile.baseF0 * Math.max(0.5, Math.min(2.0, settings.pitch || 1.0));
+  // Higher clarity narrows formant bandwidths and reduces breathiness
+  const clarity = Math.max(0, Math.min(1, settings.clarity ?? 0.75));
+  const bandwidthScale = 1.4 - 0.6 * clarity;
+  const breathiness = profile.breathiness * (1.3 - 0.6 * clarity);
+  // Lower stability adds pitch jitter
+  const jitter = (1 - Math.max(0, Math.min(1, settings.stability ?? 0.75))) * 0.04;
+
+  let phase = 0;
+  let previousFlow = 0;
+  let previous = frames[0] || silentFrame(1);
+
+  frames.forEach((frame, frameIndex) => {
+    if (onProgress && frameIndex % PROGRESS_FRAMES === 0) {
+      onProgress(frameIndex / frames.length);
+    }
+
+    const scale = profile.formantScale;
+    for (let k = 0; k < 3; k++) {
+      const frequency = Math.min(frame.formants[k] * scale, sampleRate * 0.45);
+      cascade[k].setup(frequency, frame.bandwidths[k] * bandwidthScale, sampleRate);
+    }
+    cascade[3].setup(Math.min(3500 * scale, sampleRate * 0.45), 250, sampleRate);
+    cascade[4].setup(Math.min(4500 * scale, sampleRate * 0.45), 300, sampleRate);
+    fricationFilter.setup(frame.fricationFrequency, frame.fricationBandwidth, sampleRate);
+
+    for (let i = 0; i < frameSize; i++) {
+      // Interpolate source amplitudes across the frame to avoid clicks
+      const t = i / frameSize;
+      const voicing = previous.voicing + (frame.voicing - previous.voicing) * t;
+      const aspiration = previous.aspiration + (frame.aspiration - previous.aspiration) * t;
+      const frication = previous.frication + (frame.frication - previous.frication) * t;
+      const pitch = previous.pitch + (frame.pitch - previous.pitch) * t;
+
+      const f0 = baseF0 * pitch * (1 + jitter * noise());
+      phase += f0 / sampleRate;
+      if (phase >= 1) phase -= 1;
+
+      // Differentiated glottal flow approximates lip radiation
+      const flow = glottalFlow(phase);
+      const period = sampleRate / f0;
+      const voiceSource = (flow - previousFlow) * period * 0.05;
+      previousFlow = flow;
+
+      const white = noise();
+      let sample = voicing * (voiceSource + breathiness * white * 0.5) + aspiration * white * 0.3;
+      for (const resonator of cascade) {
+        sample = resonator.process(sample);
+      }
+
+      sample += fricationFilter.process(white) * frication;
+      output[frameIndex * frameSize + i] = sample;
+    }
+
+    previous = frame;
+  });
+
+  return output;
+};
+
+/**
+ * Scale samples to a consistent peak level
+ */
+const normalize = (samples: Float32Array, peak: number = 0.9): void => {
+  let max = 0;
+  for (let i = 0; i < samples.length; i++) {
+    max = Math.max(max, Math.abs(samples[i]));
+  }
+  if (max === 0) return;
+
+  const gain = peak / max;
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] *= gain;
+  }
+};
+
+/**
+ * Synthesize text to mono PCM samples at SAMPLE_RATE, optionally reporting
+ * how much of the audio has been rendered
+ */
+export const synthesizeSpeech = (
+  text: string,
+  settings: VoiceSettings,
+  onProgress?: (fraction: number) => void
+): Float32Array => {
+  const profile = voiceProfiles[settings.voice] || voiceProfiles.rachel;
+  const expressiveness = 0.5 + (1 - Math.max(0, Math.min(1, settings.stability ?? 0.75)));
+
+  const phones = applyProsody(parsePhrases(text), settings.speed, expressiveness);
+  if (phones.length === 0) {
+    return new Float32Array(0);
+  }
+
+  // Lead-in and tail silence so playback doesn't clip the first/last sound
+  const padded: Phone[] = [
+    { symbol: '_', duration: 60, pitchStart: 1, pitchEnd: 1 },
+    ...phones,
+    { symbol: '_', duration: 120, pitchStart: 0.8, pitchEnd: 0.8 },
+  ];
+
+  const frames = buildFrames(padded);
+  smoothFormants(frames, 3);
+
+  const samples = renderFrames(frames, profile, settings, SAMPLE_RATE, onProgress);
+  normalize(samples);
+  return samples;
+};
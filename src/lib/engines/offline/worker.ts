@@ -0,0 +1,38 @@
+/**
+ * Web Worker that runs the formant synthesizer off the main thread
+ */
+
+import type { VoiceSettings } from '@/lib/speech-engine';
+import { SAMPLE_RATE, synthesizeSpeech } from '@/lib/engines/offline/synthesizer';
+
+export interface OfflineSynthesisRequest {
+  id: number;
+  text: string;
+  settings: VoiceSettings;
+}
+
+export type OfflineSynthesisResponse =
+  | { id: number; samples: Float32Array; sampleRate: number }
+  | { id: number; progress: number }
+  | { id: number; error: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.addEventListener('message', (event: MessageEvent<OfflineSynthesisRequest>) => {
+  const { id, text, settings } = event.data;
+
+  try {
+    const samples = synthesizeSpeech(text, settings, (progress) => {
+      const update: OfflineSynthesisResponse = { id, progress };
+      ctx.postMessage(update);
+    });
+    const response: OfflineSynthesisResponse = { id, samples, sampleRate: SAMPLE_RATE };
+    ctx.postMessage(response, [samples.buffer]);
+  } catch (error) {
+    const response: OfflineSynthesisResponse = {
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    ctx.postMessage(response);
+  }
+});
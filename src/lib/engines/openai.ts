@@ -0,0 +1,170 @@
+/**
+ * OpenAI-compatible /v1/audio/speech provider (works with self-hosted servers)
+ */
+
+import type { EngineVoice, SpeechEngine, SynthesisRequest, SynthesisResult, VoiceSettings } from '@/lib/speech-engine';
+import { cleanTextForTTS, getAudioMetadata } from '@/lib/audio-utils';
+import { encodeWav } from '@/lib/encoders/wav';
+import { providerErrorFromResponse } from '@/lib/engines/errors';
+import { linkAbortSignal, providerFetch, readResponseBlob } from '@/lib/engines/http';
+import {
+  defaultProviderSettings,
+  loadProviderSettings,
+  normalizeBaseUrl,
+  type OpenAIResponseFormat,
+} from '@/lib/provider-settings';
+
+const PROVIDER = 'OpenAI';
+
+// Raw `pcm` responses are 24kHz, 16-bit signed little-endian mono
+const PCM_SAMPLE_RATE = 24000;
+
+const builtInVoices = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+
+// Closest built-in voice for each of our voices
+export const openAIVoiceIds: Record<string, string> = {
+  rachel: 'nova',
+  domi: 'shimmer',
+  bella: 'alloy',
+  elli: 'shimmer',
+  antoni: 'onyx',
+  josh: 'echo',
+  arnold: 'onyx',
+  adam: 'echo',
+  sam: 'fable',
+};
+
+const mimeTypes: Record<OpenAIResponseFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  opus: 'audio/ogg',
+  pcm: 'audio/pcm',
+};
+
+export const resolveOpenAIVoiceId = (voice: string, overrides: Record<string, string> = {}): string => {
+  return overrides[voice] || openAIVoiceIds[voice] || voice;
+};
+
+/**
+ * Translate our voice settings into an /audio/speech request body
+ */
+export const buildSpeechRequest = (
+  text: string,
+  settings: SynthesisRequest['settings'],
+  model: string,
+  responseFormat: OpenAIResponseFormat,
+  voiceIds: Record<string, string> = {}
+) => {
+  return {
+    model,
+    input: cleanTextForTTS(text),
+    voice: resolveOpenAIVoiceId(settings.voice, voiceIds),
+    // The API accepts 0.25-4.0; our slider covers 0.5-2.0
+    speed: Math.max(0.25, Math.min(4.0, settings.speed || 1.0)),
+    response_format: responseFormat,
+  };
+};
+
+/**
+ * Wrap raw PCM in a WAV container so browsers can play it
+ */
+const pcmToWav = (pcm: ArrayBuffer): Blob => {
+  const view = new DataView(pcm);
+  const samples = new Float32Array(Math.floor(pcm.byteLength / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 0x8000;
+  }
+  return encodeWav([samples], PCM_SAMPLE_RATE);
+};
+
+export const createOpenAIEngine = (): SpeechEngine => {
+  const controllers = new Set<AbortController>();
+
+  const synthesize = async ({ text, settings, signal, onProgress }: SynthesisRequest): Promise<SynthesisResult> => {
+    const config = loadProviderSettings().openai;
+    const payload = buildSpeechRequest(text, settings, config.model, config.responseFormat, config.voiceIds);
+
+    const controller = new AbortController();
+    controllers.add(controller);
+    const unlinkSignal = linkAbortSignal(controller, signal);
+
+    try {
+      const response = await providerFetch(PROVIDER, `${normalizeBaseUrl(config.baseUrl)}/v1/audio/speech`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw await providerErrorFromResponse(PROVIDER, response);
+      }
+
+      const body = await readResponseBlob(response, onProgress && (fraction => onProgress({ fraction })));
+
+      if (config.responseFormat === 'pcm') {
+        const pcm = await body.arrayBuffer();
+        return {
+          audio: pcmToWav(pcm),
+          duration: pcm.byteLength / 2 / PCM_SAMPLE_RATE,
+          voiceName: payload.voice,
+        };
+      }
+
+      // Some servers omit the content type, so fall back to the requested format
+      const audio = body.type.startsWith('audio/')
+        ? body
+        : new Blob([body], { type: mimeTypes[config.responseFormat] });
+      const metadata = await getAudioMetadata(audio);
+      return {
+        audio,
+        duration: metadata.duration,
+        voiceName: payload.voice,
+      };
+    } finally {
+      unlinkSignal();
+      controllers.delete(controller);
+    }
+  };
+
+  // The protocol has no voice listing endpoint
+  const listVoices = async (): Promise<EngineVoice[]> => {
+    return builtInVoices.map(id => ({
+      id,
+      name: id.charAt(0).toUpperCase() + id.slice(1),
+    }));
+  };
+
+  const cancel = () => {
+    controllers.forEach(controller => controller.abort());
+    controllers.clear();
+  };
+
+  const cacheVariant = (settings: VoiceSettings): string => {
+    const config = loadProviderSettings().openai;
+    const voice = resolveOpenAIVoiceId(settings.voice, config.voiceIds);
+    return [normalizeBaseUrl(config.baseUrl), config.model, voice, config.responseFormat].join('|');
+  };
+
+  return {
+    id: 'openai',
+    name: 'OpenAI-compatible',
+    capabilities: {
+      producesAudio: true,
+      maxChars: 4096,
+    },
+    // Self-hosted servers often run without a key; the hosted API needs one
+    isAvailable: () => {
+      const config = loadProviderSettings().openai;
+      const isHostedApi = normalizeBaseUrl(config.baseUrl) === defaultProviderSettings.openai.baseUrl;
+      return typeof fetch !== 'undefined' && !!config.baseUrl && (!!config.apiKey || !isHostedApi);
+    },
+    listVoices,
+    synthesize,
+    cancel,
+    cacheVariant,
+  };
+};
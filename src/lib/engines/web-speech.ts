@@ -0,0 +1,265 @@
+/**
+ * Web Speech API engine (speaks through the browser, no audio file output)
+ */
+
+import type { EngineVoice, SpeechEngine, SynthesisRequest, SynthesisResult } from '@/lib/speech-engine';
+import { toSpeechSegments, type SpeechSegment } from '@/lib/text/markup';
+
+// System voice name fragments to try for each of our voices, most specific first
+const voiceMap: Record<string, string[]> = {
+  'rachel': ['Microsoft Zira', 'Google UK English Female', 'Karen', 'Samantha', 'zira'],
+  'domi': ['Microsoft Hazel', 'Google US English Female', 'Victoria', 'Allison', 'hazel'],
+  'bella': ['Microsoft Eva', 'Google UK English Female', 'Fiona', 'Susan', 'eva'],
+  'antoni': ['Microsoft David', 'Google US English Male', 'Daniel', 'Alex', 'david'],
+  'elli': ['Microsoft Mark', 'Google UK English Female', 'Kate', 'Veena', 'kate'],
+  'josh': ['Google US English Male', 'Tom', 'Fred', 'josh'],
+  'arnold': ['Microsoft Paul', 'Google UK English Male', 'Oliver', 'Ralph', 'paul'],
+  'adam': ['Microsoft Mark', 'Google US English Male', 'Aaron', 'Bruce', 'mark'],
+  'sam': ['Microsoft David', 'Google US English Male', 'Sam', 'Junior', 'david']
+};
+
+const femaleVoices = ['rachel', 'domi', 'bella', 'elli'];
+
+const isSupported = (): boolean => {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+};
+
+/**
+ * Wait for the browser to populate its voice list (it loads asynchronously)
+ */
+const loadSystemVoices = (timeoutMs: number = 1000): Promise<SpeechSynthesisVoice[]> => {
+  return new Promise((resolve) => {
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) {
+      resolve(voices);
+      return;
+    }
+
+    const handleVoicesChanged = () => {
+      clearTimeout(timer);
+      window.speechSynthesis.removeEventListener('voiceschanged', handleVoicesChanged);
+      resolve(window.speechSynthesis.getVoices());
+    };
+
+    const timer = setTimeout(() => {
+      window.speechSynthesis.removeEventListener('voiceschanged', handleVoicesChanged);
+      resolve(window.speechSynthesis.getVoices());
+    }, timeoutMs);
+
+    window.speechSynthesis.addEventListener('voiceschanged', handleVoicesChanged);
+  });
+};
+
+/**
+ * Find the best matching system voice for one of our voice ids, among the
+ * voices speaking `lang` when any do
+ */
+export const matchSystemVoice = (
+  voiceId: string,
+  allVoices: SpeechSynthesisVoice[],
+  lang?: string
+): SpeechSynthesisVoice | undefined => {
+  const speakers = lang
+    ? allVoices.filter(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === lang.toLowerCase())
+    : [];
+  const voices = speakers.length > 0 ? speakers : allVoices;
+  const preferredVoices = voiceMap[voiceId] || [];
+  let selectedVoice = voices.find(voice =>
+    preferredVoices.some(pref =>
+      voice.name.toLowerCase().includes(pref.toLowerCase())
+    )
+  );
+
+  // Fallback: select by gender
+  if (!selectedVoice) {
+    const isFemale = femaleVoices.includes(voiceId);
+    selectedVoice = voices.find(voice => {
+      const name = voice.name.toLowerCase();
+      return isFemale ?
+        (name.includes('female') || name.includes('woman')) :
+        (name.includes('male') && !name.includes('female'));
+    });
+  }
+
+  // Ultimate fallback - use first available voice
+  return selectedVoice || voices[0];
+};
+
+const clamp = (value: number): number => Math.max(0.5, Math.min(2.0, value));
+
+/**
+ * Resolve after `ms`, or reject as soon as the signal aborts
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Speech synthesis cancelled', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+};
+
+export const createWebSpeechEngine = (): SpeechEngine => {
+  let activeReject: ((error: Error) => void) | null = null;
+
+  /**
+   * Speak one utterance and resolve with how long the browser spent speaking
+   */
+  const speak = (
+    utterance: SpeechSynthesisUtterance,
+    signal: AbortSignal | undefined,
+    delayMs: number
+  ): Promise<number> => {
+    return new Promise((resolve, reject) => {
+      const abort = () => {
+        activeReject = null;
+        window.speechSynthesis.cancel();
+        reject(new DOMException('Speech synthesis cancelled', 'AbortError'));
+      };
+      signal?.addEventListener('abort', abort, { once: true });
+
+      let startedAt = 0;
+      utterance.onstart = () => {
+        startedAt = performance.now();
+      };
+
+      utterance.onend = () => {
+        activeReject = null;
+        signal?.removeEventListener('abort', abort);
+        resolve(startedAt ? (performance.now() - startedAt) / 1000 : 0);
+      };
+
+      utterance.onerror = (event) => {
+        activeReject = null;
+        signal?.removeEventListener('abort', abort);
+        reject(new Error(`Speech synthesis failed: ${event.error}`));
+      };
+
+      activeReject = reject;
+      if (delayMs > 0) {
+        setTimeout(() => {
+          if (signal?.aborted) return;
+          window.speechSynthesis.speak(utterance);
+        }, delayMs);
+      } else {
+        window.speechSynthesis.speak(utterance);
+      }
+    });
+  };
+
+  const synthesize = async ({ text, markup, settings, lang, signal, onProgress }: SynthesisRequest): Promise<SynthesisResult> => {
+    if (!isSupported()) {
+      throw new Error('Speech synthesis not supported in this browser');
+    }
+
+    const voices = await loadSystemVoices();
+    const selectedVoice = matchSystemVoice(settings.voice, voices, lang);
+    signal?.throwIfAborted();
+
+    // Without SSML, emphasis, slow spans and pauses become separate utterances
+    const segments: SpeechSegment[] = markup
+      ? toSpeechSegments(markup)
+      : [{ text, start: 0, rate: 1, pitch: 1, pauseAfter: 0 }];
+    // Progress is reported against the source text, markers included
+    const sourceLength = markup?.length ? markup[markup.length - 1].end : text.length;
+
+    // Cancel any current speech before starting
+    window.speechSynthesis.cancel();
+
+    let duration = 0;
+    let first = true;
+    for (const segment of segments) {
+      if (segment.text.trim()) {
+        const utterance = new SpeechSynthesisUtterance(segment.text);
+        if (selectedVoice) {
+          utterance.voice = selectedVoice;
+        }
+        // Without a matching voice, the language still picks the browser's pronunciation
+        const utteranceLang = lang ?? selectedVoice?.lang;
+        if (utteranceLang) {
+          utterance.lang = utteranceLang;
+        }
+
+        // Apply voice settings, scaled by the segment's prosody
+        utterance.rate = clamp((settings.speed || 1.0) * segment.rate);
+        utterance.pitch = clamp((settings.pitch || 1.0) * segment.pitch);
+        utterance.volume = 1.0;
+
+        // Word boundaries are the only progress signal the browser gives us
+        utterance.onboundary = (event) => {
+          const charIndex = segment.start + event.charIndex;
+          onProgress?.({ fraction: sourceLength > 0 ? charIndex / sourceLength : 1, charIndex });
+        };
+
+        // Small delay on the first utterance to ensure cancel completes
+        duration += await speak(utterance, signal, first ? 100 : 0);
+        first = false;
+      }
+
+      if (segment.pauseAfter > 0) {
+        await wait(segment.pauseAfter, signal);
+        duration += segment.pauseAfter / 1000;
+      }
+    }
+
+    // Web Speech API doesn't provide direct audio file output, so we can
+    // only report how long the browser spent speaking
+    return {
+      audio: null,
+      duration,
+      voiceName: selectedVoice?.name,
+    };
+  };
+
+  const listVoices = async (): Promise<EngineVoice[]> => {
+    if (!isSupported()) return [];
+
+    const voices = await loadSystemVoices();
+    return voices.map(voice => ({
+      id: voice.voiceURI,
+      name: voice.name,
+      lang: voice.lang,
+    }));
+  };
+
+  const cancel = () => {
+    if (!isSupported()) return;
+
+    window.speechSynthesis.cancel();
+    if (activeReject) {
+      activeReject(new Error('Speech synthesis cancelled'));
+      activeReject = null;
+    }
+  };
+
+  const pause = () => {
+    if (isSupported()) window.speechSynthesis.pause();
+  };
+
+  const resume = () => {
+    if (isSupported()) window.speechSynthesis.resume();
+  };
+
+  return {
+    id: 'web-speech',
+    name: 'Browser (Web Speech)',
+    capabilities: {
+      producesAudio: false,
+      // Long utterances get cut off or stall in several browsers
+      maxChars: 300,
+      // Starting an utterance cancels whatever the browser is speaking
+      maxConcurrency: 1,
+    },
+    isAvailable: isSupported,
+    listVoices,
+    synthesize,
+    cancel,
+    pause,
+    resume,
+  };
+};
@@ -0,0 +1,70 @@
+/**
+ * Abbreviation dictionaries, one per project, persisted in localStorage
+ */
+
+import { BUILTIN_EXPANSIONS, type ExpansionEntry, type ExpansionOptions } from '@/lib/text/abbreviations';
+
+export interface ExpansionDictionary {
+  id: string;
+  name: string;
+  entries: ExpansionEntry[];
+}
+
+export interface ExpansionSettings {
+  enabled: boolean;
+  // Guess how all-caps words missing from the dictionaries are read
+  autoAcronyms: boolean;
+  // Use the built-in list after the project dictionary
+  includeBuiltins: boolean;
+  activeDictionaryId: string;
+  dictionaries: ExpansionDictionary[];
+}
+
+const STORAGE_KEY = 'voicegen.expansions';
+
+export const defaultExpansionSettings: ExpansionSettings = {
+  enabled: true,
+  autoAcronyms: false,
+  includeBuiltins: true,
+  activeDictionaryId: 'default',
+  dictionaries: [{ id: 'default', name: 'Default', entries: [] }],
+};
+
+/**
+ * Load expansion settings, filling in defaults for anything missing
+ */
+export const loadExpansionSettings = (): ExpansionSettings => {
+  if (typeof window === 'undefined') return defaultExpansionSettings;
+
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}') as Partial<ExpansionSettings>;
+    const settings = { ...defaultExpansionSettings, ...stored };
+    if (!Array.isArray(settings.dictionaries) || settings.dictionaries.length === 0) {
+      settings.dictionaries = defaultExpansionSettings.dictionaries;
+    }
+    if (!settings.dictionaries.some(dictionary => dictionary.id === settings.activeDictionaryId)) {
+      settings.activeDictionaryId = settings.dictionaries[0].id;
+    }
+    return settings;
+  } catch {
+    return defaultExpansionSettings;
+  }
+};
+
+export const saveExpansionSettings = (settings: ExpansionSettings): void => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * What the pipeline needs from the settings: the active project's entries
+ * ahead of the built-ins, or nothing when expansion is off
+ */
+export const resolveExpansionOptions = (settings: ExpansionSettings): ExpansionOptions | undefined => {
+  if (!settings.enabled) return undefined;
+
+  const dictionary = settings.dictionaries.find(candidate => candidate.id === settings.activeDictionaryId);
+  return {
+    entries: [...(dictionary?.entries ?? []), ...(settings.includeBuiltins ? BUILTIN_EXPANSIONS : [])],
+    autoAcronyms: settings.autoAcronyms,
+  };
+};
@@ -0,0 +1,68 @@
+/**
+ * Cancel / pause / resume handle for one in-progress generation
+ */
+
+import type { SpeechEngine } from '@/lib/speech-engine';
+
+export interface GenerationControl {
+  signal: AbortSignal;
+  isPaused: () => boolean;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // Resolves once the generation may continue; rejects if it was cancelled
+  waitWhilePaused: () => Promise<void>;
+}
+
+/**
+ * Create a control for a generation running on `engine`. Engines that speak
+ * live pause mid-utterance; others finish the current chunk and hold before the next.
+ */
+export const createGenerationControl = (engine: SpeechEngine): GenerationControl => {
+  const controller = new AbortController();
+  let paused = false;
+  let waiters: (() => void)[] = [];
+
+  const release = () => {
+    waiters.forEach(wake => wake());
+    waiters = [];
+  };
+
+  const pause = () => {
+    if (paused || controller.signal.aborted) return;
+    paused = true;
+    engine.pause?.();
+  };
+
+  const resume = () => {
+    if (!paused) return;
+    paused = false;
+    engine.resume?.();
+    release();
+  };
+
+  const cancel = () => {
+    if (controller.signal.aborted) return;
+    // A paused utterance has to be resumed before the browser will drop it
+    if (paused) engine.resume?.();
+    paused = false;
+    controller.abort();
+    release();
+  };
+
+  const waitWhilePaused = async () => {
+    if (paused) {
+      await new Promise<void>(resolve => waiters.push(resolve));
+    }
+    controller.signal.throwIfAborted();
+  };
+
+  return {
+    signal: controller.signal,
+    isPaused: () => paused,
+    pause,
+    resume,
+    cancel,
+    waitWhilePaused,
+  };
+};
@@ -0,0 +1,387 @@
+/**
+ * Job queue for generations: runs requests in order with a concurrency
+ * limit per engine
+ */
+
+import { getEngine, resolveEngine, type VoiceSettings } from '@/lib/engines';
+import { createGenerationControl, type GenerationControl } from '@/lib/generation-control';
+import { loadGenerationSettings } from '@/lib/generation-settings';
+import { createRetryingEngine } from '@/lib/retry';
+import { createCachingEngine } from '@/lib/synthesis-cache';
+import {
+  synthesizeText,
+  GenerationCancelledError,
+  type PipelineCallbacks,
+  type PipelineResult,
+  type TextFormat,
+} from '@/lib/synthesis-pipeline';
+import type { ExpansionOptions } from '@/lib/text/abbreviations';
+import type { Lexicon } from '@/lib/text/lexicon';
+import type { MarkdownReadingOptions } from '@/lib/text/markdown';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface GenerationCallbacks extends PipelineCallbacks {
+  // The job failed on one engine and restarts from the beginning on `engineId`
+  onFallback?: (engineId: string, error: Error) => void;
+}
+
+export interface GenerationRequest {
+  text: string;
+  // Defaults to editor markup
+  format?: TextFormat;
+  // Spell out numbers, dates and units for this locale
+  locale?: string;
+  // Abbreviation dictionaries, resolved when the job is queued
+  expansions?: ExpansionOptions;
+  // Pronunciation lexicons, in priority order
+  lexicons?: Lexicon[];
+  // Switch voices per detected paragraph language
+  detectLanguage?: boolean;
+  // How Markdown structure is read, in the Markdown format
+  markdown?: MarkdownReadingOptions;
+  engineId: string;
+  settings: VoiceSettings;
+  // Extra callbacks for this job, e.g. to stream its audio
+  callbacks?: GenerationCallbacks;
+}
+
+export interface EngineFailure {
+  engineId: string;
+  message: string;
+}
+
+export interface GenerationJob {
+  id: string;
+  text: string;
+  format: TextFormat;
+  locale: string | null;
+  expansions: ExpansionOptions | null;
+  lexicons: Lexicon[];
+  detectLanguage: boolean;
+  markdown: MarkdownReadingOptions | null;
+  // Engine currently (or finally) producing the audio; changes on fallback
+  engineId: string;
+  settings: VoiceSettings;
+  status: JobStatus;
+  paused: boolean;
+  // 0-1
+  progress: number;
+  // Character offset currently being spoken or synthesized
+  charIndex: number | null;
+  // Full result when done; partial result (if any) when cancelled
+  result: PipelineResult | null;
+  error: Error | null;
+  // Retries of individual requests across all engines tried
+  retries: number;
+  // Engines that gave up before the current one took over
+  failures: EngineFailure[];
+  // Chunks served from the synthesis cache
+  cachedChunks: number;
+  createdAt: Date;
+}
+
+export interface QueueState {
+  jobs: GenerationJob[];
+  // User-chosen concurrency per engine id
+  concurrency: Record<string, number>;
+}
+
+export interface GenerationQueue {
+  enqueue: (request: GenerationRequest) => string;
+  cancel: (jobId: string) => void;
+  pause: (jobId: string) => void;
+  resume: (jobId: string) => void;
+  // Move a queued job earlier (-1) or later (1) among the queued jobs
+  move: (jobId: string, direction: -1 | 1) => void;
+  remove: (jobId: string) => void;
+  clearFinished: () => void;
+  setConcurrency: (engineId: string, limit: number) => void;
+  getConcurrencyLimit: (engineId: string) => number;
+  getState: () => QueueState;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export interface GenerationQueueOptions {
+  // Called once per job when it finishes, fails or is cancelled
+  onJobSettled?: (job: GenerationJob) => void;
+}
+
+export const DEFAULT_CONCURRENCY = 2;
+
+const isSettled = (job: GenerationJob): boolean => {
+  return job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+};
+
+export const createGenerationQueue = (options: GenerationQueueOptions = {}): GenerationQueue => {
+  let state: QueueState = { jobs: [], concurrency: {} };
+  const controls = new Map<string, GenerationControl>();
+  const callbacks = new Map<string, GenerationCallbacks>();
+  // Fallback engine ids still to try, per job
+  const fallbacks = new Map<string, string[]>();
+  const listeners = new Set<() => void>();
+  let nextJobId = 0;
+
+  // State is replaced, never mutated, so it can be used as a React snapshot
+  const setState = (next: Partial<QueueState>) => {
+    state = { ...state, ...next };
+    listeners.forEach(listener => listener());
+  };
+
+  const updateJob = (jobId: string, patch: Partial<GenerationJob>) => {
+    setState({ jobs: state.jobs.map(job => job.id === jobId ? { ...job, ...patch } : job) });
+  };
+
+  const findJob = (jobId: string) => state.jobs.find(job => job.id === jobId);
+
+  const settle = (jobId: string, patch: Partial<GenerationJob>) => {
+    updateJob(jobId, { ...patch, paused: false });
+    callbacks.delete(jobId);
+    fallbacks.delete(jobId);
+    const job = findJob(jobId);
+    if (job) {
+      options.onJobSettled?.(job);
+    }
+  };
+
+  const getConcurrencyLimit = (engineId: string): number => {
+    const chosen = state.concurrency[engineId] ?? DEFAULT_CONCURRENCY;
+    const engineLimit = getEngine(engineId)?.capabilities.maxConcurrency ?? Infinity;
+    return Math.max(1, Math.min(chosen, engineLimit));
+  };
+
+  /**
+   * Configured fallback engines to try after `engineId`, in order
+   */
+  const getFallbackChain = (engineId: string): string[] => {
+    const chain: string[] = [];
+    for (const id of loadGenerationSettings().fallbackEngineIds) {
+      if (id !== engineId && !chain.includes(id) && getEngine(id)) {
+        chain.push(id);
+      }
+    }
+    return chain;
+  };
+
+  /**
+   * Put the job back in the queue on the first available engine of
+   * `candidates`, recording why the current one gave up. False when none is left.
+   */
+  const fallBack = (job: GenerationJob, failure: Error, candidates: string[]): boolean => {
+    const remaining = candidates.filter(id => id !== job.engineId && getEngine(id)?.isAvailable());
+    const next = remaining.shift();
+    if (!next) return false;
+
+    // Back into the queue on the next engine, so that engine's concurrency limit applies
+    fallbacks.set(job.id, remaining);
+    callbacks.get(job.id)?.onFallback?.(next, failure);
+    updateJob(job.id, {
+      status: 'queued',
+      engineId: next,
+      failures: [...(findJob(job.id)?.failures ?? []), { engineId: job.engineId, message: failure.message }],
+      paused: false,
+      progress: 0,
+      charIndex: null,
+    });
+    return true;
+  };
+
+  /**
+   * A queued job whose engine went away (e.g. its provider was switched off)
+   * moves on to its fallbacks, then the default engine, or fails
+   */
+  const reroute = (job: GenerationJob) => {
+    const failure = new Error(`${getEngine(job.engineId)?.name ?? job.engineId} is not available`);
+    const candidates = [...(fallbacks.get(job.id) ?? getFallbackChain(job.engineId)), resolveEngine().id];
+    if (!fallBack(job, failure, candidates)) {
+      settle(job.id, { status: 'failed', error: failure, charIndex: null });
+    }
+  };
+
+  const run = async (job: GenerationJob) => {
+    const { retry, cache } = loadGenerationSettings();
+    // schedule() only starts jobs whose engine is available
+    let engine = createRetryingEngine(getEngine(job.engineId)!, retry, () => {
+      updateJob(job.id, { retries: (findJob(job.id)?.retries ?? 0) + 1 });
+    });
+    if (cache.enabled) {
+      engine = createCachingEngine(engine, {
+        maxBytes: cache.maxBytes,
+        onHit: () => updateJob(job.id, { cachedChunks: (findJob(job.id)?.cachedChunks ?? 0) + 1 }),
+      });
+    }
+    const control = createGenerationControl(engine);
+    const jobCallbacks = callbacks.get(job.id) ?? {};
+    if (!fallbacks.has(job.id)) {
+      fallbacks.set(job.id, getFallbackChain(engine.id));
+    }
+    controls.set(job.id, control);
+    updateJob(job.id, { status: 'running' });
+
+    try {
+      const result = await synthesizeText(engine, job.text, job.settings, {
+        ...jobCallbacks,
+        onProgress: (progress) => {
+          jobCallbacks.onProgress?.(progress);
+          updateJob(job.id, { progress: progress.fraction, charIndex: progress.charIndex });
+        },
+      }, control, {
+        format: job.format,
+        locale: job.locale ?? undefined,
+        expansions: job.expansions ?? undefined,
+        lexicons: job.lexicons,
+        detectLanguage: job.detectLanguage,
+        markdown: job.markdown ?? undefined,
+      });
+      settle(job.id, { status: 'done', result, progress: 1, charIndex: null });
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        settle(job.id, { status: 'cancelled', result: error.partial, charIndex: null });
+        return;
+      }
+
+      const failure = error instanceof Error ? error : new Error(String(error));
+      if (!fallBack(job, failure, fallbacks.get(job.id) ?? [])) {
+        settle(job.id, { status: 'failed', error: failure, charIndex: null });
+      }
+    } finally {
+      controls.delete(job.id);
+      schedule();
+    }
+  };
+
+  /**
+   * Start queued jobs, oldest first, while their engine has a free slot
+   */
+  const schedule = () => {
+    state.jobs
+      .filter(job => job.status === 'queued' && !getEngine(job.engineId)?.isAvailable())
+      .forEach(reroute);
+
+    const running = new Map<string, number>();
+    state.jobs
+      .filter(job => job.status === 'running')
+      .forEach(job => running.set(job.engineId, (running.get(job.engineId) ?? 0) + 1));
+
+    for (const job of state.jobs) {
+      if (job.status !== 'queued') continue;
+
+      const active = running.get(job.engineId) ?? 0;
+      if (active >= getConcurrencyLimit(job.engineId)) continue;
+
+      running.set(job.engineId, active + 1);
+      void run(job);
+    }
+  };
+
+  const enqueue = ({ text, format = 'markup', locale, expansions, lexicons = [], detectLanguage = false, markdown, engineId, settings, callbacks: jobCallbacks }: GenerationRequest): string => {
+    const id = `job-${Date.now()}-${nextJobId++}`;
+    const job: GenerationJob = {
+      id,
+      text,
+      format,
+      locale: locale ?? null,
+      expansions: expansions ?? null,
+      lexicons,
+      detectLanguage,
+      markdown: markdown ?? null,
+      // Pin the engine now so a later change of default doesn't move the job
+      engineId: resolveEngine(engineId).id,
+      settings: { ...settings },
+      status: 'queued',
+      paused: false,
+      progress: 0,
+      charIndex: null,
+      result: null,
+      error: null,
+      retries: 0,
+      failures: [],
+      cachedChunks: 0,
+      createdAt: new Date(),
+    };
+    if (jobCallbacks) {
+      callbacks.set(id, jobCallbacks);
+    }
+
+    setState({ jobs: [...state.jobs, job] });
+    schedule();
+    return id;
+  };
+
+  const cancel = (jobId: string) => {
+    const job = findJob(jobId);
+    if (!job) return;
+
+    if (job.status === 'queued') {
+      settle(jobId, { status: 'cancelled' });
+    } else if (job.status === 'running') {
+      controls.get(jobId)?.cancel();
+    }
+  };
+
+  const pause = (jobId: string) => {
+    const control = controls.get(jobId);
+    if (!control) return;
+    control.pause();
+    updateJob(jobId, { paused: true });
+  };
+
+  const resume = (jobId: string) => {
+    const control = controls.get(jobId);
+    if (!control) return;
+    control.resume();
+    updateJob(jobId, { paused: false });
+  };
+
+  const move = (jobId: string, direction: -1 | 1) => {
+    const jobs = [...state.jobs];
+    const index = jobs.findIndex(job => job.id === jobId);
+    if (index === -1 || jobs[index].status !== 'queued') return;
+
+    // Swap with the nearest queued job in that direction
+    let target = index + direction;
+    while (target >= 0 && target < jobs.length && jobs[target].status !== 'queued') {
+      target += direction;
+    }
+    if (target < 0 || target >= jobs.length) return;
+
+    [jobs[index], jobs[target]] = [jobs[target], jobs[index]];
+    setState({ jobs });
+  };
+
+  const remove = (jobId: string) => {
+    const job = findJob(jobId);
+    if (!job || !isSettled(job)) return;
+    setState({ jobs: state.jobs.filter(other => other.id !== jobId) });
+  };
+
+  const clearFinished = () => {
+    setState({ jobs: state.jobs.filter(job => !isSettled(job)) });
+  };
+
+  const setConcurrency = (engineId: string, limit: number) => {
+    setState({ concurrency: { ...state.concurrency, [engineId]: Math.max(1, Math.round(limit)) } });
+    schedule();
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    enqueue,
+    cancel,
+    pause,
+    resume,
+    move,
+    remove,
+    clearFinished,
+    setConcurrency,
+    getConcurrencyLimit,
+    getState: () => state,
+    subscribe,
+  };
+};
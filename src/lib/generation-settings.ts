@@ -0,0 +1,53 @@
+/**
+ * Retry, fallback and caching preferences for generations, persisted in localStorage
+ */
+
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from '@/lib/retry';
+import { DEFAULT_CACHE_LIMIT_BYTES } from '@/lib/synthesis-cache';
+
+export interface CacheSettings {
+  enabled: boolean;
+  maxBytes: number;
+}
+
+export interface GenerationSettings {
+  retry: RetryPolicy;
+  // Engines to try, in order, when the selected engine fails
+  fallbackEngineIds: string[];
+  cache: CacheSettings;
+}
+
+const STORAGE_KEY = 'voicegen.generation';
+
+export const defaultGenerationSettings: GenerationSettings = {
+  retry: DEFAULT_RETRY_POLICY,
+  fallbackEngineIds: ['offline', 'web-speech'],
+  cache: {
+    enabled: true,
+    maxBytes: DEFAULT_CACHE_LIMIT_BYTES,
+  },
+};
+
+/**
+ * Load generation settings, filling in defaults for anything missing
+ */
+export const loadGenerationSettings = (): GenerationSettings => {
+  if (typeof window === 'undefined') return defaultGenerationSettings;
+
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}') as Partial<GenerationSettings>;
+    return {
+      retry: { ...defaultGenerationSettings.retry, ...stored.retry },
+      fallbackEngineIds: Array.isArray(stored.fallbackEngineIds)
+        ? stored.fallbackEngineIds
+        : defaultGenerationSettings.fallbackEngineIds,
+      cache: { ...defaultGenerationSettings.cache, ...stored.cache },
+    };
+  } catch {
+    return defaultGenerationSettings;
+  }
+};
+
+export const saveGenerationSettings = (settings: GenerationSettings): void => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
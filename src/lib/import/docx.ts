@@ -0,0 +1,98 @@
+/**
+ * Word documents: paragraphs, headings, list items and tables from
+ * word/document.xml
+ */
+
+import type { ImportedDocument, DocumentBlock } from '@/lib/import/types';
+import { parseXml } from '@/lib/import/html';
+import { openZip } from '@/lib/import/zip';
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DC = 'http://purl.org/dc/elements/1.1/';
+
+const child = (element: Element, name: string): Element | undefined => {
+  return Array.from(element.children).find(node => node.namespaceURI === W && node.localName === name);
+};
+
+/** Visible text of a paragraph; tracked deletions (w:delText) are left out */
+const paragraphText = (paragraph: Element): string => {
+  let text = '';
+  const visit = (node: Element) => {
+    if (node.namespaceURI === W) {
+      if (node.localName === 't') {
+        text += node.textContent ?? '';
+        return;
+      }
+      if (node.localName === 'tab' || node.localName === 'br' || node.localName === 'cr') {
+        text += ' ';
+        return;
+      }
+    }
+    Array.from(node.children).forEach(visit);
+  };
+  visit(paragraph);
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+/** Heading level from the paragraph style, e.g. "Heading2" or "Title" */
+const headingLevel = (properties: Element | undefined): number | null => {
+  const style = properties && child(properties, 'pStyle')?.getAttributeNS(W, 'val');
+  if (style) {
+    if (/^title$/i.test(style)) return 1;
+    const heading = style.match(/^heading\s*(\d)$/i);
+    if (heading) return Math.min(6, Number(heading[1]));
+  }
+  // Custom styles can still carry an outline level (0-based)
+  const outline = properties && child(properties, 'outlineLvl')?.getAttributeNS(W, 'val');
+  return outline && Number(outline) < 6 ? Number(outline) + 1 : null;
+};
+
+const bodyToBlocks = (body: Element): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+
+  for (const node of Array.from(body.children)) {
+    if (node.namespaceURI !== W) continue;
+
+    if (node.localName === 'p') {
+      const text = paragraphText(node);
+      if (!text) continue;
+      const properties = child(node, 'pPr');
+      const level = headingLevel(properties);
+      if (level) {
+        blocks.push({ type: 'heading', level, text });
+      } else if (properties && child(properties, 'numPr')) {
+        blocks.push({ type: 'list-item', text });
+      } else {
+        blocks.push({ type: 'paragraph', text });
+      }
+    } else if (node.localName === 'tbl') {
+      // Rows read as their cells
+      for (const row of Array.from(node.getElementsByTagNameNS(W, 'tr'))) {
+        const cells = Array.from(row.getElementsByTagNameNS(W, 'tc'), cell =>
+          Array.from(cell.getElementsByTagNameNS(W, 'p'), paragraphText).filter(Boolean).join(' ')
+        ).filter(Boolean);
+        if (cells.length > 0) blocks.push({ type: 'paragraph', text: cells.join(', ') });
+      }
+    } else if (node.localName === 'sdt') {
+      // Content controls wrap ordinary paragraphs
+      const content = child(node, 'sdtContent');
+      if (content) blocks.push(...bodyToBlocks(content));
+    }
+  }
+
+  return blocks;
+};
+
+export const parseDocx = async (buffer: ArrayBuffer): Promise<ImportedDocument> => {
+  const zip = openZip(buffer);
+  const source = await zip.readText('word/document.xml');
+  if (!source) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  const body = parseXml(source).getElementsByTagNameNS(W, 'body')[0];
+  const core = await zip.readText('docProps/core.xml');
+  const title = core ? parseXml(core).getElementsByTagNameNS(DC, 'title')[0]?.textContent?.trim() ?? '' : '';
+
+  return { title, blocks: body ? bodyToBlocks(body) : [] };
+};
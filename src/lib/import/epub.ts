@@ -0,0 +1,56 @@
+/**
+ * EPUB books: chapters in spine (reading) order, each parsed as XHTML
+ */
+
+import type { ImportedDocument, DocumentBlock } from '@/lib/import/types';
+import { parseHtml, parseXml } from '@/lib/import/html';
+import { openZip } from '@/lib/import/zip';
+
+const DC = 'http://purl.org/dc/elements/1.1/';
+
+const HTML_TYPES = new Set(['application/xhtml+xml', 'text/html']);
+
+/** Resolve `href` against the directory of `base`, both archive paths */
+const resolvePath = (base: string, href: string): string => {
+  const parts = base.split('/').slice(0, -1);
+  for (const part of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+};
+
+export const parseEpub = async (buffer: ArrayBuffer): Promise<ImportedDocument> => {
+  const zip = openZip(buffer);
+
+  const container = await zip.readText('META-INF/container.xml');
+  const packagePath = container && parseXml(container).getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const packageSource = packagePath && await zip.readText(packagePath);
+  if (!packagePath || !packageSource) {
+    throw new Error('Not an EPUB book: the package document is missing');
+  }
+
+  const opf = parseXml(packageSource);
+  const title = opf.getElementsByTagNameNS(DC, 'title')[0]?.textContent?.trim() ?? '';
+
+  const manifest = new Map<string, Element>();
+  for (const item of Array.from(opf.getElementsByTagName('item'))) {
+    const id = item.getAttribute('id');
+    if (id) manifest.set(id, item);
+  }
+
+  const blocks: DocumentBlock[] = [];
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    // Non-linear items are notes and pop-ups outside the reading order
+    if (itemref.getAttribute('linear') === 'no') continue;
+
+    const item = manifest.get(itemref.getAttribute('idref') ?? '');
+    const href = item?.getAttribute('href');
+    if (!item || !href || !HTML_TYPES.has(item.getAttribute('media-type') ?? '')) continue;
+
+    const source = await zip.readText(resolvePath(packagePath, href));
+    if (source) blocks.push(...parseHtml(source, 'application/xhtml+xml').blocks);
+  }
+
+  return { title, blocks };
+};
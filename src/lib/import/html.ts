@@ -0,0 +1,107 @@
+/**
+ * HTML and XHTML (EPUB chapters) to document blocks, using the browser's DOMParser
+ */
+
+import type { DocumentBlock } from '@/lib/import/types';
+
+// Never read aloud
+const SKIPPED = new Set(['script', 'style', 'noscript', 'template', 'svg', 'math', 'head', 'nav', 'pre', 'code', 'iframe', 'button', 'select']);
+
+const BLOCKS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'header', 'hr', 'li', 'main', 'ol', 'p', 'section', 'table', 'tbody', 'thead', 'tfoot', 'ul',
+]);
+
+const HEADING = /^h([1-6])$/;
+
+/**
+ * Walk the document in reading order. Block elements end the current
+ * paragraph; table rows are read as their cells.
+ */
+export const htmlToBlocks = (root: Element): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+  let inline = '';
+  let listDepth = 0;
+
+  const flush = () => {
+    const text = inline.replace(/\s+/g, ' ').trim();
+    if (text) blocks.push({ type: listDepth > 0 ? 'list-item' : 'paragraph', text });
+    inline = '';
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += node.textContent ?? '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    // XHTML element names keep their case
+    const name = element.localName.toLowerCase();
+    if (SKIPPED.has(name) || element.getAttribute('aria-hidden') === 'true' || element.hasAttribute('hidden')) return;
+
+    const heading = name.match(HEADING);
+    if (heading) {
+      flush();
+      const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+      if (text) blocks.push({ type: 'heading', level: Number(heading[1]), text });
+      return;
+    }
+
+    if (name === 'br') {
+      inline += ' ';
+      return;
+    }
+    if (name === 'img') {
+      // Alt text stands in for images that carry words
+      const alt = element.getAttribute('alt')?.trim();
+      if (alt) inline += ` ${alt} `;
+      return;
+    }
+    if (name === 'tr') {
+      flush();
+      const cells = Array.from(element.children, cell => (cell.textContent ?? '').replace(/\s+/g, ' ').trim()).filter(Boolean);
+      if (cells.length > 0) blocks.push({ type: 'paragraph', text: cells.join(', ') });
+      return;
+    }
+
+    const isBlock = BLOCKS.has(name);
+    const isList = name === 'ul' || name === 'ol';
+    if (isBlock) flush();
+    if (isList) listDepth++;
+    element.childNodes.forEach(visit);
+    if (isBlock) flush();
+    if (isList) listDepth--;
+  };
+
+  visit(root);
+  flush();
+  return blocks;
+};
+
+/**
+ * Parse an XML document. Throws when it isn't well-formed.
+ */
+export const parseXml = (source: string): Document => {
+  const document = new DOMParser().parseFromString(source, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The document XML could not be parsed');
+  }
+  return document;
+};
+
+/**
+ * Parse an HTML or XHTML source; returns the title and the body's blocks
+ */
+export const parseHtml = (source: string, type: DOMParserSupportedType = 'text/html'): { title: string; blocks: DocumentBlock[] } => {
+  const document = new DOMParser().parseFromString(source, type);
+  if (type !== 'text/html' && document.getElementsByTagName('parsererror').length > 0) {
+    // Some EPUBs ship XHTML that isn't well-formed; the HTML parser copes
+    return parseHtml(source);
+  }
+
+  const body = document.getElementsByTagName('body')[0] ?? document.documentElement;
+  const title = document.getElementsByTagName('title')[0]?.textContent?.trim() ?? '';
+  return { title, blocks: htmlToBlocks(body) };
+};
@@ -0,0 +1,149 @@
+/**
+ * Document import: extract readable text from files dropped or picked in
+ * the editor, keeping headings and paragraph breaks for the speech pipeline
+ */
+
+import type { TextFormat } from '@/lib/synthesis-pipeline';
+import type { DocumentBlock, ImportedDocument } from '@/lib/import/types';
+import { parseDocx } from '@/lib/import/docx';
+import { parseEpub } from '@/lib/import/epub';
+import { parseHtml } from '@/lib/import/html';
+import { parseMarkdown, parsePlainText } from '@/lib/import/plain';
+import { parseSubtitles } from '@/lib/import/subtitles';
+
+export type { DocumentBlock, ImportedDocument } from '@/lib/import/types';
+
+type DocumentKind = 'text' | 'markdown' | 'html' | 'docx' | 'epub' | 'subtitles';
+
+const EXTENSIONS: Record<string, DocumentKind> = {
+  txt: 'text',
+  text: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  docx: 'docx',
+  epub: 'epub',
+  srt: 'subtitles',
+  vtt: 'subtitles',
+};
+
+const MIME_TYPES: Record<string, DocumentKind> = {
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/epub+zip': 'epub',
+  'application/x-subrip': 'subtitles',
+  'text/vtt': 'subtitles',
+};
+
+// For the file picker's `accept` attribute
+export const IMPORT_ACCEPT = Object.keys(EXTENSIONS).map(extension => `.${extension}`).join(',');
+
+// A silence between cues longer than this starts a new paragraph (seconds)
+const CUE_PARAGRAPH_GAP = 2;
+
+const documentKind = (file: File): DocumentKind | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSIONS[extension] ?? MIME_TYPES[file.type] ?? null;
+};
+
+const fileTitle = (file: File): string => file.name.replace(/\.[^.]+$/, '');
+
+/**
+ * Read a file into document blocks. Throws for unsupported types and
+ * malformed DOCX/EPUB archives.
+ */
+export const importDocument = async (file: File): Promise<ImportedDocument> => {
+  const kind = documentKind(file);
+  switch (kind) {
+    case 'text':
+      return { title: fileTitle(file), blocks: parsePlainText(await file.text()) };
+    case 'markdown':
+      return { title: fileTitle(file), blocks: parseMarkdown(await file.text()) };
+    case 'subtitles':
+      return { title: fileTitle(file), blocks: parseSubtitles(await file.text()) };
+    case 'html': {
+      const { title, blocks } = parseHtml(await file.text());
+      return { title: title || fileTitle(file), blocks };
+    }
+    case 'docx':
+    case 'epub': {
+      const document = kind === 'docx' ? await parseDocx(await file.arrayBuffer()) : await parseEpub(await file.arrayBuffer());
+      return { ...document, title: document.title || fileTitle(file) };
+    }
+    default:
+      throw new Error(`Unsupported file type: ${file.name}. Import .txt, .md, .html, .docx, .epub, .srt or .vtt files.`);
+  }
+};
+
+/** Group blocks into paragraphs; a paragraph is a heading or a run of lines */
+const groupBlocks = (blocks: DocumentBlock[]): { heading: boolean; lines: string[] }[] => {
+  const groups: { heading: boolean; lines: string[] }[] = [];
+  let previous: DocumentBlock | null = null;
+
+  for (const block of blocks) {
+    const last = groups[groups.length - 1];
+    const continues = previous !== null && last && !last.heading && (
+      (block.type === 'list-item' && previous.type === 'list-item') ||
+      (block.type === 'cue' && previous.type === 'cue' && block.start - previous.end <= CUE_PARAGRAPH_GAP)
+    );
+
+    if (continues) last.lines.push(block.text);
+    else groups.push({ heading: block.type === 'heading', lines: [block.text] });
+    previous = block;
+  }
+  return groups;
+};
+
+// Lines that don't end a sentence get a period so list items and cues aren't read as one run-on sentence
+const terminate = (text: string): string => /[.!?…:;,"'”’)\]]$/.test(text) ? text : `${text}.`;
+
+const groupText = (group: { heading: boolean; lines: string[] }, separator: string): string => {
+  return group.lines.length > 1 ? group.lines.map(terminate).join(separator) : group.lines[0];
+};
+
+const escapeXml = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Render an imported document for the editor. Paragraph breaks become
+ * blank lines (a paragraph pause); headings stand alone followed by a pause.
+ */
+export const renderDocument = (document: ImportedDocument, format: TextFormat): string => {
+  const groups = groupBlocks(document.blocks);
+
+  if (format === 'ssml') {
+    const body = groups.map(group => {
+      const text = escapeXml(groupText(group, ' ')).replace(/\*([^*\n]+)\*/g, '<emphasis>$1</emphasis>');
+      return group.heading ? `${terminate(text)}\n<break time="700ms"/>` : text;
+    });
+    return `<speak>\n${body.join('\n\n')}\n</speak>`;
+  }
+
+  if (format === 'markdown') {
+    return document.blocks
+      .map((block, index) => {
+        const previous = document.blocks[index - 1];
+        // Consecutive list items stay one list
+        const separator = index === 0 ? '' : block.type === 'list-item' && previous?.type === 'list-item' ? '\n' : '\n\n';
+        switch (block.type) {
+          case 'heading':
+            return `${separator}${'#'.repeat(block.level)} ${block.text}`;
+          case 'list-item':
+            return `${separator}- ${block.text}`;
+          default:
+            return `${separator}${block.text}`;
+        }
+      })
+      .join('');
+  }
+
+  return groups
+    .map(group => group.heading
+      ? `${group.lines[0].replace(/[.:;,]$/, '')}...`
+      : groupText(group, '\n'))
+    .join('\n\n');
+};
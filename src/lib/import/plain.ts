@@ -0,0 +1,113 @@
+/**
+ * Plain text and Markdown documents
+ */
+
+import type { DocumentBlock } from '@/lib/import/types';
+
+/**
+ * Paragraphs separated by blank lines; hard-wrapped lines are joined
+ */
+export const parsePlainText = (source: string): DocumentBlock[] => {
+  return source
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/)
+    .map(paragraph => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(Boolean)
+    .map(text => ({ type: 'paragraph', text }));
+};
+
+/**
+ * Inline Markdown to readable text. Strong emphasis becomes editor emphasis.
+ */
+const cleanInline = (text: string): string => {
+  return text
+    // Images say nothing worth hearing
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<(https?:\/\/[^>]+)>/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '*$2*')
+    .replace(/(?<![\w*])_(.+?)_(?!\w)/g, '$1')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!])/g, '$1')
+    .trim();
+};
+
+/**
+ * Headings, paragraphs and list items from Markdown. Code blocks, tables'
+ * separator rows and horizontal rules are dropped.
+ */
+export const parseMarkdown = (source: string): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    const text = cleanInline(paragraph.join(' '));
+    if (text) blocks.push({ type: 'paragraph', text });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (fence) {
+      if (line.trim().startsWith(fence)) fence = null;
+      continue;
+    }
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, text: cleanInline(heading[2]) });
+      continue;
+    }
+
+    // A single line underlined with === or ---
+    const underline = lines[i + 1]?.match(/^\s{0,3}(=+|-+)\s*$/);
+    if (underline && paragraph.length === 0 && !/^\s*[-*+]\s/.test(line)) {
+      blocks.push({ type: 'heading', level: underline[1].startsWith('=') ? 1 : 2, text: cleanInline(line) });
+      i++;
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line) || /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(line)) {
+      flush();
+      continue;
+    }
+
+    const listItem = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/);
+    if (listItem) {
+      flush();
+      blocks.push({ type: 'list-item', text: cleanInline(listItem[1]) });
+      continue;
+    }
+
+    // Table rows read as their cells
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      flush();
+      const cells = line.trim().slice(1, -1).split('|').map(cell => cleanInline(cell)).filter(Boolean);
+      if (cells.length > 0) blocks.push({ type: 'paragraph', text: cells.join(', ') });
+      continue;
+    }
+
+    paragraph.push(line.replace(/^\s*>\s?/, ''));
+  }
+  flush();
+
+  return blocks;
+};
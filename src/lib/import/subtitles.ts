@@ -0,0 +1,49 @@
+/**
+ * SRT and WebVTT subtitles: cue text with timings, styling tags removed
+ */
+
+import type { DocumentBlock } from '@/lib/import/types';
+
+const TIMING = /((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+
+const parseTimestamp = (value: string): number => {
+  const [clock, fraction] = value.split(/[,.]/);
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds + Number(`0.${fraction}`);
+};
+
+const cleanCueText = (lines: string[]): string => {
+  return lines
+    .join(' ')
+    // <i>, <b>, <c.yellow>, <v Speaker>, timestamps inside cues
+    .replace(/<[^>]*>/g, '')
+    // SSA-style overrides some SRT files carry
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    // Last, so "&amp;lt;" reads "&lt;" rather than "<"
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Read SRT or WebVTT cues. Cue numbers, identifiers, NOTE and STYLE blocks
+ * are dropped.
+ */
+export const parseSubtitles = (source: string): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+  for (const chunk of source.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = chunk.split('\n').filter(line => line.trim());
+    const timingIndex = lines.findIndex(line => TIMING.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = lines[timingIndex].match(TIMING)!;
+    const text = cleanCueText(lines.slice(timingIndex + 1));
+    if (text) {
+      blocks.push({ type: 'cue', text, start: parseTimestamp(start), end: parseTimestamp(end) });
+    }
+  }
+  return blocks;
+};
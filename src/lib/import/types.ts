@@ -0,0 +1,15 @@
+/**
+ * Structure extracted from imported documents
+ */
+
+export type DocumentBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list-item'; text: string }
+  // Subtitle cue, with its timing in seconds
+  | { type: 'cue'; text: string; start: number; end: number };
+
+export interface ImportedDocument {
+  title: string;
+  blocks: DocumentBlock[];
+}
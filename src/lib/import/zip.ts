@@ -0,0 +1,103 @@
+/**
+ * Minimal ZIP reader for DOCX and EPUB files: reads the central directory
+ * and inflates entries with the browser's DecompressionStream
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  // Entry paths, e.g. "word/document.xml"
+  files: string[];
+  read: (path: string) => Promise<Uint8Array | null>;
+  readText: (path: string) => Promise<string | null>;
+}
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Open a ZIP archive. Throws when `buffer` isn't one or uses features we
+ * don't read (ZIP64, encryption, compression other than deflate).
+ */
+export const openZip = (buffer: ArrayBuffer): ZipArchive => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // The end record sits in the last 22 bytes, plus a comment of up to 64 KB
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    // Encrypted entries can't be read; skip them rather than fail the archive
+    if (!(flags & 1)) {
+      entries.set(name, {
+        method: view.getUint16(offset + 10, true),
+        compressedSize: view.getUint32(offset + 20, true),
+        localHeaderOffset: view.getUint32(offset + 42, true),
+      });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (path: string): Promise<Uint8Array | null> => {
+    const entry = entries.get(path);
+    if (!entry) return null;
+
+    const header = entry.localHeaderOffset;
+    if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${path}`);
+    }
+    // The local header's own name and extra lengths may differ from the central directory's
+    const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.method === STORED) return data;
+    if (entry.method === DEFLATED) return inflate(data);
+    throw new Error(`Unsupported ZIP compression method ${entry.method} for ${path}`);
+  };
+
+  const readText = async (path: string): Promise<string | null> => {
+    const data = await read(path);
+    return data ? decoder.decode(data) : null;
+  };
+
+  return { files: Array.from(entries.keys()), read, readText };
+};
@@ -0,0 +1,51 @@
+/**
+ * Pronunciation lexicons and which of them are in use, persisted in localStorage
+ */
+
+import type { Lexicon } from '@/lib/text/lexicon';
+
+export interface LexiconSettings {
+  lexicons: Lexicon[];
+  // Lexicons applied to generations, in priority order
+  activeIds: string[];
+}
+
+const STORAGE_KEY = 'voicegen.lexicons';
+
+export const defaultLexiconSettings: LexiconSettings = {
+  lexicons: [],
+  activeIds: [],
+};
+
+/**
+ * Load lexicon settings, filling in defaults for anything missing
+ */
+export const loadLexiconSettings = (): LexiconSettings => {
+  if (typeof window === 'undefined') return defaultLexiconSettings;
+
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}') as Partial<LexiconSettings>;
+    const lexicons = Array.isArray(stored.lexicons) ? stored.lexicons : defaultLexiconSettings.lexicons;
+    const activeIds = Array.isArray(stored.activeIds) ? stored.activeIds : defaultLexiconSettings.activeIds;
+    return {
+      lexicons,
+      // Drop ids of lexicons that no longer exist
+      activeIds: activeIds.filter(id => lexicons.some(lexicon => lexicon.id === id)),
+    };
+  } catch {
+    return defaultLexiconSettings;
+  }
+};
+
+export const saveLexiconSettings = (settings: LexiconSettings): void => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * The lexicons generations should use, in priority order
+ */
+export const getActiveLexicons = (settings: LexiconSettings): Lexicon[] => {
+  return settings.activeIds
+    .map(id => settings.lexicons.find(lexicon => lexicon.id === id))
+    .filter(lexicon => lexicon !== undefined);
+};
@@ -0,0 +1,90 @@
+/**
+ * Connection settings for HTTP speech providers, persisted in localStorage
+ */
+
+export interface ElevenLabsSettings {
+  baseUrl: string;
+  apiKey: string;
+  modelId: string;
+  // Our voice id -> provider voice id, overriding the built-in mapping
+  voiceIds: Record<string, string>;
+}
+
+export type OpenAIResponseFormat = 'mp3' | 'wav' | 'opus' | 'pcm';
+
+export interface OpenAISettings {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  responseFormat: OpenAIResponseFormat;
+  voiceIds: Record<string, string>;
+}
+
+export interface ProviderSettings {
+  elevenlabs: ElevenLabsSettings;
+  openai: OpenAISettings;
+}
+
+const STORAGE_KEY = 'voicegen.providers';
+
+export const defaultProviderSettings: ProviderSettings = {
+  elevenlabs: {
+    baseUrl: 'https://api.elevenlabs.io',
+    apiKey: '',
+    modelId: 'eleven_multilingual_v2',
+    voiceIds: {},
+  },
+  openai: {
+    baseUrl: 'https://api.openai.com',
+    apiKey: '',
+    model: 'tts-1',
+    responseFormat: 'mp3',
+    voiceIds: {},
+  },
+};
+
+/**
+ * Load provider settings, filling in defaults for anything missing
+ */
+export const loadProviderSettings = (): ProviderSettings => {
+  if (typeof window === 'undefined') return defaultProviderSettings;
+
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}') as Partial<ProviderSettings>;
+    return {
+      elevenlabs: { ...defaultProviderSettings.elevenlabs, ...stored.elevenlabs },
+      openai: { ...defaultProviderSettings.openai, ...stored.openai },
+    };
+  } catch {
+    return defaultProviderSettings;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings): void => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Remove a trailing slash so paths can be appended safely
+ */
+export const normalizeBaseUrl = (baseUrl: string): string => {
+  return baseUrl.trim().replace(/\/+$/, '');
+};
+
+/**
+ * Parse "rachel=abc123, josh=def456" into a voice id map
+ */
+export const parseVoiceIdMap = (value: string): Record<string, string> => {
+  const map: Record<string, string> = {};
+  for (const entry of value.split(/[,\n]/)) {
+    const [ours, theirs] = entry.split('=').map(part => part.trim());
+    if (ours && theirs) {
+      map[ours] = theirs;
+    }
+  }
+  return map;
+};
+
+export const formatVoiceIdMap = (map: Record<string, string>): string => {
+  return Object.entries(map).map(([ours, theirs]) => `${ours}=${theirs}`).join(', ');
+};
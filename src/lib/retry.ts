@@ -0,0 +1,111 @@
+/**
+ * Retry policy with exponential backoff for speech engine requests
+ */
+
+import type { SpeechEngine, SynthesisRequest } from '@/lib/speech-engine';
+import { ProviderError, ProviderRateLimitError } from '@/lib/engines/errors';
+
+export interface RetryPolicy {
+  // Total tries per request, including the first
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  // Randomize each delay by up to this share to avoid retrying in lockstep
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 15000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+/**
+ * Only transient provider failures (network, 5xx, rate limits) are worth retrying;
+ * auth and validation errors will fail the same way again
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  return error instanceof ProviderError && error.retryable;
+};
+
+/**
+ * Delay before retry number `attempt` (1-based), honouring a provider's Retry-After
+ */
+export const getRetryDelay = (policy: RetryPolicy, attempt: number, error?: unknown): number => {
+  const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.multiplier ** (attempt - 1));
+  const jittered = backoff * (1 - policy.jitter + Math.random() * policy.jitter * 2);
+
+  if (error instanceof ProviderRateLimitError && error.retryAfter) {
+    return Math.max(jittered, error.retryAfter * 1000);
+  }
+  return Math.max(0, jittered);
+};
+
+/**
+ * Wait `ms`, rejecting early with an AbortError if the signal aborts
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Retry cancelled', 'AbortError'));
+      return;
+    }
+
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Retry cancelled', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+};
+
+/**
+ * Run `task`, retrying retryable failures according to `policy`
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  policy: RetryPolicy,
+  options: { signal?: AbortSignal; onRetry?: (attempt: number, delayMs: number, error: unknown) => void } = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (options.signal?.aborted || attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(policy, attempt, error);
+      options.onRetry?.(attempt, delay, error);
+      await sleep(delay, options.signal);
+    }
+  }
+};
+
+/**
+ * Wrap an engine so every synthesize() call is retried under `policy`
+ */
+export const createRetryingEngine = (
+  engine: SpeechEngine,
+  policy: RetryPolicy,
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void
+): SpeechEngine => ({
+  ...engine,
+  synthesize: (request: SynthesisRequest) => withRetry(
+    () => engine.synthesize(request),
+    policy,
+    { signal: request.signal, onRetry }
+  ),
+});
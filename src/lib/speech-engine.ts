@@ -0,0 +1,135 @@
+/**
+ * Speech engine abstraction and registry
+ */
+
+import type { SpeechNode } from '@/lib/text/markup';
+import type { Lexicon } from '@/lib/text/lexicon';
+
+export interface VoiceSettings {
+  voice: string;
+  speed: number;
+  pitch: number;
+  stability: number;
+  clarity: number;
+}
+
+export interface EngineVoice {
+  id: string;
+  name: string;
+  lang?: string;
+  gender?: 'male' | 'female';
+}
+
+export interface EngineCapabilities {
+  // Engine returns a playable/downloadable audio blob (not just live playback)
+  producesAudio: boolean;
+  // Engine applies pronunciation lexicons itself, including phonemes
+  lexicons?: boolean;
+  // Largest text length a single synthesize() call accepts
+  maxChars?: number;
+  // Most requests the engine can work on at once
+  maxConcurrency?: number;
+}
+
+export interface SynthesisProgress {
+  // Share of the request that is done, 0-1
+  fraction: number;
+  // Character offset into the request text currently being spoken, when known
+  charIndex?: number;
+}
+
+export interface SynthesisRequest {
+  // Plain text; markup is never sent as SSML
+  text: string;
+  // Parsed editor markup for this text, for engines that apply prosody themselves
+  markup?: SpeechNode[];
+  settings: VoiceSettings;
+  // Pronunciation lexicons, for engines with the `lexicons` capability;
+  // other engines get text with the aliases already applied
+  lexicons?: Lexicon[];
+  // Language of the text (ISO 639-1) when it was detected; engines with
+  // per-language voices pick one that speaks it
+  lang?: string;
+  // Surrounding text when synthesizing one chunk of a longer script,
+  // so providers that support it can keep intonation continuous
+  previousText?: string;
+  nextText?: string;
+  // Aborting stops this request; the engine rejects with an AbortError
+  signal?: AbortSignal;
+  onProgress?: (progress: SynthesisProgress) => void;
+}
+
+export interface SynthesisResult {
+  audio: Blob | null;
+  duration: number;
+  voiceName?: string;
+}
+
+export interface SpeechEngine {
+  id: string;
+  name: string;
+  capabilities: EngineCapabilities;
+  isAvailable: () => boolean;
+  listVoices: () => Promise<EngineVoice[]>;
+  synthesize: (request: SynthesisRequest) => Promise<SynthesisResult>;
+  cancel: () => void;
+  // Engines that speak live can hold and continue the current utterance
+  pause?: () => void;
+  resume?: () => void;
+  // Engine configuration that changes the audio beyond the request itself
+  // (server, model, resolved voice id); part of the synthesis cache key
+  cacheVariant?: (settings: VoiceSettings) => string;
+}
+
+const engines = new Map<string, SpeechEngine>();
+let defaultEngineId: string | null = null;
+
+/**
+ * Register an engine; the first registered engine becomes the default
+ */
+export const registerEngine = (engine: SpeechEngine): void => {
+  engines.set(engine.id, engine);
+  if (!defaultEngineId) {
+    defaultEngineId = engine.id;
+  }
+};
+
+/**
+ * Make a registered engine the default selection
+ */
+export const setDefaultEngine = (engineId: string): void => {
+  if (!engines.has(engineId)) {
+    throw new Error(`Unknown speech engine: ${engineId}`);
+  }
+  defaultEngineId = engineId;
+};
+
+/**
+ * List all registered engines in registration order
+ */
+export const listEngines = (): SpeechEngine[] => {
+  return Array.from(engines.values());
+};
+
+/**
+ * Look up an engine by id
+ */
+export const getEngine = (engineId: string): SpeechEngine | undefined => {
+  return engines.get(engineId);
+};
+
+/**
+ * Resolve the engine to use: the requested one if available, else the default
+ */
+export const resolveEngine = (engineId?: string): SpeechEngine => {
+  const requested = engineId ? engines.get(engineId) : undefined;
+  if (requested && requested.isAvailable()) {
+    return requested;
+  }
+
+  const fallback = defaultEngineId ? engines.get(defaultEngineId) : undefined;
+  if (!fallback) {
+    throw new Error('No speech engine registered');
+  }
+  return fallback;
+};
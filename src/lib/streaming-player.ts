@@ -0,0 +1,242 @@
+/**
+ * Web Audio playback queue that starts playing while later chunks are still
+ * being synthesized. Chunks are laid out on a timeline and scheduled
+ * back to back; the seekable range grows as audio arrives.
+ */
+
+export interface StreamingPlayerState {
+  playing: boolean;
+  // Playback caught up with synthesis and is waiting for the next chunk
+  buffering: boolean;
+  currentTime: number;
+  bufferedDuration: number;
+  // No more chunks will arrive
+  complete: boolean;
+  ended: boolean;
+}
+
+export interface StreamingPlayer {
+  enqueue: (buffer: AudioBuffer, gapAfter?: number) => void;
+  finish: () => void;
+  // Drop all queued audio, e.g. when generation restarts on another engine
+  clear: () => void;
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  setVolume: (volume: number) => void;
+  getState: () => StreamingPlayerState;
+  subscribe: (listener: () => void) => () => void;
+  dispose: () => void;
+}
+
+interface Segment {
+  buffer: AudioBuffer;
+  offset: number;
+}
+
+// Small lead time so the first scheduled source isn't already late
+const SCHEDULE_AHEAD = 0.05;
+const TICK_MS = 100;
+
+/**
+ * Create a player; call from a user gesture so the AudioContext may start
+ */
+export const createStreamingPlayer = (): StreamingPlayer => {
+  const context = new AudioContext();
+  const gain = context.createGain();
+  gain.connect(context.destination);
+
+  const segments: Segment[] = [];
+  const listeners = new Set<() => void>();
+  let sources: AudioBufferSourceNode[] = [];
+  let bufferedDuration = 0;
+  let complete = false;
+  let playing = false;
+  let buffering = false;
+  let ended = false;
+  // Timeline position while stopped; while running, the anchor below is used
+  let position = 0;
+  let anchor: { contextTime: number; position: number } | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const currentTime = (): number => {
+    if (!anchor) return position;
+    const elapsed = Math.max(0, context.currentTime - anchor.contextTime);
+    return Math.min(bufferedDuration, anchor.position + elapsed);
+  };
+
+  const emit = () => {
+    listeners.forEach(listener => listener());
+  };
+
+  const scheduleSegment = (segment: Segment) => {
+    if (!anchor) return;
+
+    const segmentEnd = segment.offset + segment.buffer.duration;
+    const from = Math.max(segment.offset, anchor.position);
+    if (from >= segmentEnd) return;
+
+    const source = context.createBufferSource();
+    source.buffer = segment.buffer;
+    source.connect(gain);
+    const when = anchor.contextTime + (from - anchor.position);
+    // A chunk that arrives late starts mid-way so it stays aligned with the timeline
+    const lateBy = Math.max(0, context.currentTime - when);
+    source.start(Math.max(when, context.currentTime), from - segment.offset + lateBy);
+    sources.push(source);
+  };
+
+  const stopRunning = () => {
+    position = currentTime();
+    sources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Source already finished
+      }
+      source.disconnect();
+    });
+    sources = [];
+    anchor = null;
+  };
+
+  const tick = () => {
+    if (!anchor) return;
+
+    if (currentTime() >= bufferedDuration - 0.01) {
+      stopRunning();
+      if (complete) {
+        playing = false;
+        ended = true;
+        position = 0;
+      } else {
+        buffering = true;
+      }
+    }
+    emit();
+  };
+
+  const startRunning = () => {
+    anchor = { contextTime: context.currentTime + SCHEDULE_AHEAD, position };
+    segments.forEach(scheduleSegment);
+    if (!timer) {
+      timer = setInterval(tick, TICK_MS);
+    }
+  };
+
+  const enqueue = (buffer: AudioBuffer, gapAfter: number = 0) => {
+    const segment = { buffer, offset: bufferedDuration };
+    segments.push(segment);
+    bufferedDuration += buffer.duration + gapAfter;
+
+    if (anchor) {
+      scheduleSegment(segment);
+    } else if (playing && buffering) {
+      buffering = false;
+      startRunning();
+    }
+    emit();
+  };
+
+  const clear = () => {
+    stopRunning();
+    segments.length = 0;
+    bufferedDuration = 0;
+    position = 0;
+    complete = false;
+    ended = false;
+    // Keep the user's play intent; playback resumes when new audio arrives
+    buffering = playing;
+    emit();
+  };
+
+  const finish = () => {
+    complete = true;
+    emit();
+  };
+
+  const play = () => {
+    void context.resume();
+    playing = true;
+    ended = false;
+
+    if (position >= bufferedDuration - 0.01) {
+      if (complete) {
+        position = 0;
+      } else {
+        // Nothing to play yet; start as soon as the next chunk arrives
+        buffering = true;
+        emit();
+        return;
+      }
+    }
+
+    if (!anchor) {
+      startRunning();
+    }
+    emit();
+  };
+
+  const pause = () => {
+    playing = false;
+    buffering = false;
+    stopRunning();
+    emit();
+  };
+
+  const seek = (time: number) => {
+    const wasRunning = !!anchor;
+    stopRunning();
+    position = Math.max(0, Math.min(time, bufferedDuration));
+    ended = false;
+    if (wasRunning || (playing && buffering && position < bufferedDuration)) {
+      buffering = false;
+      startRunning();
+    }
+    emit();
+  };
+
+  const setVolume = (volume: number) => {
+    gain.gain.value = volume;
+  };
+
+  const getState = (): StreamingPlayerState => ({
+    playing,
+    buffering,
+    currentTime: currentTime(),
+    bufferedDuration,
+    complete,
+    ended,
+  });
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const dispose = () => {
+    stopRunning();
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+    listeners.clear();
+    void context.close();
+  };
+
+  return {
+    enqueue,
+    finish,
+    clear,
+    play,
+    pause,
+    seek,
+    setVolume,
+    getState,
+    subscribe,
+    dispose,
+  };
+};
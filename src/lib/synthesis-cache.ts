@@ -0,0 +1,205 @@
+/**
+ * Content-addressed cache of synthesized audio, persisted in IndexedDB.
+ * Entries are keyed by a SHA-256 of the cleaned text, engine and voice settings,
+ * so unchanged chunks of an edited script are reused.
+ */
+
+import type { SpeechEngine, SynthesisRequest, SynthesisResult } from '@/lib/speech-engine';
+import { cleanTextForTTS } from '@/lib/audio-utils';
+
+const DB_NAME = 'voicegen-cache';
+const STORE_NAME = 'audio';
+
+export const DEFAULT_CACHE_LIMIT_BYTES = 200 * 1024 * 1024;
+
+interface CacheEntry {
+  key: string;
+  audio: Blob;
+  duration: number;
+  size: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const isSupported = (): boolean => {
+  return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('lastAccess', 'lastAccess');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to try again (e.g. after the user frees up storage)
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+  const database = await openDatabase();
+  return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+};
+
+/**
+ * List entry keys and sizes, least recently used first
+ */
+const listEntriesByAge = async (): Promise<{ key: string; size: number }[]> => {
+  const index = (await getStore('readonly')).index('lastAccess');
+  return new Promise((resolve, reject) => {
+    const entries: { key: string; size: number }[] = [];
+    const request = index.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(entries);
+        return;
+      }
+      const { key, size } = cursor.value as CacheEntry;
+      entries.push({ key, size });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Cache key for one synthesis request
+ */
+export const getCacheKey = async (
+  engine: SpeechEngine,
+  { text, settings, lexicons = [], lang }: Pick<SynthesisRequest, 'text' | 'settings' | 'lexicons' | 'lang'>
+): Promise<string> => {
+  const material = JSON.stringify([
+    engine.id,
+    engine.cacheVariant?.(settings) ?? '',
+    cleanTextForTTS(text),
+    settings.voice,
+    settings.speed,
+    settings.pitch,
+    settings.stability,
+    settings.clarity,
+    // Lexicons the engine applies itself change the audio, not the text
+    lexicons.map(lexicon => [lexicon.alphabet, lexicon.entries]),
+    lang ?? '',
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCachedAudio = async (key: string): Promise<{ audio: Blob; duration: number } | null> => {
+  const store = await getStore('readwrite');
+  const entry = await promisifyRequest(store.get(key)) as CacheEntry | undefined;
+  if (!entry) return null;
+
+  // Touch the entry so eviction treats it as recently used
+  await promisifyRequest(store.put({ ...entry, lastAccess: Date.now() }));
+  return { audio: entry.audio, duration: entry.duration };
+};
+
+/**
+ * Drop least recently used entries until the cache fits in `maxBytes`
+ */
+const evict = async (maxBytes: number): Promise<void> => {
+  const entries = await listEntriesByAge();
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (total <= maxBytes) return;
+
+  const store = await getStore('readwrite');
+  for (const entry of entries) {
+    if (total <= maxBytes) break;
+    store.delete(entry.key);
+    total -= entry.size;
+  }
+  await new Promise<void>((resolve, reject) => {
+    store.transaction.oncomplete = () => resolve();
+    store.transaction.onerror = () => reject(store.transaction.error);
+  });
+};
+
+export const putCachedAudio = async (
+  key: string,
+  audio: Blob,
+  duration: number,
+  maxBytes: number = DEFAULT_CACHE_LIMIT_BYTES
+): Promise<void> => {
+  // A clip larger than the whole cache would only evict everything else
+  if (audio.size > maxBytes) return;
+
+  const entry: CacheEntry = { key, audio, duration, size: audio.size, lastAccess: Date.now() };
+  await promisifyRequest((await getStore('readwrite')).put(entry));
+  await evict(maxBytes);
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  if (!isSupported()) return { entries: 0, bytes: 0 };
+
+  const entries = await listEntriesByAge();
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+  };
+};
+
+export const clearSynthesisCache = async (): Promise<void> => {
+  if (!isSupported()) return;
+  await promisifyRequest((await getStore('readwrite')).clear());
+};
+
+/**
+ * Wrap an engine so audio it produces is stored, and repeated requests are
+ * answered from the cache. Cache failures fall through to real synthesis.
+ */
+export const createCachingEngine = (
+  engine: SpeechEngine,
+  options: { maxBytes?: number; onHit?: () => void } = {}
+): SpeechEngine => {
+  // Live-only engines have nothing to store
+  if (!engine.capabilities.producesAudio || !isSupported()) return engine;
+
+  const synthesize = async (request: SynthesisRequest): Promise<SynthesisResult> => {
+    let key: string | null = null;
+    try {
+      key = await getCacheKey(engine, request);
+      const cached = await getCachedAudio(key);
+      if (cached) {
+        options.onHit?.();
+        request.onProgress?.({ fraction: 1 });
+        return { audio: cached.audio, duration: cached.duration, voiceName: request.settings.voice };
+      }
+    } catch (error) {
+      console.warn('Synthesis cache unavailable:', error);
+    }
+
+    const result = await engine.synthesize(request);
+    if (key && result.audio) {
+      putCachedAudio(key, result.audio, result.duration, options.maxBytes).catch(error => {
+        console.warn('Could not store synthesized audio in cache:', error);
+      });
+    }
+    return result;
+  };
+
+  return { ...engine, synthesize };
+};
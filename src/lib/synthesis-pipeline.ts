@@ -0,0 +1,275 @@
+/**
+ * Generation pipeline: chunk long text, synthesize chunks in order, stitch the audio
+ */
+
+import type { SpeechEngine, VoiceSettings } from '@/lib/speech-engine';
+import type { GenerationControl } from '@/lib/generation-control';
+import { concatenateAudioBuffers, decodeAudioBlob, getChannels } from '@/lib/audio-utils';
+import { encodeWav } from '@/lib/encoders/wav';
+import { DEFAULT_CHUNK_CHARS, splitIntoChunks, type TextChunk } from '@/lib/text/chunker';
+import { mapMarkupText, parseMarkup, sliceMarkup, toPlainText, type SpeechNode } from '@/lib/text/markup';
+import { parseSSML, sliceSSML, ssmlToMarkup } from '@/lib/text/ssml';
+import { markdownToMarkup, type MarkdownReadingOptions } from '@/lib/text/markdown';
+import { normalizeText } from '@/lib/text/normalize';
+import { expandAbbreviations, type ExpansionOptions } from '@/lib/text/abbreviations';
+import { applyLexicons, type Lexicon } from '@/lib/text/lexicon';
+import { detectParagraphLanguages, languageAt } from '@/lib/text/language';
+
+// Silence inserted after a chunk that ends a paragraph (seconds)
+const PARAGRAPH_PAUSE = 0.4;
+
+// How the input text is written: editor markup (`*emphasis*` etc.), Markdown or hand-written SSML
+export type TextFormat = 'markup' | 'markdown' | 'ssml';
+
+export interface TextOptions {
+  // Defaults to editor markup
+  format?: TextFormat;
+  // Locale used to spell out numbers, dates and units; left as written without one
+  locale?: string;
+  // Abbreviations and acronyms to read out; left as written without
+  expansions?: ExpansionOptions;
+  // Pronunciation lexicons, in priority order
+  lexicons?: Lexicon[];
+  // Detect each paragraph's language so the engine can switch voices
+  detectLanguage?: boolean;
+  // How Markdown structure is read, in the Markdown format
+  markdown?: MarkdownReadingOptions;
+}
+
+interface PreparedChunk {
+  // What the engine is sent
+  plainText: string;
+  // The same text with its emphasis, slow spans and pauses, for engines that vary prosody per segment
+  markup: SpeechNode[];
+}
+
+export interface SynthesizedChunk {
+  text: string;
+  start: number;
+  end: number;
+  // Position of the chunk within the stitched audio (seconds)
+  offset: number;
+  duration: number;
+}
+
+export interface PipelineResult {
+  audio: Blob | null;
+  duration: number;
+  chunks: SynthesizedChunk[];
+}
+
+export interface PipelineProgress {
+  // Share of the whole text that is done, 0-1, weighted by characters
+  fraction: number;
+  // Character offset into the full text currently being spoken or synthesized
+  charIndex: number;
+}
+
+export interface PipelineCallbacks {
+  onChunkStart?: (index: number, total: number, chunk: TextChunk) => void;
+  onChunkComplete?: (index: number, total: number, chunk: SynthesizedChunk) => void;
+  // Decoded audio of each chunk as soon as it is ready, with the silence
+  // that follows it in the stitched result (used for streaming playback)
+  onChunkAudio?: (index: number, buffer: AudioBuffer, gapAfter: number) => void;
+  onProgress?: (progress: PipelineProgress) => void;
+}
+
+/**
+ * Thrown when a generation is cancelled; carries whatever was synthesized before
+ */
+export class GenerationCancelledError extends Error {
+  partial: PipelineResult | null;
+
+  constructor(partial: PipelineResult | null) {
+    super('Generation cancelled');
+    this.name = 'GenerationCancelledError';
+    this.partial = partial;
+  }
+}
+
+/**
+ * Stitch synthesized chunk audio into one result
+ */
+const assembleResult = (
+  buffers: AudioBuffer[],
+  gaps: number[],
+  chunks: SynthesizedChunk[],
+  singleClip: Blob | null,
+  duration: number
+): PipelineResult => {
+  if (buffers.length === 0) {
+    return { audio: null, duration, chunks };
+  }
+
+  // A single clip is kept as delivered rather than re-encoded
+  if (buffers.length === 1 && singleClip) {
+    return { audio: singleClip, duration: buffers[0].duration, chunks };
+  }
+
+  const stitched = concatenateAudioBuffers(buffers, gaps);
+  return {
+    audio: encodeWav(getChannels(stitched), stitched.sampleRate),
+    duration: stitched.duration,
+    chunks,
+  };
+};
+
+/**
+ * How a run of text is rewritten before it is spoken: lexicon aliases, then
+ * abbreviations, so "No. 5" becomes "number 5" and then "number five".
+ * Engines that apply lexicons themselves get the words as written.
+ */
+const textTransform = ({ locale, expansions, lexicons }: TextOptions, engineLexicons: boolean = false) => {
+  return (value: string): string => {
+    const aliased = lexicons && !engineLexicons ? applyLexicons(value, lexicons) : value;
+    const expanded = expansions ? expandAbbreviations(aliased, expansions) : aliased;
+    return locale ? normalizeText(expanded, locale) : expanded;
+  };
+};
+
+/**
+ * Parse editor markup or Markdown into the speech AST
+ */
+const parseText = (text: string, { format, markdown }: TextOptions): SpeechNode[] => {
+  return format === 'markdown' ? markdownToMarkup(text, markdown) : parseMarkup(text);
+};
+
+/**
+ * Render each chunk for the engine. The text is parsed once as a whole so
+ * spans crossing chunk boundaries keep their meaning. Hand-written SSML is
+ * reduced to the same speech AST as editor markup: no engine takes SSML.
+ */
+const prepareChunks = (
+  engine: SpeechEngine,
+  text: string,
+  textChunks: TextChunk[],
+  options: TextOptions
+): PreparedChunk[] => {
+  const transform = textTransform(options, engine.capabilities.lexicons);
+
+  if (options.format === 'ssml') {
+    const { nodes } = parseSSML(text);
+    return textChunks.map(chunk => {
+      const markup = mapMarkupText(ssmlToMarkup(sliceSSML(nodes, chunk.start, chunk.end)), transform);
+      return { plainText: toPlainText(markup), markup };
+    });
+  }
+
+  const nodes = parseText(text, options);
+  return textChunks.map(chunk => {
+    const markup = mapMarkupText(sliceMarkup(nodes, chunk.start, chunk.end), transform);
+    return { plainText: toPlainText(markup), markup };
+  });
+};
+
+/**
+ * The text as engines read it, e.g. for a preview
+ */
+export const getSpokenText = (text: string, options: TextOptions = {}): string => {
+  const markup = options.format === 'ssml' ? ssmlToMarkup(parseSSML(text).nodes) : parseText(text, options);
+  return toPlainText(mapMarkupText(markup, textTransform(options)));
+};
+
+/**
+ * Synthesize text of any length with the given engine. With a `control`,
+ * the generation can be paused between chunks or cancelled.
+ */
+export const synthesizeText = async (
+  engine: SpeechEngine,
+  text: string,
+  settings: VoiceSettings,
+  callbacks: PipelineCallbacks = {},
+  control?: GenerationControl,
+  options: TextOptions = {}
+): Promise<PipelineResult> => {
+  const maxChars = Math.min(engine.capabilities.maxChars ?? DEFAULT_CHUNK_CHARS, DEFAULT_CHUNK_CHARS);
+  const textChunks = splitIntoChunks(text, maxChars, options.expansions?.entries);
+  const prepared = prepareChunks(engine, text, textChunks, options);
+  const languages = options.detectLanguage ? detectParagraphLanguages(text) : [];
+  // Chunks with nothing to say, e.g. only tags, are skipped
+  const spoken = prepared.map(chunk => chunk.plainText.trim() !== '' || chunk.markup.some(node => node.type === 'pause'));
+  const lastSpoken = spoken.lastIndexOf(true);
+
+  const buffers: AudioBuffer[] = [];
+  const gaps: number[] = [];
+  const chunks: SynthesizedChunk[] = [];
+  let singleClip: Blob | null = null;
+  let offset = 0;
+
+  const totalChars = textChunks.reduce((sum, chunk) => sum + chunk.text.length, 0) || 1;
+  let doneChars = 0;
+
+  const cancelled = () => {
+    // The trailing pause belongs to a chunk that never arrived
+    const partialGaps = [...gaps.slice(0, buffers.length - 1), 0];
+    return new GenerationCancelledError(
+      chunks.length > 0 ? assembleResult(buffers, partialGaps, chunks, singleClip, offset) : null
+    );
+  };
+
+  for (let i = 0; i < textChunks.length; i++) {
+    const chunk = textChunks[i];
+
+    if (!spoken[i]) {
+      doneChars += chunk.text.length;
+      continue;
+    }
+
+    let result;
+    try {
+      await control?.waitWhilePaused();
+      callbacks.onChunkStart?.(i, textChunks.length, chunk);
+      callbacks.onProgress?.({ fraction: doneChars / totalChars, charIndex: chunk.start });
+
+      result = await engine.synthesize({
+        text: prepared[i].plainText,
+        markup: prepared[i].markup,
+        settings,
+        lexicons: engine.capabilities.lexicons ? options.lexicons : undefined,
+        lang: languageAt(languages, chunk.start),
+        previousText: prepared[i - 1]?.plainText,
+        nextText: prepared[i + 1]?.plainText,
+        signal: control?.signal,
+        onProgress: (progress) => {
+          callbacks.onProgress?.({
+            fraction: (doneChars + progress.fraction * chunk.text.length) / totalChars,
+            charIndex: chunk.start + (progress.charIndex ?? 0),
+          });
+        },
+      });
+    } catch (error) {
+      if (control?.signal.aborted) throw cancelled();
+      throw error;
+    }
+
+    const gap = engine.capabilities.producesAudio && chunk.paragraphEnd && i < lastSpoken
+      ? PARAGRAPH_PAUSE
+      : 0;
+    gaps.push(gap);
+
+    let duration = result.duration;
+    if (result.audio) {
+      singleClip = result.audio;
+      const buffer = await decodeAudioBlob(result.audio);
+      buffers.push(buffer);
+      duration = buffer.duration;
+      callbacks.onChunkAudio?.(i, buffer, gap);
+    }
+
+    const synthesized: SynthesizedChunk = {
+      text: chunk.text,
+      start: chunk.start,
+      end: chunk.end,
+      offset,
+      duration,
+    };
+    chunks.push(synthesized);
+    offset += duration + gap;
+    doneChars += chunk.text.length;
+    callbacks.onProgress?.({ fraction: doneChars / totalChars, charIndex: chunk.end });
+
+    callbacks.onChunkComplete?.(i, textChunks.length, synthesized);
+  }
+
+  return assembleResult(buffers, gaps, chunks, singleClip, offset);
+};
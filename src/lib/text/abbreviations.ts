@@ -0,0 +1,196 @@
+/**
+ * Abbreviation and acronym expansion. Entries say how a term is read:
+ * replaced by its expansion ("Dr." → "Doctor"), read as a word ("NASA"),
+ * or spelled out letter by letter ("API" → "A P I").
+ */
+
+export type ExpansionMode = 'expand' | 'word' | 'spell';
+
+export interface ExpansionEntry {
+  term: string;
+  mode: ExpansionMode;
+  // Replacement for 'expand'; optional pronunciation for 'word'
+  expansion?: string;
+  // Only use `expansion` in this context, otherwise `alternate` (or leave as written)
+  context?: 'before-name' | 'before-number';
+  alternate?: string;
+  // A title like "Dr." doesn't end a sentence, even before a capital, where its context fits
+  title?: boolean;
+}
+
+export interface ExpansionOptions {
+  // Earlier entries win when terms collide
+  entries: ExpansionEntry[];
+  // Guess how unknown all-caps words are read
+  autoAcronyms: boolean;
+}
+
+export const BUILTIN_EXPANSIONS: ExpansionEntry[] = [
+  { term: 'Mr.', mode: 'expand', expansion: 'Mister', title: true },
+  { term: 'Mrs.', mode: 'expand', expansion: 'Missus', title: true },
+  { term: 'Ms.', mode: 'expand', expansion: 'Miz', title: true },
+  { term: 'Dr.', mode: 'expand', expansion: 'Doctor', context: 'before-name', alternate: 'Drive', title: true },
+  { term: 'St.', mode: 'expand', expansion: 'Saint', context: 'before-name', alternate: 'Street', title: true },
+  { term: 'Prof.', mode: 'expand', expansion: 'Professor', title: true },
+  { term: 'Gen.', mode: 'expand', expansion: 'General', title: true },
+  { term: 'Capt.', mode: 'expand', expansion: 'Captain', title: true },
+  { term: 'Lt.', mode: 'expand', expansion: 'Lieutenant', title: true },
+  { term: 'Rev.', mode: 'expand', expansion: 'Reverend', title: true },
+  { term: 'Mt.', mode: 'expand', expansion: 'Mount', title: true },
+  { term: 'No.', mode: 'expand', expansion: 'number', context: 'before-number', title: true },
+  { term: 'vs.', mode: 'expand', expansion: 'versus', title: true },
+  { term: 'e.g.', mode: 'expand', expansion: 'for example', title: true },
+  { term: 'i.e.', mode: 'expand', expansion: 'that is', title: true },
+  { term: 'approx.', mode: 'expand', expansion: 'approximately', title: true },
+  { term: 'etc.', mode: 'expand', expansion: 'et cetera' },
+  { term: 'Jr.', mode: 'expand', expansion: 'Junior' },
+  { term: 'Sr.', mode: 'expand', expansion: 'Senior' },
+  { term: 'Ave.', mode: 'expand', expansion: 'Avenue' },
+  { term: 'Inc.', mode: 'expand', expansion: 'Incorporated' },
+  { term: 'Ltd.', mode: 'expand', expansion: 'Limited' },
+  { term: 'Corp.', mode: 'expand', expansion: 'Corporation' },
+  { term: 'Dept.', mode: 'expand', expansion: 'Department' },
+  { term: 'Jan.', mode: 'expand', expansion: 'January' },
+  { term: 'Feb.', mode: 'expand', expansion: 'February' },
+  { term: 'Aug.', mode: 'expand', expansion: 'August' },
+  { term: 'Sept.', mode: 'expand', expansion: 'September' },
+  { term: 'Oct.', mode: 'expand', expansion: 'October' },
+  { term: 'Nov.', mode: 'expand', expansion: 'November' },
+  { term: 'Dec.', mode: 'expand', expansion: 'December' },
+  { term: 'IEEE', mode: 'expand', expansion: 'I triple E' },
+  { term: 'NASA', mode: 'word' },
+  { term: 'NATO', mode: 'word' },
+  { term: 'JSON', mode: 'word', expansion: 'Jason' },
+  { term: 'API', mode: 'spell' },
+  { term: 'URL', mode: 'spell' },
+  { term: 'HTML', mode: 'spell' },
+  { term: 'CSS', mode: 'spell' },
+  { term: 'SQL', mode: 'spell' },
+  { term: 'CPU', mode: 'spell' },
+  { term: 'GPU', mode: 'spell' },
+  { term: 'USB', mode: 'spell' },
+  { term: 'PDF', mode: 'spell' },
+  { term: 'FAQ', mode: 'spell' },
+  { term: 'CEO', mode: 'spell' },
+  { term: 'AI', mode: 'spell' },
+  { term: 'UI', mode: 'spell' },
+];
+
+const VOWELS = /[AEIOUY]/;
+const ROMAN_NUMERAL = /^M{0,3}(CM|CD|D?C{0,3})(XC|XL|L?X{0,3})(IX|IV|V?I{0,3})$/;
+
+/**
+ * Whether `entry` reads as its expansion for the term from `start` to `end`:
+ * "St. Louis" is a saint but "Elm St. Then" a street, "No. 5" a number but
+ * "No. I stayed" not
+ */
+const fitsContext = (entry: ExpansionEntry, source: string, start: number, end: number): boolean => {
+  const next = source.slice(end).match(/^\s*(\S)/u)?.[1] ?? '';
+  switch (entry.context) {
+    case 'before-name':
+      return /\p{Lu}/u.test(next) && !/[\p{L},]\s+\p{Lu}[\p{L}'-]*\s+$/u.test(source.slice(0, start));
+    case 'before-number':
+      return /\d/.test(next);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Whether the sentence mark at `index` ends a sentence. Nothing does before a
+ * lowercase word ("Stop!" he said); a period also doesn't after an initial
+ * ("J.", "U.S."), before a digit, or after a title ("Dr.") used in its title
+ * context. `entries` are the dictionaries in use, built-ins included.
+ */
+export const isSentenceEnd = (text: string, index: number, entries: ExpansionEntry[] = BUILTIN_EXPANSIONS): boolean => {
+  const after = text.slice(index + 1).match(/^[.…"'”’»)\]]*\s*(\S)?/u)?.[1];
+  if (!after) return true;
+  if (/\p{Ll}/u.test(after)) return false;
+  if (text[index] !== '.') return true;
+  if (/\d/.test(after)) return false;
+
+  const token = text.slice(0, index + 1).match(/[\p{L}.]+$/u)?.[0] ?? '';
+  if (/^(?:\p{L}\.)+$/u.test(token)) return false;
+  const title = entries.find(entry => entry.title && entry.term.toLowerCase() === token.toLowerCase());
+  return !title || !fitsContext(title, text, index + 1 - token.length, index + 1);
+};
+
+const spell = (term: string): string => Array.from(term).join(' ');
+
+// "A P I's" rather than "A P Is", which engines read as the word "is"
+const spellPlural = (term: string, plural: string): string => `${spell(term)}${plural ? `'${plural}` : ''}`;
+
+// "NASA" → "Nasa", so engines don't spell it
+const asWord = (term: string): string => term.charAt(0) + term.slice(1).toLowerCase();
+
+/**
+ * How an all-caps word is probably read: short ones and ones without a
+ * pronounceable vowel pattern are spelled out ("FBI", "HTTP"), the rest are
+ * read as words ("UNESCO", "ASCII")
+ */
+export const guessAcronymMode = (term: string): 'word' | 'spell' => {
+  if (term.length <= 3 || !VOWELS.test(term)) return 'spell';
+  return /[^AEIOUY]{3}/.test(term) ? 'spell' : 'word';
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const read = (entry: ExpansionEntry, term: string): string => {
+  switch (entry.mode) {
+    case 'spell':
+      return spell(term);
+    case 'word':
+      return entry.expansion || asWord(term);
+    default:
+      return entry.expansion || term;
+  }
+};
+
+/**
+ * Replace dictionary terms (and, optionally, unknown acronyms) with how they
+ * should be read. A period that belonged to both the term and the sentence
+ * is kept.
+ */
+export const expandAbbreviations = (text: string, { entries, autoAcronyms }: ExpansionOptions): string => {
+  const byTerm = new Map<string, ExpansionEntry>();
+  for (const entry of entries) {
+    if (entry.term.trim() && !byTerm.has(entry.term)) byTerm.set(entry.term, entry);
+  }
+
+  let result = text;
+  if (byTerm.size > 0) {
+    const terms = [...byTerm.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+    // Acronyms may take a plural "s" ("APIs")
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}.])(${terms.join('|')})(s?)(?![\\p{L}\\p{N}])`, 'gu');
+
+    result = result.replace(pattern, (match, term: string, plural: string, offset: number, source: string) => {
+      const entry = byTerm.get(term)!;
+      if (plural && (entry.mode === 'expand' || term.endsWith('.'))) return match;
+
+      const next = source.slice(offset + match.length).match(/^\s*(\S)/u)?.[1] ?? '';
+      const fits = fitsContext(entry, source, offset, offset + term.length);
+      if (fits && entry.mode === 'spell') return spellPlural(term, plural);
+      const spoken = fits ? read(entry, term) : entry.alternate;
+      if (spoken === undefined) return match;
+
+      const isTitle = entry.title && fits;
+      const endsSentence = term.endsWith('.') && !isTitle && (!next || /[\p{Lu}"']/u.test(next));
+      return `${spoken}${plural}${endsSentence ? '.' : ''}`;
+    });
+  }
+
+  if (autoAcronyms) {
+    result = result.replace(/(?<![\p{L}\p{N}])([A-Z]{2,6})(s?)(?![\p{L}\p{N}])/gu, (match, term: string, plural: string, offset: number, source: string) => {
+      if (byTerm.has(term) || ROMAN_NUMERAL.test(term)) return match;
+
+      // Three or more all-caps words in a row are shouting, not acronyms
+      const before = source.slice(0, offset).match(/(?:\b[A-Z]{2,}\s+){0,2}$/)?.[0] ?? '';
+      const after = source.slice(offset + match.length).match(/^(?:\s+[A-Z]{2,}\b){0,2}/)?.[0] ?? '';
+      if (`${before}${match}${after}`.trim().split(/\s+/).length >= 3) return match;
+
+      return guessAcronymMode(term) === 'spell' ? spellPlural(term, plural) : `${asWord(term)}${plural}`;
+    });
+  }
+
+  return result;
+};
@@ -0,0 +1,121 @@
+/**
+ * Split long text into synthesis-sized chunks at natural boundaries
+ */
+
+import type { ExpansionEntry } from '@/lib/text/abbreviations';
+import { findSentence, segmentSentences } from '@/lib/text/segmenter';
+
+export interface TextChunk {
+  text: string;
+  // Character offsets into the original text
+  start: number;
+  end: number;
+  // Chunk ends a paragraph, so a longer pause should follow it
+  paragraphEnd: boolean;
+}
+
+export const DEFAULT_CHUNK_CHARS = 1000;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * Find spans matching `pattern` inside [start, end), trimmed of surrounding whitespace
+ */
+const splitSpan = (text: string, span: Span, pattern: RegExp): Span[] => {
+  const spans: Span[] = [];
+  const slice = text.slice(span.start, span.end);
+  let last = 0;
+
+  const push = (from: number, to: number) => {
+    const piece = slice.slice(from, to);
+    const leading = piece.length - piece.trimStart().length;
+    const trimmed = piece.trim();
+    if (trimmed) {
+      spans.push({ start: span.start + from + leading, end: span.start + from + leading + trimmed.length });
+    }
+  };
+
+  for (const match of slice.matchAll(pattern)) {
+    const boundary = match.index! + match[0].length;
+    push(last, boundary);
+    last = boundary;
+  }
+  push(last, slice.length);
+  return spans;
+};
+
+/**
+ * Break a span that is still too long at clause punctuation, then whitespace,
+ * and as a last resort at the hard limit
+ */
+const breakLongSpan = (text: string, span: Span, maxChars: number): Span[] => {
+  if (span.end - span.start <= maxChars) return [span];
+
+  const pieces: Span[] = [];
+  let start = span.start;
+  while (span.end - start > maxChars) {
+    const window = text.slice(start, start + maxChars);
+    let cut = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '), window.lastIndexOf(': '));
+    if (cut > maxChars / 2) {
+      cut += 1;
+    } else {
+      cut = window.lastIndexOf(' ');
+      if (cut < maxChars / 2) cut = maxChars;
+    }
+    pieces.push({ start, end: start + cut });
+    start += cut;
+    while (start < span.end && /\s/.test(text[start])) start++;
+  }
+  if (start < span.end) {
+    pieces.push({ start, end: span.end });
+  }
+  return pieces;
+};
+
+/**
+ * Split text into chunks of at most `maxChars`, preferring paragraph and
+ * sentence boundaries. Consecutive sentences are packed into one chunk.
+ */
+export const splitIntoChunks = (text: string, maxChars: number = DEFAULT_CHUNK_CHARS, entries?: ExpansionEntry[]): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  const paragraphs = splitSpan(text, { start: 0, end: text.length }, /\n\s*\n/g);
+
+  for (const paragraph of paragraphs) {
+    const sentences = segmentSentences(text, { ...paragraph, entries })
+      .flatMap(({ start, end }) => breakLongSpan(text, { start, end }, maxChars));
+
+    let current: Span | null = null;
+    for (const sentence of sentences) {
+      if (current && sentence.end - current.start <= maxChars) {
+        current.end = sentence.end;
+        continue;
+      }
+      if (current) {
+        chunks.push({ text: text.slice(current.start, current.end), ...current, paragraphEnd: false });
+      }
+      current = { ...sentence };
+    }
+    if (current) {
+      chunks.push({ text: text.slice(current.start, current.end), ...current, paragraphEnd: true });
+    }
+  }
+
+  return chunks;
+};
+
+/**
+ * Find the sentence containing character offset `index`
+ */
+export const findSentenceAt = (text: string, index: number, entries?: ExpansionEntry[]): TextChunk | null => {
+  const paragraphs = splitSpan(text, { start: 0, end: text.length }, /\n\s*\n/g);
+  for (const paragraph of paragraphs) {
+    if (index > paragraph.end) continue;
+
+    const sentence = findSentence(segmentSentences(text, { ...paragraph, entries }), index);
+    return sentence ? { ...sentence, paragraphEnd: sentence.end === paragraph.end } : null;
+  }
+  return null;
+};
@@ -0,0 +1,208 @@
+/**
+ * Offline language identification: the script decides where it is unique
+ * (Cyrillic, Greek, kana, Hangul...), otherwise letter trigrams and common
+ * words are compared with short samples of each language.
+ */
+
+export interface LanguageGuess {
+  // ISO 639-1 code, e.g. "de"
+  language: string;
+  // 0-1, how clearly the best guess beat the runner-up
+  confidence: number;
+}
+
+export interface LanguageSpan extends LanguageGuess {
+  // Character offsets of the paragraph in the source text
+  start: number;
+  end: number;
+}
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  fr: 'Français',
+  es: 'Español',
+  it: 'Italiano',
+  pt: 'Português',
+  nl: 'Nederlands',
+  pl: 'Polski',
+  ru: 'Русский',
+  el: 'Ελληνικά',
+  ar: 'العربية',
+  he: 'עברית',
+  hi: 'हिन्दी',
+  th: 'ไทย',
+  ja: '日本語',
+  zh: '中文',
+  ko: '한국어',
+};
+
+// Scripts used by a single language we know
+const SCRIPTS: [RegExp, string][] = [
+  // Kana before Han, which Japanese shares with Chinese
+  [/[\u3040-\u30ff]/g, 'ja'],
+  [/[\uac00-\ud7af\u1100-\u11ff]/g, 'ko'],
+  [/[\u4e00-\u9fff]/g, 'zh'],
+  [/[\u0400-\u04ff]/g, 'ru'],
+  [/[\u0370-\u03ff]/g, 'el'],
+  [/[\u0600-\u06ff]/g, 'ar'],
+  [/[\u0590-\u05ff]/g, 'he'],
+  [/[\u0900-\u097f]/g, 'hi'],
+  [/[\u0e00-\u0e7f]/g, 'th'],
+];
+
+// Everyday prose with the function words and endings that tell the languages apart
+const SAMPLES: Record<string, string> = {
+  en: `the quick brown fox jumps over the lazy dog. this is what we have been waiting for and they would
+    like to know which of them is the one. there are many things that you should think about when you
+    write something for other people, because it will be read with their own voice in their heads.
+    we were going through the house with all of our friends and nothing could have been better`,
+  de: `der schnelle braune fuchs springt über den faulen hund. das ist nicht das, worauf wir gewartet
+    haben, und sie möchten wissen, welcher von ihnen der richtige ist. es gibt viele dinge, an die man
+    denken sollte, wenn man etwas für andere menschen schreibt, weil sie es mit ihrer eigenen stimme
+    lesen werden. wir sind mit unseren freunden durch das haus gegangen und nichts war schöner`,
+  fr: `le renard brun rapide saute par-dessus le chien paresseux. c'est ce que nous attendions et ils
+    voudraient savoir lequel d'entre eux est le bon. il y a beaucoup de choses auxquelles il faut penser
+    quand on écrit quelque chose pour les autres, parce qu'ils le liront avec leur propre voix dans la
+    tête. nous avons traversé la maison avec tous nos amis et rien n'aurait pu être mieux`,
+  es: `el rápido zorro marrón salta sobre el perro perezoso. esto es lo que estábamos esperando y ellos
+    quieren saber cuál de ellos es el correcto. hay muchas cosas en las que se debe pensar cuando se
+    escribe algo para otras personas, porque lo leerán con su propia voz en la cabeza. fuimos por la
+    casa con todos nuestros amigos y nada podría haber sido mejor que eso`,
+  it: `la veloce volpe marrone salta sopra il cane pigro. questo è quello che stavamo aspettando e loro
+    vorrebbero sapere quale di loro è quello giusto. ci sono molte cose a cui bisogna pensare quando si
+    scrive qualcosa per gli altri, perché lo leggeranno con la propria voce nella testa. siamo andati
+    per la casa con tutti i nostri amici e niente sarebbe potuto essere migliore`,
+  pt: `a rápida raposa marrom pula sobre o cão preguiçoso. isto é o que estávamos esperando e eles
+    gostariam de saber qual deles é o certo. há muitas coisas em que você deve pensar quando escreve
+    algo para outras pessoas, porque elas vão ler com a própria voz na cabeça. nós andamos pela casa
+    com todos os nossos amigos e nada poderia ter sido melhor do que isso, não é`,
+  nl: `de snelle bruine vos springt over de luie hond. dit is waar we op hebben gewacht en zij willen
+    weten welke van hen de juiste is. er zijn veel dingen waar je aan moet denken als je iets schrijft
+    voor andere mensen, omdat zij het met hun eigen stem in hun hoofd zullen lezen. we zijn met al
+    onze vrienden door het huis gegaan en niets had beter kunnen zijn dan dat`,
+  pl: `szybki brązowy lis przeskakuje nad leniwym psem. na to właśnie czekaliśmy, a oni chcieliby
+    wiedzieć, który z nich jest właściwy. jest wiele rzeczy, o których trzeba pomyśleć, kiedy pisze się
+    coś dla innych ludzi, ponieważ przeczytają to własnym głosem w swojej głowie. przeszliśmy przez dom
+    ze wszystkimi naszymi przyjaciółmi i nic nie mogło być lepsze niż to`,
+};
+
+// The most frequent words, which settle short texts the trigrams can't
+const COMMON_WORDS: Record<string, string> = {
+  en: 'the of and to in is it you that he was for on are with as his they be at one have this from or had by but not what all were we when your can said there an which she do their if will our would about'
+    + ' them these so some her him into has more two like could no than been who its now my over did down only way',
+  de: 'der die und in den von zu das mit sich des auf für ist im dem nicht ein eine als auch es an werden aus er hat dass sie nach wird bei einer um am sind noch wie einem über einen so zum war haben nur oder aber vor zur bis'
+    + ' mehr durch man sein wurde sei ich wir ihr mein kann können ja nein heute',
+  fr: "de la le et les des en un du une que est pour qui dans par plus pas au sur ne se ce il sont avec ou son mais"
+    + " comme on tout nous sa elle leur ses à été aussi y bien fait où être avoir vous ces je cette très",
+  es: 'de la que el en y a los del se las por un para con no una su al es lo como más pero sus le ya o este sí porque esta entre cuando muy sin sobre también me hasta hay donde quien desde todo nos durante'
+    + ' estos yo ni contra ese eso ante ellos e esto mí antes algunos qué unos tú él',
+  it: 'di e il la che in a per un è non una sono del le si con da i al della lo gli come ma ci più anche nel se questo ha mi alla dei delle ne sul cosa tutto quando io mio molto lui lei noi voi loro'
+    + ' hanno essere stato fatto dove chi perché sono',
+  pt: 'de a o que e do da em um para é com não uma os no se na por mais as dos como mas foi ao ele das tem à seu sua ou ser quando muito há nos já está eu também só pelo pela até isso ela entre'
+    + ' era depois sem mesmo aos ter seus quem nas me esse eles você essa num nem suas meu às minha',
+  nl: 'de en van ik te dat die in een hij het niet zijn is was op aan met als voor had er maar om hem dan zou of wat mijn men dit zo door over ze zich bij ook tot je mij uit der daar haar naar heb hoe'
+    + ' heeft hebben deze u want nog zal me zij nu ge geen omdat iets worden toch al waren veel meer doen',
+  pl: 'i w nie na się z jest do to że o jak ale po co tak za od już jego go ja przez ten by czy tylko jej może są mnie było mi ty tym bo jeszcze także być ich dla oraz lub gdy który która które'
+    + ' bardzo był była można tu tego sobie nas pan pani',
+};
+
+const commonWords: Map<string, Set<string>> = new Map(
+  Object.entries(COMMON_WORDS).map(([language, words]) => [language, new Set(words.split(/\s+/).filter(Boolean))])
+);
+
+// Fewer letters than this can't be told apart reliably
+const MIN_LETTERS = 12;
+
+const trigrams = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  for (const word of words) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const gram = padded.slice(i, i + 3);
+      counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+  }
+  return counts;
+};
+
+const norm = (counts: Map<string, number>): number => {
+  let sum = 0;
+  counts.forEach(count => { sum += count * count; });
+  return Math.sqrt(sum);
+};
+
+interface Profile {
+  language: string;
+  counts: Map<string, number>;
+  norm: number;
+}
+
+let profiles: Profile[] | null = null;
+
+const getProfiles = (): Profile[] => {
+  profiles ??= Object.entries(SAMPLES).map(([language, sample]) => {
+    const counts = trigrams(sample);
+    return { language, counts, norm: norm(counts) };
+  });
+  return profiles;
+};
+
+/**
+ * Guess the language of `text`, or null when there is too little to go on
+ */
+export const detectLanguage = (text: string): LanguageGuess | null => {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters < MIN_LETTERS) return null;
+
+  // A script that belongs to one language settles it once it makes up a fair share
+  for (const [pattern, language] of SCRIPTS) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count / letters > 0.3) {
+      return { language, confidence: Math.min(1, count / letters + 0.2) };
+    }
+  }
+
+  const counts = trigrams(text);
+  const textNorm = norm(counts);
+  if (textNorm === 0) return null;
+
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  const scores = getProfiles().map(profile => {
+    let dot = 0;
+    counts.forEach((count, gram) => { dot += count * (profile.counts.get(gram) ?? 0); });
+    const common = commonWords.get(profile.language)!;
+    const hits = words.filter(word => common.has(word)).length;
+    return { language: profile.language, score: dot / (textNorm * profile.norm) + hits / words.length };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, second] = scores;
+  if (best.score === 0) return null;
+  return { language: best.language, confidence: (best.score - second.score) / best.score };
+};
+
+/**
+ * Detect the language of each paragraph. Paragraphs too short to tell
+ * (or too close to call) are left out, so callers fall back to their default.
+ */
+export const detectParagraphLanguages = (text: string, minConfidence: number = 0.1): LanguageSpan[] => {
+  const spans: LanguageSpan[] = [];
+  for (const match of text.matchAll(/[^\n]+(?:\n(?![ \t]*\n)[^\n]*)*/g)) {
+    const paragraph = match[0];
+    const guess = detectLanguage(paragraph);
+    if (!guess || guess.confidence < minConfidence) continue;
+
+    const leading = paragraph.length - paragraph.trimStart().length;
+    const start = match.index! + leading;
+    spans.push({ ...guess, start, end: start + paragraph.trim().length });
+  }
+  return spans;
+};
+
+/**
+ * The detected language at character offset `index`, if any
+ */
+export const languageAt = (spans: LanguageSpan[], index: number): string | undefined => {
+  return spans.find(span => index >= span.start && index < span.end)?.language;
+};
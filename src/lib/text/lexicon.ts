@@ -0,0 +1,147 @@
+/**
+ * Pronunciation lexicons: words read as an alias or a phoneme string,
+ * stored and exchanged as W3C PLS (Pronunciation Lexicon Specification) files
+ */
+
+export type PhoneticAlphabet = 'ipa' | 'x-sampa' | 'cmu-arpabet';
+
+export const PHONETIC_ALPHABETS: PhoneticAlphabet[] = ['ipa', 'x-sampa', 'cmu-arpabet'];
+
+export interface LexiconEntry {
+  // Spellings this entry applies to
+  graphemes: string[];
+  // Read as this text instead
+  alias?: string;
+  // Pronunciation in the lexicon's alphabet; needs an engine with lexicon support
+  phoneme?: string;
+}
+
+export interface Lexicon {
+  id: string;
+  name: string;
+  locale: string;
+  alphabet: PhoneticAlphabet;
+  entries: LexiconEntry[];
+}
+
+const PLS_NAMESPACE = 'http://www.w3.org/2005/01/pronunciation-lexicon';
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+const decodeEntities = (text: string): string => {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (match, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(Number(name.slice(1)));
+    return ENTITIES[name] ?? match;
+  });
+};
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const readAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+};
+
+// Text content of every `<name>` element directly in `source`
+const readElements = (source: string, name: string): string[] => {
+  const pattern = new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`, 'g');
+  return Array.from(source.matchAll(pattern), match => decodeEntities(match[1]).trim()).filter(Boolean);
+};
+
+/**
+ * Read a PLS document. Throws when it isn't one; lexemes without a grapheme
+ * or without a pronunciation are skipped.
+ */
+export const parsePLS = (source: string, name: string = 'Imported lexicon'): Lexicon => {
+  const content = source.replace(/<!--[\s\S]*?-->/g, '');
+  const root = content.match(/<lexicon\b([^>]*)>([\s\S]*)<\/lexicon>/);
+  if (!root) {
+    throw new Error('Not a pronunciation lexicon: no <lexicon> element found');
+  }
+
+  const attributes = readAttributes(root[1]);
+  const alphabet = (attributes.alphabet || 'ipa').toLowerCase() as PhoneticAlphabet;
+  if (!PHONETIC_ALPHABETS.includes(alphabet)) {
+    throw new Error(`Unsupported phonetic alphabet "${attributes.alphabet}"`);
+  }
+
+  const entries: LexiconEntry[] = [];
+  for (const [, lexeme] of root[2].matchAll(/<lexeme\b[^>]*>([\s\S]*?)<\/lexeme>/g)) {
+    const graphemes = readElements(lexeme, 'grapheme');
+    const [phoneme] = readElements(lexeme, 'phoneme');
+    const [alias] = readElements(lexeme, 'alias');
+    if (graphemes.length === 0 || (!phoneme && !alias)) continue;
+    entries.push({ graphemes, ...(alias && { alias }), ...(phoneme && { phoneme }) });
+  }
+
+  return {
+    id: `lexicon-${crypto.randomUUID()}`,
+    name,
+    locale: attributes['xml:lang'] || 'en-US',
+    alphabet,
+    entries,
+  };
+};
+
+/**
+ * Write a lexicon as a PLS 1.0 document
+ */
+export const serializePLS = (lexicon: Lexicon): string => {
+  const lexemes = lexicon.entries
+    .filter(entry => entry.graphemes.length > 0 && (entry.alias || entry.phoneme))
+    .map(entry => [
+      '  <lexeme>',
+      ...entry.graphemes.map(grapheme => `    <grapheme>${escapeXml(grapheme)}</grapheme>`),
+      ...(entry.phoneme ? [`    <phoneme>${escapeXml(entry.phoneme)}</phoneme>`] : []),
+      ...(entry.alias ? [`    <alias>${escapeXml(entry.alias)}</alias>`] : []),
+      '  </lexeme>',
+    ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<lexicon version="1.0" xmlns="${PLS_NAMESPACE}" alphabet="${lexicon.alphabet}" xml:lang="${escapeXml(lexicon.locale)}">`,
+    ...lexemes,
+    '</lexicon>',
+    '',
+  ].join('\n');
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replace words that have an alias, for engines that can't apply a lexicon
+ * themselves. Phoneme-only entries need engine support and are left as written.
+ * Earlier lexicons win when spellings collide.
+ */
+export const applyLexicons = (text: string, lexicons: Lexicon[]): string => {
+  const aliases = new Map<string, string>();
+  for (const lexicon of lexicons) {
+    for (const entry of lexicon.entries) {
+      if (!entry.alias) continue;
+      for (const grapheme of entry.graphemes) {
+        if (grapheme.trim() && !aliases.has(grapheme)) aliases.set(grapheme, entry.alias);
+      }
+    }
+  }
+  if (aliases.size === 0) return text;
+
+  const graphemes = [...aliases.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${graphemes.join('|')})(?![\\p{L}\\p{N}])`, 'gu');
+  return text.replace(pattern, match => aliases.get(match)!);
+};
@@ -0,0 +1,336 @@
+/**
+ * Script checks run before generating: spots text that engines tend to read
+ * badly and suggests a replacement for each finding
+ */
+
+import type { TextFormat } from '@/lib/synthesis-pipeline';
+import { BUILTIN_EXPANSIONS, type ExpansionOptions } from '@/lib/text/abbreviations';
+import { getNormalizationLocale } from '@/lib/text/locales';
+import { findSentence, segmentSentences } from '@/lib/text/segmenter';
+
+export type LintRule = 'long-sentence' | 'url' | 'email' | 'emoji' | 'slow-tag' | 'all-caps' | 'symbol' | 'abbreviation';
+
+export const LINT_RULE_LABELS: Record<LintRule, string> = {
+  'long-sentence': 'Long sentence',
+  'url': 'URL',
+  'email': 'Email',
+  'emoji': 'Emoji',
+  'slow-tag': '[slow]',
+  'all-caps': 'All caps',
+  'symbol': 'Symbol',
+  'abbreviation': 'Abbreviation',
+};
+
+export interface LintFix {
+  label: string;
+  // Source range replaced, which may differ from the finding's (e.g. a closing tag inserted later)
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+export interface LintFinding {
+  rule: LintRule;
+  message: string;
+  start: number;
+  end: number;
+  fixes: LintFix[];
+}
+
+export interface LintOptions {
+  format?: TextFormat;
+  // Numbers, currency and units next to digits are spelled out for this locale
+  locale?: string;
+  // Terms read from the abbreviation dictionaries aren't flagged
+  expansions?: ExpansionOptions;
+}
+
+// Sentences longer than this are hard to voice in one breath
+export const LONG_SENTENCE_WORDS = 35;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>()[\]]+[^\s<>()[\].,;:!?'"]/gi;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}(?:\uFE0F|\u200D\p{Extended_Pictographic}|[\u{1F3FB}-\u{1F3FF}])*/gu;
+const SLOW_TAG_PATTERN = /\[(\/?)slow\]/gi;
+const CAPS_RUN_PATTERN = /(?<![\p{L}\p{N}])\p{Lu}{2,}(?:[\s,]+\p{Lu}{2,})*(?![\p{L}\p{N}])/gu;
+const ABBREVIATION_PATTERN = /(?<![\p{L}.])((?:\p{L}{1,5}\.)+)(?=\s+(\S))/gu;
+const SYMBOL_PATTERN = /[&@#%+=~<>©®™§°→×÷|•]/g;
+
+// Symbols the normalizer already reads when they touch a number
+const NUMERIC_SYMBOLS = new Set(['%', '+', '°']);
+
+// Auto acronyms read words of up to this many letters
+const AUTO_ACRONYM_LETTERS = 6;
+
+const spell = (word: string): string => Array.from(word).join(' ');
+
+const sentenceCase = (text: string): string => text.charAt(0) + text.slice(1).toLowerCase();
+
+/**
+ * Whether a word with a period is probably abbreviated rather than ending a
+ * sentence: a lowercase word follows, it has periods inside ("e.g."), or it
+ * has no vowel ("Blvd."). A digit after it says nothing ("two cats. 5 of").
+ */
+const looksAbbreviated = (term: string, next: string): boolean => {
+  const letters = term.slice(0, -1);
+  if (/\p{Ll}/u.test(next) || letters.includes('.')) return true;
+  // A lone capital is an initial or "plan B."
+  return letters.length > 1 && !/[aeiouy]/i.test(letters.normalize('NFD'));
+};
+
+/** Spoken words for symbols; the locale's words where it has them */
+const symbolWords = (locale?: string): Record<string, string> => {
+  const words = locale ? getNormalizationLocale(locale).words : null;
+  return {
+    '&': words?.and ?? 'and',
+    '@': 'at',
+    '#': 'number',
+    '%': words?.percent ?? 'percent',
+    '+': words?.plus ?? 'plus',
+    '=': 'equals',
+    '~': 'about',
+    '<': 'less than',
+    '>': 'greater than',
+    '©': 'copyright',
+    '®': 'registered',
+    '™': 'trademark',
+    '§': 'section',
+    '°': 'degrees',
+    '→': 'to',
+    '×': 'times',
+    '÷': 'divided by',
+    '|': '',
+    '•': '',
+  };
+};
+
+/**
+ * Range of a removed word, with one of the spaces around it when it stands
+ * alone; "more. [slow]Take" and "Hi 👋there" keep theirs
+ */
+const removalRange = (text: string, start: number, end: number): { start: number; end: number } => {
+  const spaced = (start === 0 || /\s/.test(text[start - 1])) && (end === text.length || /\s/.test(text[end]));
+  if (!spaced) return { start, end };
+  if (text[end] === ' ') return { start, end: end + 1 };
+  if (text[start - 1] === ' ') return { start: start - 1, end };
+  return { start, end };
+};
+
+const remove = (text: string, start: number, end: number): LintFix => ({ label: 'Remove', replacement: '', ...removalRange(text, start, end) });
+
+/** Where a long sentence could be split: the clause break nearest its middle */
+const splitPoint = (text: string, start: number, end: number): LintFix | null => {
+  const sentence = text.slice(start, end);
+  const middle = sentence.length / 2;
+  let best: { index: number; length: number } | null = null;
+  for (const match of sentence.matchAll(/[,;:]\s+(?=\p{L})|\s+[—–]\s+(?=\p{L})/gu)) {
+    const before = sentence.slice(0, match.index).split(/\s+/).length;
+    const after = sentence.slice(match.index! + match[0].length).split(/\s+/).length;
+    if (before < 5 || after < 5) continue;
+    if (!best || Math.abs(match.index! - middle) < Math.abs(best.index - middle)) {
+      best = { index: match.index!, length: match[0].length };
+    }
+  }
+  if (!best) return null;
+
+  const next = start + best.index + best.length;
+  return { label: 'Split', start: start + best.index, end: next + 1, replacement: `. ${text[next].toUpperCase()}` };
+};
+
+/**
+ * Find likely speech problems in a script. SSML has its own validation and
+ * isn't checked.
+ */
+export const lintScript = (text: string, { format = 'markup', locale, expansions }: LintOptions = {}): LintFinding[] => {
+  if (format === 'ssml') return [];
+
+  const findings: LintFinding[] = [];
+  const markdown = format === 'markdown';
+  const entries = expansions?.entries ?? BUILTIN_EXPANSIONS;
+  const knownTerms = new Set(entries.map(entry => entry.term.toLowerCase()));
+  const sentences = segmentSentences(text, { locale, entries });
+
+  for (const sentence of sentences) {
+    const words = sentence.text.split(/\s+/).filter(Boolean).length;
+    if (words > LONG_SENTENCE_WORDS) {
+      const split = splitPoint(text, sentence.start, sentence.end);
+      findings.push({
+        rule: 'long-sentence',
+        message: `${words} words in one sentence; the voice may rush or lose intonation`,
+        start: sentence.start,
+        end: sentence.end,
+        fixes: split ? [split] : [],
+      });
+    }
+  }
+
+  // Emails and URLs, whose symbols are reported with them
+  const addresses: { start: number; end: number }[] = [];
+  const inAddress = (start: number, end: number) => addresses.some(address => start < address.end && end > address.start);
+
+  for (const match of text.matchAll(EMAIL_PATTERN)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    addresses.push({ start, end });
+    const [name, domain] = match[0].split('@');
+    findings.push({
+      rule: 'email',
+      message: `"${match[0]}" will be read character by character or skipped`,
+      start,
+      end,
+      fixes: [
+        { label: 'Spell out', start, end, replacement: `${name.replace(/\./g, ' dot ')} at ${domain.replace(/\./g, ' dot ')}` },
+        remove(text, start, end),
+      ],
+    });
+  }
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (inAddress(start, end)) continue;
+    addresses.push({ start, end });
+    // Markdown link targets aren't read
+    if (markdown && text.slice(start - 2, start) === '](') continue;
+
+    const domain = match[0].replace(/^(?:https?:\/\/)?(?:www\.)?/i, '').split(/[/?#]/)[0];
+    findings.push({
+      rule: 'url',
+      message: 'Raw URLs are read out symbol by symbol',
+      start,
+      end,
+      fixes: [
+        { label: 'Domain only', start, end, replacement: domain },
+        { label: 'Read slowly', start, end, replacement: `[slow]${match[0]}[/slow]` },
+        remove(text, start, end),
+      ],
+    });
+  }
+
+  for (const match of text.matchAll(EMOJI_PATTERN)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    findings.push({
+      rule: 'emoji',
+      message: 'Emoji are read by name or skipped, depending on the engine',
+      start,
+      end,
+      fixes: [remove(text, start, end)],
+    });
+  }
+
+  const openTags: { start: number; end: number }[] = [];
+  for (const match of text.matchAll(SLOW_TAG_PATTERN)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (!match[1]) {
+      openTags.push({ start, end });
+    } else if (!openTags.pop()) {
+      findings.push({
+        rule: 'slow-tag',
+        message: '[/slow] has no matching [slow]',
+        start,
+        end,
+        fixes: [remove(text, start, end)],
+      });
+    }
+  }
+  for (const tag of openTags) {
+    const sentenceEnd = findSentence(sentences, tag.end)?.end ?? text.length;
+    findings.push({
+      rule: 'slow-tag',
+      message: '[slow] is never closed, so everything after it is slowed down',
+      start: tag.start,
+      end: tag.end,
+      fixes: [
+        { label: 'Close at sentence end', start: sentenceEnd, end: sentenceEnd, replacement: '[/slow]' },
+        remove(text, tag.start, tag.end),
+      ],
+    });
+  }
+
+  for (const match of text.matchAll(CAPS_RUN_PATTERN)) {
+    const start = match.index!;
+    const run = match[0];
+    const words = run.split(/[\s,]+/);
+
+    if (words.length >= 3) {
+      findings.push({
+        rule: 'all-caps',
+        message: 'Text in capitals may be spelled out or shouted',
+        start,
+        end: start + run.length,
+        fixes: [{ label: 'Sentence case', start, end: start + run.length, replacement: sentenceCase(run) }],
+      });
+      continue;
+    }
+
+    for (const word of run.matchAll(/\p{Lu}+/gu)) {
+      const term = word[0];
+      if (term.length < 4 || knownTerms.has(term.toLowerCase())) continue;
+      if (expansions?.autoAcronyms && term.length <= AUTO_ACRONYM_LETTERS) continue;
+
+      const wordStart = start + word.index!;
+      const wordEnd = wordStart + term.length;
+      findings.push({
+        rule: 'all-caps',
+        message: `"${term}" may be spelled out letter by letter`,
+        start: wordStart,
+        end: wordEnd,
+        fixes: [
+          { label: 'Read as word', start: wordStart, end: wordEnd, replacement: sentenceCase(term) },
+          { label: 'Spell out', start: wordStart, end: wordEnd, replacement: spell(term) },
+        ],
+      });
+    }
+  }
+
+  const words = symbolWords(locale);
+  for (const match of text.matchAll(SYMBOL_PATTERN)) {
+    const symbol = match[0];
+    const start = match.index!;
+    const end = start + 1;
+    const lineStart = /(^|\n)\s*$/.test(text.slice(0, start));
+
+    if (inAddress(start, end)) continue;
+    // Markdown syntax, and the editor's own markup
+    if (markdown && (symbol === '|' || ((symbol === '#' || symbol === '>') && lineStart))) continue;
+    if (symbol === '•' && lineStart) continue;
+    if (locale && NUMERIC_SYMBOLS.has(symbol) && (/\d/.test(text[start - 1] ?? '') || /\d/.test(text[end] ?? ''))) continue;
+
+    const word = words[symbol];
+    // Keep the word apart from its neighbours: "R&D" → "R and D", "#1" → "number 1"
+    const before = /\s/.test(text[start - 1] ?? ' ') ? '' : ' ';
+    const after = /\s/.test(text[end] ?? ' ') ? '' : ' ';
+    const fix = word
+      ? { label: `Say "${word}"`, start, end, replacement: `${before}${word}${after}` }
+      : remove(text, start, end);
+    findings.push({
+      rule: 'symbol',
+      message: `"${symbol}" may be skipped or read differently by each engine`,
+      start,
+      end,
+      fixes: [fix],
+    });
+  }
+
+  for (const match of text.matchAll(ABBREVIATION_PATTERN)) {
+    const term = match[1];
+    if (knownTerms.has(term.toLowerCase()) || !looksAbbreviated(term, match[2])) continue;
+
+    const start = match.index!;
+    const end = start + term.length;
+    const periods = term.split('.').length - 1;
+    findings.push({
+      rule: 'abbreviation',
+      message: `"${term}" isn't in an abbreviation dictionary, so it is read as written`,
+      start,
+      end,
+      fixes: [periods > 1
+        ? { label: 'Remove periods', start, end, replacement: term.replaceAll('.', '') }
+        : { label: 'Remove period', start: end - 1, end, replacement: '' }],
+    });
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+};
@@ -0,0 +1,167 @@
+/**
+ * German number, date and unit wording
+ */
+
+import type { NormalizationLocale, NounForms } from '@/lib/text/locales/types';
+
+const ONES = [
+  'null', 'eins', 'zwei', 'drei', 'vier', 'fünf', 'sechs', 'sieben', 'acht', 'neun',
+  'zehn', 'elf', 'zwölf', 'dreizehn', 'vierzehn', 'fünfzehn', 'sechzehn', 'siebzehn', 'achtzehn', 'neunzehn',
+];
+const TENS = ['', '', 'zwanzig', 'dreißig', 'vierzig', 'fünfzig', 'sechzig', 'siebzig', 'achtzig', 'neunzig'];
+// Scales from a million up are separate, inflected nouns
+const LARGE_SCALES: [number, NounForms][] = [
+  [1e12, ['Billion', 'Billionen']],
+  [1e9, ['Milliarde', 'Milliarden']],
+  [1e6, ['Million', 'Millionen']],
+];
+const MONTHS = [
+  'Januar', 'Februar', 'März', 'April', 'Mai', 'Juni',
+  'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember',
+];
+const SMALL_ORDINALS: Record<number, string> = {
+  1: 'erste',
+  3: 'dritte',
+  7: 'siebte',
+  8: 'achte',
+};
+
+// "ein" inside compounds ("einundzwanzig", "einhundert"), "eins" on its own
+const compoundOne = (words: string): string => words.replace(/eins$/, 'ein');
+
+const belowHundred = (n: number): string => {
+  if (n < 20) return ONES[n];
+  const ones = n % 10;
+  return ones === 0 ? TENS[n / 10] : `${compoundOne(ONES[ones])}und${TENS[Math.floor(n / 10)]}`;
+};
+
+const belowThousand = (n: number): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (hundreds === 0) return belowHundred(rest);
+  return `${compoundOne(ONES[hundreds])}hundert${rest > 0 ? belowHundred(rest) : ''}`;
+};
+
+const belowMillion = (n: number): string => {
+  const thousands = Math.floor(n / 1000);
+  const rest = n % 1000;
+  if (thousands === 0) return belowThousand(rest);
+  return `${compoundOne(belowThousand(thousands))}tausend${rest > 0 ? belowThousand(rest) : ''}`;
+};
+
+const cardinal = (n: number): string => {
+  const parts: string[] = [];
+  let rest = n;
+  for (const [scale, [one, other]] of LARGE_SCALES) {
+    if (rest >= scale) {
+      const count = Math.floor(rest / scale);
+      parts.push(count === 1 ? `eine ${one}` : `${belowMillion(count)} ${other}`);
+      rest %= scale;
+    }
+  }
+  if (rest > 0 || parts.length === 0) {
+    parts.push(belowMillion(rest));
+  }
+  return parts.join(' ');
+};
+
+const ordinal = (n: number): string => {
+  const rest = n % 100;
+  // Ordinals below 20 end in -te, the rest in -ste
+  if (rest > 0 && rest < 20) {
+    const stem = n - rest > 0 ? cardinal(n - rest) : '';
+    return `${stem}${SMALL_ORDINALS[rest] ?? `${ONES[rest]}te`}`;
+  }
+  return `${cardinal(n)}ste`;
+};
+
+// Fraction nouns: "Drittel", "Viertel", "Zwanzigstel"
+const fractionNoun = (n: number): string => {
+  const stem = n === 3 ? 'drit' : n === 7 ? 'sieb' : n === 8 ? 'ach' : n < 20 ? ONES[n] : `${cardinal(n)}s`;
+  return `${stem.charAt(0).toUpperCase()}${stem.slice(1)}tel`;
+};
+
+// "ein halb", "drei halbe", "zwei Drittel"
+const fraction = (numerator: number, denominator: number): string => {
+  const count = numerator === 1 ? 'ein' : cardinal(numerator);
+  if (denominator === 2) return `${count} ${numerator === 1 ? 'halb' : 'halbe'}`;
+  return `${count} ${fractionNoun(denominator)}`;
+};
+
+// 1100-1999 are read in hundreds ("neunzehnhundertneunundneunzig")
+const year = (n: number): string => {
+  if (n >= 1100 && n < 2000) {
+    const rest = n % 100;
+    return `${ONES[Math.floor(n / 100)]}hundert${rest > 0 ? belowHundred(rest) : ''}`;
+  }
+  return cardinal(n);
+};
+
+const units: Record<string, NounForms> = {
+  'km': ['Kilometer', 'Kilometer'],
+  'm': ['Meter', 'Meter'],
+  'cm': ['Zentimeter', 'Zentimeter'],
+  'mm': ['Millimeter', 'Millimeter'],
+  'kg': ['Kilogramm', 'Kilogramm'],
+  'g': ['Gramm', 'Gramm'],
+  'mg': ['Milligramm', 'Milligramm'],
+  'l': ['Liter', 'Liter'],
+  'ml': ['Milliliter', 'Milliliter'],
+  'km/h': ['Kilometer pro Stunde', 'Kilometer pro Stunde'],
+  'mph': ['Meile pro Stunde', 'Meilen pro Stunde'],
+  '°C': ['Grad Celsius', 'Grad Celsius'],
+  '°F': ['Grad Fahrenheit', 'Grad Fahrenheit'],
+  'KB': ['Kilobyte', 'Kilobyte'],
+  'MB': ['Megabyte', 'Megabyte'],
+  'GB': ['Gigabyte', 'Gigabyte'],
+  'TB': ['Terabyte', 'Terabyte'],
+  's': ['Sekunde', 'Sekunden'],
+  'min': ['Minute', 'Minuten'],
+  'h': ['Stunde', 'Stunden'],
+};
+
+export const german: NormalizationLocale = {
+  tag: 'de-DE',
+  name: 'Deutsch',
+  decimalSeparator: ',',
+  groupSeparator: '\\.',
+  dateOrder: 'dmy',
+  cardinal,
+  ordinal,
+  count: (n, [one, other]) => n === 1 ? `ein ${one}` : `${cardinal(n)} ${other}`,
+  fraction,
+  year,
+  yearPrepositions: ['seit', 'bis', 'von', 'vor', 'nach', 'ab', 'im Jahr'],
+  // Dative, as in "am dritten April"
+  date: (day, month, yearNumber) => {
+    const date = `${ordinal(day)}n ${MONTHS[month - 1]}`;
+    return yearNumber === null ? date : `${date} ${year(yearNumber)}`;
+  },
+  time: (hours, minutes, meridiem) => {
+    const hour = meridiem === 'pm' && hours < 12 ? hours + 12 : hours;
+    const hourWords = hour === 1 ? 'ein' : cardinal(hour);
+    return minutes === 0 ? `${hourWords} Uhr` : `${hourWords} Uhr ${cardinal(minutes)}`;
+  },
+  decimalStyle: 'digits',
+  words: {
+    point: 'Komma',
+    minus: 'minus',
+    plus: 'plus',
+    percent: 'Prozent',
+    and: 'und',
+    per: 'pro',
+  },
+  currencies: {
+    USD: { major: ['Dollar', 'Dollar'], minor: ['Cent', 'Cent'] },
+    EUR: { major: ['Euro', 'Euro'], minor: ['Cent', 'Cent'] },
+    GBP: { major: ['Pfund', 'Pfund'], minor: ['Penny', 'Pence'] },
+    JPY: { major: ['Yen', 'Yen'] },
+  },
+  units,
+  writtenOrdinals: {
+    // "3." is only an ordinal when a month follows; otherwise it ends a sentence
+    pattern: new RegExp(`\\b(\\d{1,2})\\.(?=\\s+(?:${MONTHS.join('|')})\\b)`, 'g'),
+    // Dative, as in "am dritten April"
+    read: (n) => `${ordinal(n)}n`,
+  },
+};
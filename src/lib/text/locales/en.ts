@@ -0,0 +1,211 @@
+/**
+ * English number, date and unit wording (US and UK)
+ */
+
+import type { NormalizationLocale, NounForms } from '@/lib/text/locales/types';
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES: [number, string][] = [
+  [1e12, 'trillion'],
+  [1e9, 'billion'],
+  [1e6, 'million'],
+  [1e3, 'thousand'],
+];
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth',
+};
+
+/**
+ * Cardinal numbers; British English puts "and" before the last tens and units
+ */
+const createCardinal = (british: boolean) => {
+  const belowHundred = (n: number): string => {
+    if (n < 20) return ONES[n];
+    return n % 10 === 0 ? TENS[n / 10] : `${TENS[Math.floor(n / 10)]}-${ONES[n % 10]}`;
+  };
+
+  const belowThousand = (n: number): string => {
+    const hundreds = Math.floor(n / 100);
+    const rest = n % 100;
+    if (hundreds === 0) return belowHundred(rest);
+    if (rest === 0) return `${ONES[hundreds]} hundred`;
+    return `${ONES[hundreds]} hundred ${british ? 'and ' : ''}${belowHundred(rest)}`;
+  };
+
+  const cardinal = (n: number): string => {
+    if (n === 0) return ONES[0];
+
+    const parts: string[] = [];
+    let rest = n;
+    for (const [scale, name] of SCALES) {
+      if (rest >= scale) {
+        parts.push(`${cardinal(Math.floor(rest / scale))} ${name}`);
+        rest %= scale;
+      }
+    }
+    if (rest > 0) {
+      const joined = british && parts.length > 0 && rest < 100;
+      parts.push(`${joined ? 'and ' : ''}${belowThousand(rest)}`);
+    }
+    return parts.join(' ');
+  };
+
+  return cardinal;
+};
+
+const americanCardinal = createCardinal(false);
+const britishCardinal = createCardinal(true);
+
+const createOrdinal = (cardinal: (n: number) => string) => (n: number): string => {
+  const words = cardinal(n);
+  return words.replace(/([a-z]+)$/, (last) => {
+    if (IRREGULAR_ORDINALS[last]) return IRREGULAR_ORDINALS[last];
+    if (last.endsWith('y')) return `${last.slice(0, -1)}ieth`;
+    return `${last}th`;
+  });
+};
+
+/**
+ * Years are read in pairs ("nineteen oh five", "twenty twenty-five"),
+ * except 2000-2009 ("two thousand five")
+ */
+const createYear = (cardinal: (n: number) => string) => (n: number): string => {
+  if (n >= 2000 && n < 2010) return cardinal(n);
+  const century = Math.floor(n / 100);
+  const rest = n % 100;
+  if (rest === 0) return `${cardinal(century)} hundred`;
+  return `${cardinal(century)} ${rest < 10 ? `oh ${ONES[rest]}` : cardinal(rest)}`;
+};
+
+// Twelve-hour clock, e.g. "two thirty P M"
+const time = (hours: number, minutes: number, meridiem: 'am' | 'pm' | null): string => {
+  const suffix = (meridiem ?? (hours >= 12 ? 'pm' : 'am')) === 'am' ? 'A M' : 'P M';
+  const hour = ONES[hours % 12 === 0 ? 12 : hours % 12];
+  if (minutes === 0) return `${hour} ${suffix}`;
+  return `${hour} ${minutes < 10 ? `oh ${ONES[minutes]}` : americanCardinal(minutes)} ${suffix}`;
+};
+
+const count = (cardinal: (n: number) => string) => (n: number, [one, other]: NounForms): string => {
+  return `${cardinal(n)} ${n === 1 ? one : other}`;
+};
+
+// "one half", "three quarters", "five eighths"
+const createFraction = (cardinal: (n: number) => string) => (numerator: number, denominator: number): string => {
+  if (denominator === 2) return count(cardinal)(numerator, ['half', 'halves']);
+  if (denominator === 4) return count(cardinal)(numerator, ['quarter', 'quarters']);
+  const ordinal = createOrdinal(cardinal)(denominator);
+  return count(cardinal)(numerator, [ordinal, `${ordinal}s`]);
+};
+
+const units: Record<string, NounForms> = {
+  'km': ['kilometer', 'kilometers'],
+  'm': ['meter', 'meters'],
+  'cm': ['centimeter', 'centimeters'],
+  'mm': ['millimeter', 'millimeters'],
+  'kg': ['kilogram', 'kilograms'],
+  'g': ['gram', 'grams'],
+  'mg': ['milligram', 'milligrams'],
+  'l': ['liter', 'liters'],
+  'ml': ['milliliter', 'milliliters'],
+  'km/h': ['kilometer per hour', 'kilometers per hour'],
+  'mph': ['mile per hour', 'miles per hour'],
+  '°C': ['degree Celsius', 'degrees Celsius'],
+  '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+  'KB': ['kilobyte', 'kilobytes'],
+  'MB': ['megabyte', 'megabytes'],
+  'GB': ['gigabyte', 'gigabytes'],
+  'TB': ['terabyte', 'terabytes'],
+  's': ['second', 'seconds'],
+  'min': ['minute', 'minutes'],
+  'h': ['hour', 'hours'],
+};
+
+const britishUnits: Record<string, NounForms> = Object.fromEntries(
+  Object.entries(units).map(([unit, forms]) => [
+    unit,
+    forms.map(form => form.replace(/meter/, 'metre').replace(/liter/, 'litre')) as NounForms,
+  ])
+);
+
+const shared = {
+  decimalSeparator: '.',
+  groupSeparator: ',',
+  time,
+  decimalStyle: 'digits' as const,
+  yearPrepositions: ['in', 'since', 'by', 'of', 'from', 'until', 'before', 'after', 'during'],
+  // "nineteen nineties", "sixes"
+  plural: (words: string) => words.replace(/([a-z]+)$/, (last) => {
+    if (last.endsWith('y')) return `${last.slice(0, -1)}ies`;
+    return last.endsWith('x') ? `${last}es` : `${last}s`;
+  }),
+  words: {
+    point: 'point',
+    minus: 'minus',
+    plus: 'plus',
+    percent: 'percent',
+    and: 'and',
+    per: 'per',
+  },
+  currencies: {
+    USD: { major: ['dollar', 'dollars'], minor: ['cent', 'cents'] },
+    EUR: { major: ['euro', 'euros'], minor: ['cent', 'cents'] },
+    GBP: { major: ['pound', 'pounds'], minor: ['penny', 'pence'] },
+    JPY: { major: ['yen', 'yen'] },
+  } satisfies NormalizationLocale['currencies'],
+};
+
+const writtenOrdinals = (ordinal: (n: number) => string): NormalizationLocale['writtenOrdinals'] => ({
+  pattern: /\b(\d+)(?:st|nd|rd|th)\b/g,
+  read: ordinal,
+});
+
+export const englishUS: NormalizationLocale = {
+  ...shared,
+  tag: 'en-US',
+  name: 'English (US)',
+  dateOrder: 'mdy',
+  cardinal: americanCardinal,
+  ordinal: createOrdinal(americanCardinal),
+  writtenOrdinals: writtenOrdinals(createOrdinal(americanCardinal)),
+  count: count(americanCardinal),
+  fraction: createFraction(americanCardinal),
+  year: createYear(americanCardinal),
+  date: (day, month, year) => {
+    const date = `${MONTHS[month - 1]} ${createOrdinal(americanCardinal)(day)}`;
+    return year === null ? date : `${date}, ${createYear(americanCardinal)(year)}`;
+  },
+  units,
+};
+
+export const englishUK: NormalizationLocale = {
+  ...shared,
+  tag: 'en-GB',
+  name: 'English (UK)',
+  dateOrder: 'dmy',
+  cardinal: britishCardinal,
+  ordinal: createOrdinal(britishCardinal),
+  writtenOrdinals: writtenOrdinals(createOrdinal(britishCardinal)),
+  count: count(britishCardinal),
+  fraction: createFraction(britishCardinal),
+  year: createYear(britishCardinal),
+  date: (day, month, year) => {
+    const date = `the ${createOrdinal(britishCardinal)(day)} of ${MONTHS[month - 1]}`;
+    return year === null ? date : `${date} ${createYear(britishCardinal)(year)}`;
+  },
+  units: britishUnits,
+};
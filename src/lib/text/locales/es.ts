@@ -0,0 +1,149 @@
+/**
+ * Spanish number, date and unit wording
+ */
+
+import type { NormalizationLocale, NounForms } from '@/lib/text/locales/types';
+
+const ONES = [
+  'cero', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve',
+  'diez', 'once', 'doce', 'trece', 'catorce', 'quince', 'dieciséis', 'diecisiete', 'dieciocho', 'diecinueve',
+  'veinte', 'veintiuno', 'veintidós', 'veintitrés', 'veinticuatro', 'veinticinco', 'veintiséis', 'veintisiete',
+  'veintiocho', 'veintinueve',
+];
+const TENS = ['', '', '', 'treinta', 'cuarenta', 'cincuenta', 'sesenta', 'setenta', 'ochenta', 'noventa'];
+const HUNDREDS = [
+  '', 'ciento', 'doscientos', 'trescientos', 'cuatrocientos', 'quinientos',
+  'seiscientos', 'setecientos', 'ochocientos', 'novecientos',
+];
+// Long scale: mil millones, then billón
+const LARGE_SCALES: [number, NounForms][] = [
+  [1e12, ['billón', 'billones']],
+  [1e6, ['millón', 'millones']],
+];
+const MONTHS = [
+  'enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio',
+  'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre',
+];
+const ORDINALS = [
+  '', 'primero', 'segundo', 'tercero', 'cuarto', 'quinto',
+  'sexto', 'séptimo', 'octavo', 'noveno', 'décimo',
+];
+
+// "uno" shortens before a noun or a larger number: "un millón", "veintiún euros"
+const apocope = (words: string): string => words.replace(/veintiuno$/, 'veintiún').replace(/uno$/, 'un');
+
+const belowHundred = (n: number): string => {
+  if (n < 30) return ONES[n];
+  const ones = n % 10;
+  return ones === 0 ? TENS[n / 10] : `${TENS[Math.floor(n / 10)]} y ${ONES[ones]}`;
+};
+
+const belowThousand = (n: number): string => {
+  if (n === 100) return 'cien';
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (hundreds === 0) return belowHundred(rest);
+  return rest === 0 ? HUNDREDS[hundreds] : `${HUNDREDS[hundreds]} ${belowHundred(rest)}`;
+};
+
+const belowMillion = (n: number): string => {
+  const thousands = Math.floor(n / 1000);
+  const rest = n % 1000;
+  if (thousands === 0) return belowThousand(rest);
+
+  const thousand = thousands === 1 ? 'mil' : `${apocope(belowThousand(thousands))} mil`;
+  return rest === 0 ? thousand : `${thousand} ${belowThousand(rest)}`;
+};
+
+const cardinal = (n: number): string => {
+  const parts: string[] = [];
+  let rest = n;
+  for (const [scale, [one, other]] of LARGE_SCALES) {
+    if (rest >= scale) {
+      const count = Math.floor(rest / scale);
+      parts.push(count === 1 ? `un ${one}` : `${apocope(belowMillion(count))} ${other}`);
+      rest %= scale;
+    }
+  }
+  if (rest > 0 || parts.length === 0) {
+    parts.push(belowMillion(rest));
+  }
+  return parts.join(' ');
+};
+
+// Beyond the tenth, cardinals are the everyday choice
+const ordinal = (n: number): string => ORDINALS[n] ?? cardinal(n);
+
+// "un medio", "dos tercios", "tres cuartos", "un doceavo"
+const fraction = (numerator: number, denominator: number): string => {
+  const noun = denominator === 2 ? 'medio'
+    : denominator === 3 ? 'tercio'
+    : denominator <= 10 ? ORDINALS[denominator]
+    : `${cardinal(denominator)}avo`;
+  return `${apocope(cardinal(numerator))} ${noun}${numerator === 1 ? '' : 's'}`;
+};
+
+const units: Record<string, NounForms> = {
+  'km': ['kilómetro', 'kilómetros'],
+  'm': ['metro', 'metros'],
+  'cm': ['centímetro', 'centímetros'],
+  'mm': ['milímetro', 'milímetros'],
+  'kg': ['kilogramo', 'kilogramos'],
+  'g': ['gramo', 'gramos'],
+  'mg': ['miligramo', 'miligramos'],
+  'l': ['litro', 'litros'],
+  'ml': ['mililitro', 'mililitros'],
+  'km/h': ['kilómetro por hora', 'kilómetros por hora'],
+  'mph': ['milla por hora', 'millas por hora'],
+  '°C': ['grado Celsius', 'grados Celsius'],
+  '°F': ['grado Fahrenheit', 'grados Fahrenheit'],
+  'KB': ['kilobyte', 'kilobytes'],
+  'MB': ['megabyte', 'megabytes'],
+  'GB': ['gigabyte', 'gigabytes'],
+  'TB': ['terabyte', 'terabytes'],
+  's': ['segundo', 'segundos'],
+  'min': ['minuto', 'minutos'],
+  'h': ['hora', 'horas'],
+};
+
+export const spanish: NormalizationLocale = {
+  tag: 'es-ES',
+  name: 'Español',
+  decimalSeparator: ',',
+  groupSeparator: '\\.',
+  dateOrder: 'dmy',
+  cardinal,
+  ordinal,
+  count: (n, [one, other]) => `${apocope(cardinal(n))} ${n === 1 ? one : other}`,
+  fraction,
+  year: cardinal,
+  date: (day, month, year) => {
+    const date = `${day === 1 ? 'primero' : cardinal(day)} de ${MONTHS[month - 1]}`;
+    return year === null ? date : `${date} de ${cardinal(year)}`;
+  },
+  time: (hours, minutes, meridiem) => {
+    const hour = meridiem === 'pm' && hours < 12 ? hours + 12 : hours;
+    const hourWords = hour === 1 ? 'una' : cardinal(hour);
+    return minutes === 0 ? `${hourWords} en punto` : `${hourWords} y ${cardinal(minutes)}`;
+  },
+  decimalStyle: 'number',
+  words: {
+    point: 'coma',
+    minus: 'menos',
+    plus: 'más',
+    percent: 'por ciento',
+    and: 'con',
+    per: 'por',
+  },
+  currencies: {
+    USD: { major: ['dólar', 'dólares'], minor: ['centavo', 'centavos'] },
+    EUR: { major: ['euro', 'euros'], minor: ['céntimo', 'céntimos'] },
+    GBP: { major: ['libra', 'libras'], minor: ['penique', 'peniques'] },
+    JPY: { major: ['yen', 'yenes'] },
+  },
+  units,
+  writtenOrdinals: {
+    pattern: /\b(\d+)\.?[ºª]/g,
+    read: ordinal,
+  },
+};
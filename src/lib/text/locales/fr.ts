@@ -0,0 +1,158 @@
+/**
+ * French number, date and unit wording
+ */
+
+import type { NormalizationLocale, NounForms } from '@/lib/text/locales/types';
+
+const ONES = [
+  'zéro', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf',
+  'dix', 'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize', 'dix-sept', 'dix-huit', 'dix-neuf',
+];
+const TENS = ['', '', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante'];
+const LARGE_SCALES: [number, NounForms][] = [
+  [1e12, ['billion', 'billions']],
+  [1e9, ['milliard', 'milliards']],
+  [1e6, ['million', 'millions']],
+];
+const MONTHS = [
+  'janvier', 'février', 'mars', 'avril', 'mai', 'juin',
+  'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre',
+];
+
+const belowHundred = (n: number): string => {
+  if (n < 20) return ONES[n];
+  // 70-79 and 90-99 count on from soixante and quatre-vingt
+  if (n >= 80) {
+    const rest = n - 80;
+    return rest === 0 ? 'quatre-vingts' : `quatre-vingt-${ONES[rest]}`;
+  }
+  if (n >= 70) {
+    return n === 71 ? 'soixante et onze' : `soixante-${ONES[n - 60]}`;
+  }
+  const ones = n % 10;
+  const tens = TENS[Math.floor(n / 10)];
+  if (ones === 0) return tens;
+  return ones === 1 ? `${tens} et un` : `${tens}-${ONES[ones]}`;
+};
+
+// `final` is false when another word follows, where "cents" and "vingts" lose their s
+const belowThousand = (n: number, final: boolean = true): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const tail = final ? belowHundred(rest) : belowHundred(rest).replace(/vingts$/, 'vingt');
+  if (hundreds === 0) return tail;
+
+  const hundred = hundreds === 1 ? 'cent' : `${ONES[hundreds]} cent${rest === 0 && final ? 's' : ''}`;
+  return rest === 0 ? hundred : `${hundred} ${tail}`;
+};
+
+const belowMillion = (n: number, final: boolean = true): string => {
+  const thousands = Math.floor(n / 1000);
+  const rest = n % 1000;
+  if (thousands === 0) return belowThousand(rest, final);
+
+  // "mille" never takes un or an s
+  const thousand = thousands === 1 ? 'mille' : `${belowThousand(thousands, false)} mille`;
+  return rest === 0 ? thousand : `${thousand} ${belowThousand(rest, final)}`;
+};
+
+const cardinal = (n: number): string => {
+  const parts: string[] = [];
+  let rest = n;
+  for (const [scale, [one, other]] of LARGE_SCALES) {
+    if (rest >= scale) {
+      const count = Math.floor(rest / scale);
+      parts.push(count === 1 ? `un ${one}` : `${belowMillion(count)} ${other}`);
+      rest %= scale;
+    }
+  }
+  if (rest > 0 || parts.length === 0) {
+    parts.push(belowMillion(rest));
+  }
+  return parts.join(' ');
+};
+
+const ordinal = (n: number): string => {
+  if (n === 1) return 'premier';
+  return cardinal(n)
+    .replace(/s$/, '')
+    .replace(/cinq$/, 'cinqu')
+    .replace(/neuf$/, 'neuv')
+    .replace(/e$/, '') + 'ième';
+};
+
+// "un demi", "deux tiers", "trois quarts", "cinq huitièmes"
+const fraction = (numerator: number, denominator: number): string => {
+  const count = numerator === 1 ? 'un' : cardinal(numerator);
+  const plural = numerator === 1 ? '' : 's';
+  if (denominator === 2) return `${count} demi${plural}`;
+  if (denominator === 3) return `${count} tiers`;
+  if (denominator === 4) return `${count} quart${plural}`;
+  return `${count} ${ordinal(denominator)}${plural}`;
+};
+
+const units: Record<string, NounForms> = {
+  'km': ['kilomètre', 'kilomètres'],
+  'm': ['mètre', 'mètres'],
+  'cm': ['centimètre', 'centimètres'],
+  'mm': ['millimètre', 'millimètres'],
+  'kg': ['kilogramme', 'kilogrammes'],
+  'g': ['gramme', 'grammes'],
+  'mg': ['milligramme', 'milligrammes'],
+  'l': ['litre', 'litres'],
+  'ml': ['millilitre', 'millilitres'],
+  'km/h': ['kilomètre par heure', 'kilomètres par heure'],
+  'mph': ['mile par heure', 'miles par heure'],
+  '°C': ['degré Celsius', 'degrés Celsius'],
+  '°F': ['degré Fahrenheit', 'degrés Fahrenheit'],
+  'KB': ['kilooctet', 'kilooctets'],
+  'MB': ['mégaoctet', 'mégaoctets'],
+  'GB': ['gigaoctet', 'gigaoctets'],
+  'TB': ['téraoctet', 'téraoctets'],
+  's': ['seconde', 'secondes'],
+  'min': ['minute', 'minutes'],
+  'h': ['heure', 'heures'],
+};
+
+export const french: NormalizationLocale = {
+  tag: 'fr-FR',
+  name: 'Français',
+  decimalSeparator: ',',
+  // Space, no-break space or narrow no-break space
+  groupSeparator: '[ \\u00a0\\u202f]',
+  dateOrder: 'dmy',
+  cardinal,
+  ordinal,
+  count: (n, [one, other]) => `${n === 1 ? 'un' : cardinal(n)} ${n === 1 ? one : other}`,
+  fraction,
+  year: cardinal,
+  date: (day, month, year) => {
+    const date = `${day === 1 ? 'premier' : cardinal(day)} ${MONTHS[month - 1]}`;
+    return year === null ? date : `${date} ${cardinal(year)}`;
+  },
+  time: (hours, minutes, meridiem) => {
+    const hour = meridiem === 'pm' && hours < 12 ? hours + 12 : hours;
+    const hourWords = hour === 1 ? 'une heure' : `${cardinal(hour)} heures`;
+    return minutes === 0 ? hourWords : `${hourWords} ${cardinal(minutes)}`;
+  },
+  decimalStyle: 'number',
+  words: {
+    point: 'virgule',
+    minus: 'moins',
+    plus: 'plus',
+    percent: 'pour cent',
+    and: 'et',
+    per: 'par',
+  },
+  currencies: {
+    USD: { major: ['dollar', 'dollars'], minor: ['cent', 'cents'] },
+    EUR: { major: ['euro', 'euros'], minor: ['centime', 'centimes'] },
+    GBP: { major: ['livre', 'livres'], minor: ['penny', 'pence'] },
+    JPY: { major: ['yen', 'yens'] },
+  },
+  units,
+  writtenOrdinals: {
+    pattern: /\b(\d+)(?:er|re|e|ème)\b/g,
+    read: ordinal,
+  },
+};
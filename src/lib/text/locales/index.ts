@@ -0,0 +1,26 @@
+/**
+ * Locales available for text normalization
+ */
+
+import type { NormalizationLocale } from '@/lib/text/locales/types';
+import { englishUK, englishUS } from '@/lib/text/locales/en';
+import { german } from '@/lib/text/locales/de';
+import { french } from '@/lib/text/locales/fr';
+import { spanish } from '@/lib/text/locales/es';
+
+export const NORMALIZATION_LOCALES: NormalizationLocale[] = [englishUS, englishUK, german, french, spanish];
+
+export const DEFAULT_LOCALE = englishUS.tag;
+
+/**
+ * Find the locale for a BCP-47 tag, falling back to the same language, then US English
+ */
+export const getNormalizationLocale = (tag: string): NormalizationLocale => {
+  const lower = tag.toLowerCase();
+  const language = lower.split('-')[0];
+  return NORMALIZATION_LOCALES.find(locale => locale.tag.toLowerCase() === lower)
+    ?? NORMALIZATION_LOCALES.find(locale => locale.tag.split('-')[0] === language)
+    ?? englishUS;
+};
+
+export type { NormalizationLocale, NounForms, CurrencyNames } from '@/lib/text/locales/types';
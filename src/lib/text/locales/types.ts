@@ -0,0 +1,58 @@
+/**
+ * Language rules used to verbalize numbers, dates and units
+ */
+
+// Singular and plural forms of a noun
+export type NounForms = [one: string, other: string];
+
+export interface CurrencyNames {
+  major: NounForms;
+  // Omitted for currencies without a minor unit in everyday use (yen)
+  minor?: NounForms;
+}
+
+export interface NormalizationLocale {
+  // BCP-47 tag, e.g. 'en-US'
+  tag: string;
+  name: string;
+  decimalSeparator: string;
+  // Regular expression source matching the thousands separator
+  groupSeparator: string;
+  dateOrder: 'mdy' | 'dmy';
+  // Non-negative integers
+  cardinal: (n: number) => string;
+  ordinal: (n: number) => string;
+  // A count followed by a noun, e.g. "one dollar", "zwei Euro"
+  count: (n: number, forms: NounForms) => string;
+  // Proper fractions, e.g. "two thirds", "ein Viertel"
+  fraction: (numerator: number, denominator: number) => string;
+  // Four-digit years where the language reads them differently from cardinals
+  year: (n: number) => string;
+  // Words after which a four-digit number is read as a year ("in 1999"), whatever follows it
+  yearPrepositions?: string[];
+  // Plural of a spoken number, for decades like "the 1990s"; without it such tokens are left as written
+  plural?: (words: string) => string;
+  date: (day: number, month: number, year: number | null) => string;
+  time: (hours: number, minutes: number, meridiem: 'am' | 'pm' | null) => string;
+  // Digits after the decimal separator: read one by one, or as a number
+  decimalStyle: 'digits' | 'number';
+  words: {
+    point: string;
+    minus: string;
+    plus: string;
+    percent: string;
+    // Joins major and minor currency amounts
+    and: string;
+    // Joins the units of "m/s"
+    per: string;
+  };
+  currencies: Record<string, CurrencyNames>;
+  // Also the time units ("s", "h", "min") that only appear after a slash
+  units: Record<string, NounForms>;
+  // Ordinals as written in text, e.g. "3rd" or "3."
+  writtenOrdinals: {
+    // Group 1 is the number
+    pattern: RegExp;
+    read: (n: number) => string;
+  };
+}
@@ -0,0 +1,341 @@
+/**
+ * Markdown reading mode: parse Markdown into the speech AST so it is read
+ * the way it renders. Headings get pauses (and optionally emphasis), list
+ * items are announced, links read their text, code blocks are skipped or
+ * mentioned, and table cells are read with their column headers.
+ */
+
+import { PAUSE_MS, toPlainText, type SpeechNode } from '@/lib/text/markup';
+
+export interface MarkdownReadingOptions {
+  // Read headings with emphasis, on top of the pauses around them
+  emphasizeHeadings: boolean;
+  // Announce list items ("Item 2: ...")
+  listCues: boolean;
+  // Leave code blocks out, or say that one was there
+  codeBlocks: 'skip' | 'summarize';
+}
+
+export const DEFAULT_MARKDOWN_OPTIONS: MarkdownReadingOptions = {
+  emphasizeHeadings: true,
+  listCues: true,
+  codeBlocks: 'summarize',
+};
+
+// Around headings and rules, and between list items (milliseconds)
+const HEADING_PAUSE_MS = 800;
+const ITEM_PAUSE_MS = 250;
+
+// Escapes, code spans, images, [slow] spans, links, autolinks, HTML tags,
+// strong and emphasis, strikethrough, and `...` pauses, in that priority
+const INLINE_PATTERN = new RegExp([
+  /\\([!-/:-@[-`{-~])/.source,
+  /(`+)([^`]|[^`][\s\S]*?[^`])\2(?!`)/.source,
+  /!\[[^\]]*\]\([^)]*\)/.source,
+  /\[slow\]([\s\S]*?)\[\/slow\]/.source,
+  /\[((?:[^\]\\]|\\.)+)\](?:\([^)]*\)|\[[^\]]*\])/.source,
+  /<((?:https?:\/\/|mailto:)[^>\s]+|[^>\s@]+@[^>\s]+)>/.source,
+  /<\/?[a-zA-Z][^>]*>/.source,
+  // Closes with the same marker it opened with (group 7 once joined)
+  String.raw`(\*\*|__)(\S(?:[\s\S]*?\S)?)\7`,
+  /\*([^\s*](?:[^*]*?[^\s*])?)\*/.source,
+  /(?<![\p{L}\p{N}_])_([^\s_](?:[^_]*?[^\s_])?)_(?![\p{L}\p{N}_])/u.source,
+  /~~([\s\S]+?)~~/.source,
+  /(\.{3,}|…)/.source,
+].join('|'), 'giu');
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const ATX_HEADING = /^(\s{0,3}#{1,6}\s+)(.*?)(\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^\s{0,3}(=+|-+)\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?/;
+const BLOCKQUOTE = /^(\s{0,3}>\s?)+/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const INDENTED_CODE = /^( {4}|\t)/;
+
+// The entities Markdown sources commonly carry; the engine would read them out
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  nbsp: ' ',
+};
+const ENTITY_PATTERN = /&(amp|lt|gt|nbsp);/g;
+
+interface Line {
+  start: number;
+  // End of the line's content, before the newline
+  end: number;
+  // Start of the next line
+  next: number;
+  text: string;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const splitLines = (source: string): Line[] => {
+  const lines: Line[] = [];
+  for (let start = 0; start < source.length;) {
+    const newline = source.indexOf('\n', start);
+    const end = newline === -1 ? source.length : newline;
+    const next = newline === -1 ? source.length : newline + 1;
+    lines.push({ start, end, next, text: source.slice(start, end) });
+    start = next;
+  }
+  return lines;
+};
+
+/**
+ * Inline Markdown in source[from, to) as speech nodes. Text nodes keep the
+ * offsets of the source they are read from; dropped syntax leaves gaps.
+ */
+const parseInline = (source: string, from: number, to: number): SpeechNode[] => {
+  const nodes: SpeechNode[] = [];
+  const text = source.slice(from, to);
+
+  const pushText = (start: number, end: number) => {
+    if (end > start) nodes.push({ type: 'text', text: text.slice(start, end), start: from + start, end: from + end });
+  };
+  // Entities become their own nodes, so the text around them keeps exact
+  // offsets and nothing is decoded twice ("&amp;lt;" reads "&lt;")
+  const pushDecoded = (start: number, end: number) => {
+    let last = start;
+    for (const match of text.slice(start, end).matchAll(ENTITY_PATTERN)) {
+      const index = start + match.index!;
+      pushText(last, index);
+      last = index + match[0].length;
+      nodes.push({ type: 'text', text: ENTITIES[match[1]], start: from + index, end: from + last });
+    }
+    pushText(last, end);
+  };
+  // Content of a construct, `offset` characters into the match
+  const inner = (index: number, offset: number, content: string) => {
+    return parseInline(source, from + index + offset, from + index + offset + content.length);
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index!;
+    const end = index + match[0].length;
+    const span = { start: from + index, end: from + end };
+    pushDecoded(last, index);
+    last = end;
+
+    const [, escaped, codeFence, code, slow, link, autolink, , strong, emphasis, underscore, strike, pause] = match;
+    if (escaped !== undefined) {
+      nodes.push({ type: 'text', text: escaped, ...span });
+    } else if (code !== undefined) {
+      pushText(index + codeFence.length, end - codeFence.length);
+    } else if (slow !== undefined) {
+      nodes.push({ type: 'slow', children: inner(index, 6, slow), ...span });
+    } else if (link !== undefined) {
+      nodes.push(...inner(index, 1, link));
+    } else if (autolink !== undefined) {
+      pushDecoded(index + 1, end - 1);
+    } else if (strong !== undefined) {
+      nodes.push({ type: 'emphasis', children: inner(index, 2, strong), ...span });
+    } else if (emphasis !== undefined || underscore !== undefined) {
+      nodes.push({ type: 'emphasis', children: inner(index, 1, emphasis ?? underscore), ...span });
+    } else if (strike !== undefined) {
+      nodes.push(...inner(index, 2, strike));
+    } else if (pause !== undefined) {
+      nodes.push({ type: 'pause', duration: PAUSE_MS, ...span });
+    }
+    // Images and HTML tags say nothing
+  }
+  pushDecoded(last, text.length);
+
+  return nodes;
+};
+
+/** Cell spans of a table row, without the outer pipes and padding */
+const tableCells = (source: string, line: Line): Span[] => {
+  const cells: Span[] = [];
+  let start = line.start;
+  for (let i = line.start; i <= line.end; i++) {
+    if (i === line.end || (source[i] === '|' && source[i - 1] !== '\\')) {
+      cells.push({ start, end: i });
+      start = i + 1;
+    }
+  }
+
+  const trimmed = cells.map(cell => {
+    const value = source.slice(cell.start, cell.end);
+    const leading = value.length - value.trimStart().length;
+    return { start: cell.start + leading, end: cell.start + leading + value.trim().length };
+  });
+  if (line.text.trimStart().startsWith('|')) trimmed.shift();
+  if (line.text.trimEnd().endsWith('|')) trimmed.pop();
+  return trimmed;
+};
+
+const isSpoken = (node: SpeechNode): boolean => node.type !== 'text' || node.text.trim() !== '';
+
+/**
+ * Parse Markdown into speech nodes, ready for the same slicing and rendering
+ * as editor markup. The editor's `[slow]` spans and `...` pauses still work.
+ */
+export const markdownToMarkup = (source: string, options: MarkdownReadingOptions = DEFAULT_MARKDOWN_OPTIONS): SpeechNode[] => {
+  const nodes: SpeechNode[] = [];
+  const lines = splitLines(source);
+  let paragraph: Span | null = null;
+  let fence: string | null = null;
+  let headers: string[] | null = null;
+  // Item count per indentation, for nested lists
+  const itemCounts = new Map<number, number>();
+
+  const flush = () => {
+    if (paragraph) nodes.push(...parseInline(source, paragraph.start, paragraph.end));
+    paragraph = null;
+  };
+  const newline = (line: Line) => {
+    if (line.next > line.end) nodes.push({ type: 'text', text: source.slice(line.end, line.next), start: line.end, end: line.next });
+  };
+  const pause = (span: Span, duration: number) => {
+    nodes.push({ type: 'pause', duration, ...span });
+  };
+  // Stand-in text has no source of its own; it is anchored to the syntax it replaces
+  const say = (span: Span, text: string) => {
+    nodes.push({ type: 'text', text, ...span });
+  };
+
+  const heading = (marker: Span, content: Span) => {
+    const children = parseInline(source, content.start, content.end);
+    if (!children.some(isSpoken)) return;
+
+    if (nodes.some(isSpoken)) pause(marker, HEADING_PAUSE_MS);
+    if (options.emphasizeHeadings) nodes.push({ type: 'emphasis', children, ...content });
+    else nodes.push(...children);
+    pause(marker, HEADING_PAUSE_MS);
+  };
+
+  const codeBlock = (line: Line, language: string) => {
+    if (options.codeBlocks === 'summarize') {
+      say({ start: line.start, end: line.end }, language ? `Code block in ${language}.` : 'Code block.');
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const following = lines[i + 1];
+
+    if (fence) {
+      if (line.text.trim().startsWith(fence) && !line.text.trim().slice(fence.length).trim()) fence = null;
+      continue;
+    }
+
+    const fenceMatch = line.text.match(FENCE);
+    if (fenceMatch) {
+      flush();
+      itemCounts.clear();
+      fence = fenceMatch[1];
+      codeBlock(line, fenceMatch[2]);
+      newline(line);
+      continue;
+    }
+
+    if (!line.text.trim()) {
+      flush();
+      headers = null;
+      newline(line);
+      continue;
+    }
+
+    // Table rows are read cell by cell, each with its column's header
+    if (headers && line.text.includes('|')) {
+      const cells = tableCells(source, line)
+        .map((cell, index) => ({ cell, index, value: toPlainText(parseInline(source, cell.start, cell.end)).trim() }))
+        .filter(({ value }) => value);
+      cells.forEach(({ cell, index, value }, position) => {
+        const label = headers![index] ? `${headers![index]}: ` : '';
+        const last = position === cells.length - 1;
+        say(cell, `${label}${value.replace(/[.,;:]$/, '')}${last ? '.' : ', '}`);
+      });
+      newline(line);
+      continue;
+    }
+    headers = null;
+
+    if (line.text.includes('|') && following && following.text.includes('|') && TABLE_SEPARATOR.test(following.text)) {
+      flush();
+      itemCounts.clear();
+      headers = tableCells(source, line).map(cell => toPlainText(parseInline(source, cell.start, cell.end)).trim());
+      i++;
+      continue;
+    }
+
+    const atx = line.text.match(ATX_HEADING);
+    if (atx) {
+      flush();
+      itemCounts.clear();
+      const contentStart = line.start + atx[1].length;
+      heading({ start: line.start, end: contentStart }, { start: contentStart, end: contentStart + atx[2].length });
+      newline(line);
+      continue;
+    }
+
+    if (following && !paragraph && SETEXT_UNDERLINE.test(following.text) && !LIST_ITEM.test(line.text)) {
+      itemCounts.clear();
+      const leading = line.text.length - line.text.trimStart().length;
+      const contentStart = line.start + leading;
+      heading({ start: following.start, end: following.end }, { start: contentStart, end: contentStart + line.text.trim().length });
+      newline(following);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line.text)) {
+      flush();
+      itemCounts.clear();
+      if (nodes.some(isSpoken)) pause({ start: line.start, end: line.end }, HEADING_PAUSE_MS);
+      newline(line);
+      continue;
+    }
+
+    const item = line.text.match(LIST_ITEM);
+    if (item) {
+      flush();
+      const indent = item[1].length;
+      for (const depth of itemCounts.keys()) {
+        if (depth > indent) itemCounts.delete(depth);
+      }
+      const ordinal = /^\d/.test(item[2]) ? parseInt(item[2], 10) : (itemCounts.get(indent) ?? 0) + 1;
+      itemCounts.set(indent, ordinal);
+
+      const marker = { start: line.start, end: line.start + item[0].length };
+      if (nodes.some(isSpoken)) pause(marker, ITEM_PAUSE_MS);
+      if (options.listCues) {
+        const task = item[3] === undefined ? '' : item[3] === ' ' ? ', to do' : ', done';
+        say(marker, `Item ${ordinal}${task}: `);
+      }
+      nodes.push(...parseInline(source, marker.end, line.end));
+      newline(line);
+      continue;
+    }
+
+    const quote = line.text.match(BLOCKQUOTE);
+    if (quote) {
+      flush();
+      nodes.push(...parseInline(source, line.start + quote[0].length, line.next));
+      continue;
+    }
+
+    // Indented code starts after a blank line, outside lists
+    if (INDENTED_CODE.test(line.text) && !paragraph && itemCounts.size === 0 && !lines[i - 1]?.text.trim()) {
+      codeBlock(line, '');
+      while (lines[i + 1] && INDENTED_CODE.test(lines[i + 1].text)) i++;
+      newline(lines[i]);
+      continue;
+    }
+
+    if (!/^\s/.test(line.text)) itemCounts.clear();
+    if (paragraph) paragraph.end = line.next;
+    else paragraph = { start: line.start, end: line.next };
+  }
+  flush();
+
+  return nodes;
+};
@@ -0,0 +1,257 @@
+/**
+ * Speech markup used by the text editor: `*emphasis*`, `[slow]...[/slow]`
+ * and `...` pauses. Parsed into a small AST that engines read as plain text
+ * or as per-segment prosody; none of them take SSML.
+ */
+
+interface BaseNode {
+  // Character offsets into the source text, markers included
+  start: number;
+  end: number;
+}
+
+export interface TextNode extends BaseNode {
+  type: 'text';
+  text: string;
+}
+
+export interface PauseNode extends BaseNode {
+  type: 'pause';
+  // Milliseconds
+  duration: number;
+}
+
+export interface EmphasisNode extends BaseNode {
+  type: 'emphasis';
+  children: SpeechNode[];
+}
+
+export interface SlowNode extends BaseNode {
+  type: 'slow';
+  children: SpeechNode[];
+}
+
+export type SpeechNode = TextNode | PauseNode | EmphasisNode | SlowNode;
+
+type ContainerNode = EmphasisNode | SlowNode;
+
+export interface SpeechSegment {
+  text: string;
+  // Offset of the segment's text in the source
+  start: number;
+  // Multipliers applied on top of the voice settings
+  rate: number;
+  pitch: number;
+  // Silence after the segment, in milliseconds
+  pauseAfter: number;
+}
+
+export const PAUSE_MS = 500;
+
+// Prosody used when an engine can't take SSML
+const EMPHASIS_RATE = 0.9;
+const EMPHASIS_PITCH = 1.15;
+const SLOW_RATE = 0.7;
+
+const TOKEN_PATTERN = /\[slow\]|\[\/slow\]|\*|\.{3,}|…/gi;
+
+/**
+ * Merge adjacent text nodes (left behind when unclosed markup is unwrapped)
+ */
+const mergeText = (nodes: SpeechNode[]): SpeechNode[] => {
+  const merged: SpeechNode[] = [];
+  for (const node of nodes) {
+    const previous = merged[merged.length - 1];
+    if (node.type === 'text' && previous?.type === 'text' && previous.end === node.start) {
+      merged[merged.length - 1] = { ...previous, text: previous.text + node.text, end: node.end };
+    } else if (node.type === 'emphasis' || node.type === 'slow') {
+      merged.push({ ...node, children: mergeText(node.children) });
+    } else {
+      merged.push(node);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Parse editor markup. Unmatched `*` is kept as literal text, an unclosed
+ * `[slow]` runs to the end, and a stray `[/slow]` is dropped.
+ */
+export const parseMarkup = (text: string): SpeechNode[] => {
+  const root: SpeechNode[] = [];
+  const stack: { node: ContainerNode; parent: SpeechNode[] }[] = [];
+  const current = () => stack.length > 0 ? stack[stack.length - 1].node.children : root;
+
+  const pushText = (from: number, to: number) => {
+    if (to > from) {
+      current().push({ type: 'text', text: text.slice(from, to), start: from, end: to });
+    }
+  };
+
+  // An emphasis that never closed becomes a literal `*` followed by its content
+  const unwrapEmphasis = (node: EmphasisNode, parent: SpeechNode[]) => {
+    const index = parent.indexOf(node);
+    parent.splice(index, 1, { type: 'text', text: '*', start: node.start, end: node.start + 1 }, ...node.children);
+  };
+
+  const close = (node: ContainerNode, end: number) => {
+    node.end = end;
+    stack.pop();
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const token = match[0].toLowerCase();
+    pushText(last, start);
+    last = end;
+
+    const top = stack[stack.length - 1]?.node;
+    if (token === '*') {
+      if (top?.type === 'emphasis' && start > 0 && !/\s/.test(text[start - 1])) {
+        close(top, end);
+      } else if (end < text.length && !/\s/.test(text[end])) {
+        const node: EmphasisNode = { type: 'emphasis', children: [], start, end: text.length };
+        const parent = current();
+        parent.push(node);
+        stack.push({ node, parent });
+      } else {
+        pushText(start, end);
+      }
+    } else if (token === '[slow]') {
+      const node: SlowNode = { type: 'slow', children: [], start, end: text.length };
+      const parent = current();
+      parent.push(node);
+      stack.push({ node, parent });
+    } else if (token === '[/slow]') {
+      if (!stack.some(entry => entry.node.type === 'slow')) continue;
+      // Emphasis left open inside the slow span can't continue past it
+      while (stack[stack.length - 1].node.type !== 'slow') {
+        const { node, parent } = stack.pop()!;
+        unwrapEmphasis(node as EmphasisNode, parent);
+      }
+      close(stack[stack.length - 1].node, end);
+    } else {
+      current().push({ type: 'pause', duration: PAUSE_MS, start, end });
+    }
+  }
+  pushText(last, text.length);
+
+  while (stack.length > 0) {
+    const { node, parent } = stack.pop()!;
+    if (node.type === 'emphasis') {
+      unwrapEmphasis(node, parent);
+    }
+  }
+
+  return mergeText(root);
+};
+
+/**
+ * Cut the AST down to the source range [from, to), e.g. one synthesis chunk.
+ * Offsets in the result are relative to `from`.
+ */
+export const sliceMarkup = (nodes: SpeechNode[], from: number, to: number): SpeechNode[] => {
+  return nodes.flatMap((node): SpeechNode[] => {
+    if (node.end <= from || node.start >= to) return [];
+
+    const start = Math.max(node.start, from);
+    const end = Math.min(node.end, to);
+    switch (node.type) {
+      case 'text':
+        // Text standing in for its source (an alias, a Markdown cue) can't be
+        // cut by offset; it goes with the range it starts in
+        if (node.text.length !== node.end - node.start) {
+          return node.start >= from ? [{ ...node, start: start - from, end: end - from }] : [];
+        }
+        return [{ ...node, text: node.text.slice(start - node.start, end - node.start), start: start - from, end: end - from }];
+      case 'pause':
+        return [{ ...node, start: node.start - from, end: node.end - from }];
+      default:
+        return [{ ...node, start: start - from, end: end - from, children: sliceMarkup(node.children, from, to) }];
+    }
+  });
+};
+
+/**
+ * Text with markup removed; pauses become an ellipsis
+ */
+export const toPlainText = (nodes: SpeechNode[]): string => {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'pause':
+        return '...';
+      default:
+        return toPlainText(node.children);
+    }
+  }).join('');
+};
+
+/**
+ * Rewrite the text of every text node, keeping the structure
+ */
+export const mapMarkupText = (nodes: SpeechNode[], transform: (text: string) => string): SpeechNode[] => {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return { ...node, text: transform(node.text) };
+      case 'pause':
+        return node;
+      default:
+        return { ...node, children: mapMarkupText(node.children, transform) };
+    }
+  });
+};
+
+/**
+ * Flatten into runs of text sharing the same rate/pitch, with pauses between,
+ * for engines that can only vary prosody per utterance
+ */
+export const toSpeechSegments = (nodes: SpeechNode[]): SpeechSegment[] => {
+  const segments: SpeechSegment[] = [];
+
+  const walk = (children: SpeechNode[], rate: number, pitch: number) => {
+    for (const node of children) {
+      const previous = segments[segments.length - 1];
+      switch (node.type) {
+        case 'text':
+          if (previous && previous.rate === rate && previous.pitch === pitch && previous.pauseAfter === 0) {
+            previous.text += node.text;
+          } else {
+            segments.push({ text: node.text, start: node.start, rate, pitch, pauseAfter: 0 });
+          }
+          break;
+        case 'pause':
+          if (previous) {
+            previous.pauseAfter += node.duration;
+          } else {
+            segments.push({ text: '', start: node.start, rate, pitch, pauseAfter: node.duration });
+          }
+          break;
+        case 'emphasis':
+          walk(node.children, rate * EMPHASIS_RATE, pitch * EMPHASIS_PITCH);
+          break;
+        case 'slow':
+          walk(node.children, rate * SLOW_RATE, pitch);
+          break;
+      }
+    }
+  };
+
+  walk(nodes, 1, 1);
+
+  // Fold punctuation-only runs (e.g. the "." after a slow span) into the previous segment
+  return segments.reduce<SpeechSegment[]>((result, segment) => {
+    const previous = result[result.length - 1];
+    if (previous && !/[\p{L}\p{N}]/u.test(segment.text)) {
+      previous.text += segment.text;
+      previous.pauseAfter += segment.pauseAfter;
+    } else if (segment.text.trim() || segment.pauseAfter > 0) {
+      result.push(segment);
+    }
+    return result;
+  }, []);
+};
@@ -0,0 +1,265 @@
+/**
+ * Text normalization: spell out numbers, dates, times, currencies,
+ * percentages, phone numbers and units the way the selected locale reads them,
+ * so every voice says "$1,250.50" the same way.
+ */
+
+import { getNormalizationLocale, type NormalizationLocale } from '@/lib/text/locales';
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+};
+
+// Longer units first so "km/h" isn't read as "km"
+const UNIT_PATTERN = 'km/h|km|cm|mm|mg|ml|kg|mph|m|g|l|°C|°F|KB|MB|GB|TB';
+// Units after a slash, as in "m/s"; time units only appear here
+const PER_UNIT_PATTERN = `min|h|s|${UNIT_PATTERN}`;
+
+// Largest denominator read as a fraction; "1/250" is more likely a ratio
+const MAX_DENOMINATOR = 100;
+
+// Beyond this, numbers are read digit by digit
+const MAX_CARDINAL = 1e15;
+
+interface LocalePatterns {
+  date: RegExp;
+  isoDate: RegExp;
+  time: RegExp;
+  fraction: RegExp;
+  phone: RegExp;
+  currencyBefore: RegExp;
+  currencyAfter: RegExp;
+  percent: RegExp;
+  perUnit: RegExp;
+  unit: RegExp;
+  year: RegExp;
+  decade: RegExp;
+  number: RegExp;
+  groupedNumber: RegExp;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const patternCache = new Map<string, LocalePatterns>();
+
+const getPatterns = (locale: NormalizationLocale): LocalePatterns => {
+  const cached = patternCache.get(locale.tag);
+  if (cached) return cached;
+
+  const decimal = escapeRegExp(locale.decimalSeparator);
+  const group = locale.groupSeparator;
+  const number = `\\d{1,3}(?:${group}\\d{3})+(?:${decimal}\\d+)?|\\d+(?:${decimal}\\d+)?`;
+  // Not part of a word, a version number or a longer number
+  const bounded = (source: string) => `(?<![\\p{L}\\d.,])(?:${source})(?![.,]?\\d)`;
+  // Optional minus sign, only at the start of a word
+  const signed = (source: string) => `(?:(?<=^|[\\s(])([-−]))?${bounded(source)}`;
+  const symbols = Object.keys(CURRENCY_SYMBOLS).map(escapeRegExp).join('');
+  const codes = Object.keys(locale.currencies).join('|');
+  // Either case for the first letter, so "In 1999" counts too
+  const prepositions = (locale.yearPrepositions ?? [])
+    .map(word => `[${word[0].toUpperCase()}${word[0]}]${escapeRegExp(word.slice(1))}`)
+    .join('|');
+  const year = '(1[1-9]\\d\\d|20\\d\\d)';
+
+  const patterns: LocalePatterns = {
+    date: /(?<!\d)(\d{1,2})([/.])(\d{1,2})\2(\d{4}|\d{2})(?![\d/.]\d)/g,
+    isoDate: /(?<!\d)(\d{4})-(\d{2})-(\d{2})(?!\d)/g,
+    time: /(?<!\d)([01]?\d|2[0-3]):([0-5]\d)(?:\s?([ap])\.?m\b\.?)?(?!\d)|(?<!\d)(1[0-2]|0?[1-9])\s?([ap])\.?m\b\.?/gi,
+    fraction: /(?<![\p{L}\d./,:])(\d{1,3})\/(\d{1,3})(?![\p{L}\d/]|[.,]\d)/gu,
+    phone: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]\d{2,4}){1,4}(?![\w])/g,
+    currencyBefore: new RegExp(`(?:([${symbols}])|\\b(${codes})\\s?)(${number})(?![.,]?\\d)`, 'gu'),
+    currencyAfter: new RegExp(`${bounded(`(${number})`)}\\s?(?:([${symbols}])|(${codes})\\b)`, 'gu'),
+    percent: new RegExp(`${signed(`(${number})`)}\\s?%`, 'gu'),
+    perUnit: new RegExp(`${signed(`(${number})`)}\\s?(${UNIT_PATTERN})/(${PER_UNIT_PATTERN})(?![\\p{L}\\d])`, 'gu'),
+    unit: new RegExp(`${signed(`(${number})`)}\\s?(${UNIT_PATTERN})(?![\\p{L}\\d])`, 'gu'),
+    // Bare four-digit years: after a preposition like "in", or before punctuation, the end or another word
+    year: new RegExp([
+      ...(prepositions ? [`(?<=(?<!\\p{L})(?:${prepositions})\\s+)${bounded(year)}(?!\\p{L})`] : []),
+      `${bounded(year)}(?=\\s*(?:[.,;:!?)]|$)|\\s+\\p{L})`,
+    ].join('|'), 'gu'),
+    // "1990s", "'90s", "1990's"
+    decade: /(?<![\p{L}\d.,])'?(\d+)'?s(?![\p{L}\d])/gu,
+    // Numbers glued to letters ("4K", "101B") are left as written
+    number: new RegExp(`${signed(`(${number})`)}(?!\\p{L})`, 'gu'),
+    groupedNumber: new RegExp(`^(?:${number})$`),
+  };
+  patternCache.set(locale.tag, patterns);
+  return patterns;
+};
+
+const readDigits = (digits: string, locale: NormalizationLocale): string => {
+  return Array.from(digits, digit => locale.cardinal(Number(digit))).join(' ');
+};
+
+const readInteger = (digits: string, locale: NormalizationLocale): string => {
+  const value = Number(digits);
+  return value < MAX_CARDINAL ? locale.cardinal(value) : readDigits(digits, locale);
+};
+
+/**
+ * Split a written number into integer digits and fraction digits
+ */
+const parseNumber = (written: string, locale: NormalizationLocale): { integer: string; fraction: string } => {
+  const [integer, fraction = ''] = written.split(locale.decimalSeparator);
+  return { integer: integer.replace(/\D/g, ''), fraction };
+};
+
+const readNumber = (written: string, locale: NormalizationLocale): string => {
+  const { integer, fraction } = parseNumber(written, locale);
+  const integerWords = readInteger(integer, locale);
+  if (!fraction) return integerWords;
+
+  if (locale.decimalStyle === 'digits') {
+    return `${integerWords} ${locale.words.point} ${readDigits(fraction, locale)}`;
+  }
+  // Leading zeros are spoken, the rest is read as a number ("virgule zéro cinq")
+  const zeros = fraction.match(/^0*/)![0];
+  const rest = fraction.slice(zeros.length);
+  const fractionWords = [readDigits(zeros, locale), rest ? readInteger(rest, locale) : ''].filter(Boolean).join(' ');
+  return `${integerWords} ${locale.words.point} ${fractionWords}`;
+};
+
+const readSigned = (minus: string | undefined, words: string, locale: NormalizationLocale): string => {
+  return minus ? `${locale.words.minus} ${words}` : words;
+};
+
+const readCount = (written: string, forms: [string, string], locale: NormalizationLocale): string => {
+  const { integer, fraction } = parseNumber(written, locale);
+  if (fraction || Number(integer) >= MAX_CARDINAL) {
+    return `${readNumber(written, locale)} ${forms[1]}`;
+  }
+  return locale.count(Number(integer), forms);
+};
+
+const readCurrency = (written: string, code: string, locale: NormalizationLocale): string => {
+  const names = locale.currencies[code];
+  const { integer, fraction } = parseNumber(written, locale);
+  if (!names.minor || fraction.length > 2 || Number(integer) >= MAX_CARDINAL) {
+    return readCount(written, names.major, locale);
+  }
+
+  const major = locale.count(Number(integer), names.major);
+  const cents = Number(fraction.padEnd(2, '0'));
+  if (!fraction || cents === 0) return major;
+
+  const minor = locale.count(cents, names.minor);
+  return Number(integer) === 0 ? minor : `${major} ${locale.words.and} ${minor}`;
+};
+
+const readPhone = (written: string, locale: NormalizationLocale): string => {
+  const groups = written.match(/\d+/g) ?? [];
+  const words = groups.map(group => readDigits(group, locale)).join(', ');
+  return written.trimStart().startsWith('+') ? `${locale.words.plus} ${words}` : words;
+};
+
+const isValidDate = (day: number, month: number, year: number): boolean => {
+  if (month < 1 || month > 12 || day < 1) return false;
+  // Day 0 of the next month is the last of this one
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+// Inputs shown with their readings in the preview, covering the cases that are easy to get wrong
+export const NORMALIZATION_EXAMPLES = [
+  'It cost $1,250.50 on 3/4/2021 at 5pm.',
+  'In 1999 and 2020, prices rose 25%.',
+  'Buy a 4K TV with 5G and 3D.',
+  'Room 101B is #1.',
+  'Music of the 1990s',
+  'Add 1/2 cup at 2:05 pm. 0.5 kg moves at 100 m/s.',
+];
+
+/**
+ * Spell out numbers and number-like expressions in `text` for `localeTag`.
+ * Anything that doesn't parse cleanly (e.g. an impossible date) is left as written.
+ */
+export const normalizeText = (text: string, localeTag: string): string => {
+  const locale = getNormalizationLocale(localeTag);
+  const patterns = getPatterns(locale);
+
+  return text
+    .replace(patterns.isoDate, (match, year: string, month: string, day: string) => {
+      return isValidDate(Number(day), Number(month), Number(year))
+        ? locale.date(Number(day), Number(month), Number(year))
+        : match;
+    })
+    .replace(patterns.date, (match, first: string, _separator: string, second: string, yearText: string) => {
+      // "1/2/3" or "10/20/30" counts up in even steps: a list or ratio, not a date
+      if (yearText.length === 2 && Number(second) - Number(first) === Number(yearText) - Number(second)) return match;
+
+      const [day, month] = locale.dateOrder === 'mdy'
+        ? [Number(second), Number(first)]
+        : [Number(first), Number(second)];
+      const year = yearText.length === 2
+        ? Number(yearText) + (Number(yearText) < 50 ? 2000 : 1900)
+        : Number(yearText);
+      return isValidDate(day, month, year) ? locale.date(day, month, year) : match;
+    })
+    .replace(patterns.time, (
+      match: string,
+      hours: string | undefined,
+      minutes: string | undefined,
+      meridiem: string | undefined,
+      bareHours: string | undefined,
+      bareMeridiem: string | undefined,
+      offset: number,
+      source: string
+    ) => {
+      const marker = (meridiem ?? bareMeridiem)?.toLowerCase();
+      const spoken = locale.time(
+        Number(hours ?? bareHours),
+        Number(minutes ?? 0),
+        marker ? (marker === 'a' ? 'am' : 'pm') : null
+      );
+      // The dot of "p.m." may also end the sentence: kept unless a lowercase word follows
+      const after = source.slice(offset + match.length);
+      return match.endsWith('.') && /^(\s+[^\s\p{Ll}]|\s*$)/u.test(after) ? `${spoken}.` : spoken;
+    })
+    .replace(patterns.fraction, (match, numerator: string, denominator: string) => {
+      const [top, bottom] = [Number(numerator), Number(denominator)];
+      // "24/7" and "50/50" aren't fractions
+      if (top === 0 || top >= bottom || bottom > MAX_DENOMINATOR) return match;
+      return locale.fraction(top, bottom);
+    })
+    .replace(patterns.phone, (match) => {
+      const digits = match.replace(/\D/g, '');
+      const separators = match.match(/[\s.-]/g)?.length ?? 0;
+      const marked = match.includes('+') || match.includes('(') || separators >= 2;
+      // Grouped numbers like "1 250 000" in French look similar
+      if (digits.length < 7 || !marked || patterns.groupedNumber.test(match)) return match;
+      return readPhone(match, locale);
+    })
+    .replace(patterns.currencyBefore, (_match, symbol: string | undefined, code: string | undefined, amount: string) => {
+      return readCurrency(amount, symbol ? CURRENCY_SYMBOLS[symbol] : code!, locale);
+    })
+    .replace(patterns.currencyAfter, (_match, amount: string, symbol: string | undefined, code: string | undefined) => {
+      return readCurrency(amount, symbol ? CURRENCY_SYMBOLS[symbol] : code!, locale);
+    })
+    .replace(patterns.percent, (_match, minus: string | undefined, amount: string) => {
+      return `${readSigned(minus, readNumber(amount, locale), locale)} ${locale.words.percent}`;
+    })
+    .replace(patterns.perUnit, (_match, minus: string | undefined, amount: string, unit: string, per: string) => {
+      const words = `${readCount(amount, locale.units[unit], locale)} ${locale.words.per} ${locale.units[per][0]}`;
+      return readSigned(minus, words, locale);
+    })
+    .replace(patterns.unit, (_match, minus: string | undefined, amount: string, unit: string) => {
+      return readSigned(minus, readCount(amount, locale.units[unit], locale), locale);
+    })
+    .replace(locale.writtenOrdinals.pattern, (_match, value: string) => {
+      return locale.writtenOrdinals.read(Number(value));
+    })
+    .replace(patterns.decade, (match, digits: string) => {
+      if (!locale.plural) return match;
+      const value = Number(digits);
+      const isYear = digits.length === 4 && value >= 1100 && value < 2100;
+      return locale.plural(isYear ? locale.year(value) : readInteger(digits, locale));
+    })
+    .replace(patterns.year, (_match, first: string | undefined, second: string | undefined) => {
+      return locale.year(Number(first ?? second));
+    })
+    .replace(patterns.number, (_match, minus: string | undefined, amount: string) => {
+      return readSigned(minus, readNumber(amount, locale), locale);
+    });
+};
@@ -0,0 +1,137 @@
+/**
+ * Sentence segmentation with character offsets into the source text.
+ * Uses Intl.Segmenter where available (so scripts without spaces work),
+ * then drops boundaries after abbreviations, initials and quoted exclamations.
+ */
+
+import { isSentenceEnd, type ExpansionEntry } from '@/lib/text/abbreviations';
+
+export interface Sentence {
+  text: string;
+  // Character offsets into the segmented text
+  start: number;
+  end: number;
+}
+
+// Sentence marks, then any closing quotes or brackets
+const TERMINATOR = /[.!?…。！？।؟۔]+["'”’»)\]」』）]*$/u;
+// Without Intl.Segmenter: marks before whitespace, or CJK marks anywhere
+const FALLBACK_BOUNDARY = /[.!?…।؟۔]+["'”’»)\]]*(?=\s)|[。！？]+[」』”’）)]*/gu;
+// A line starting a list item ("- ", "• ", "1. ", "a) ") starts a new sentence
+const LIST_ITEM = /\n(?=[ \t]*(?:[-*•‣◦]|\d{1,3}[.)]|[a-z][.)])[ \t]+\S)/g;
+const BLANK_LINE = /\n[ \t]*\n/g;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+const getSegmenter = (locale?: string): Intl.Segmenter | null => {
+  if (typeof Intl === 'undefined' || !('Segmenter' in Intl)) return null;
+
+  const key = locale ?? '';
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(locale, { granularity: 'sentence' });
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+};
+
+/**
+ * Offsets inside `block` (relative to `text`) where a sentence may end
+ */
+const candidateBoundaries = (text: string, block: Span, locale?: string): number[] => {
+  const slice = text.slice(block.start, block.end);
+  const segmenter = getSegmenter(locale);
+  if (segmenter) {
+    return Array.from(segmenter.segment(slice), segment => block.start + segment.index).filter(index => index > block.start);
+  }
+  return Array.from(slice.matchAll(FALLBACK_BOUNDARY), match => block.start + match.index! + match[0].length);
+};
+
+/**
+ * Whether the text before `boundary` ends with a sentence mark that really
+ * ends the sentence. Breaks the segmenter makes at line breaks are dropped too.
+ */
+const isBoundary = (text: string, start: number, boundary: number, entries?: ExpansionEntry[]): boolean => {
+  const before = text.slice(start, boundary).trimEnd();
+  const terminator = before.match(TERMINATOR);
+  if (!terminator) return false;
+
+  // Check the last mark before any closing quotes
+  const marks = terminator[0].match(/^[.!?…。！？।؟۔]+/u)![0];
+  const index = start + terminator.index! + marks.length - 1;
+  return isSentenceEnd(text, index, entries);
+};
+
+const splitAt = (text: string, span: Span, pattern: RegExp): Span[] => {
+  const spans: Span[] = [];
+  let start = span.start;
+  for (const match of text.slice(span.start, span.end).matchAll(pattern)) {
+    const end = span.start + match.index!;
+    spans.push({ start, end });
+    start = end + match[0].length;
+  }
+  spans.push({ start, end: span.end });
+  return spans;
+};
+
+const trimSpan = (text: string, span: Span): Span | null => {
+  const piece = text.slice(span.start, span.end);
+  const trimmed = piece.trim();
+  if (!trimmed) return null;
+  const start = span.start + piece.length - piece.trimStart().length;
+  return { start, end: start + trimmed.length };
+};
+
+export interface SegmentOptions {
+  locale?: string;
+  start?: number;
+  end?: number;
+  // Abbreviation dictionaries whose titles ("Dr.") don't end a sentence; the built-ins by default
+  entries?: ExpansionEntry[];
+}
+
+/**
+ * Split `text` (or the part of it between `start` and `end`) into sentences.
+ * Paragraphs and list items always end a sentence; lines wrapped inside a
+ * sentence don't.
+ */
+export const segmentSentences = (
+  text: string,
+  { locale, start = 0, end = text.length, entries }: SegmentOptions = {}
+): Sentence[] => {
+  const sentences: Sentence[] = [];
+  const blocks = splitAt(text, { start, end }, BLANK_LINE)
+    .flatMap(paragraph => splitAt(text, paragraph, LIST_ITEM));
+
+  for (const block of blocks) {
+    let sentenceStart = block.start;
+    let segmentStart = block.start;
+    const ends: number[] = [];
+    for (const boundary of candidateBoundaries(text, block, locale)) {
+      if (boundary >= block.end) break;
+      if (isBoundary(text, segmentStart, boundary, entries)) ends.push(boundary);
+      segmentStart = boundary;
+    }
+
+    for (const boundary of [...ends, block.end]) {
+      const span = trimSpan(text, { start: sentenceStart, end: boundary });
+      if (span) sentences.push({ text: text.slice(span.start, span.end), ...span });
+      sentenceStart = boundary;
+    }
+  }
+
+  return sentences;
+};
+
+/**
+ * Find the sentence containing character offset `index`; an offset between
+ * sentences belongs to the next one
+ */
+export const findSentence = (sentences: Sentence[], index: number): Sentence | null => {
+  return sentences.find(sentence => index < sentence.end) ?? sentences[sentences.length - 1] ?? null;
+};
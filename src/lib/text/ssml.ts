@@ -0,0 +1,437 @@
+/**
+ * Hand-written SSML: parsing and validation against the subset we support,
+ * slicing into synthesis chunks, and degrading to editor markup, which is
+ * how every engine reads it: no engine takes SSML directly.
+ */
+
+import { PAUSE_MS, type SpeechNode } from '@/lib/text/markup';
+
+export interface SSMLText {
+  type: 'text';
+  // Decoded text; entities are split into their own nodes so offsets stay exact
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SSMLElement {
+  type: 'element';
+  name: string;
+  attributes: Record<string, string>;
+  children: SSMLNode[];
+  // Offsets into the source, from the opening `<` to the end of the closing tag
+  start: number;
+  end: number;
+}
+
+export type SSMLNode = SSMLText | SSMLElement;
+
+export interface SSMLIssue {
+  message: string;
+  start: number;
+  end: number;
+  // 1-based
+  line: number;
+  column: number;
+}
+
+export interface SSMLDocument {
+  nodes: SSMLNode[];
+  issues: SSMLIssue[];
+}
+
+type AttributeCheck = (value: string) => string | null;
+
+interface ElementSpec {
+  attributes: Record<string, AttributeCheck>;
+  required?: string[];
+  // At least one of these must be present
+  requireOneOf?: string[];
+  empty?: boolean;
+  textOnly?: boolean;
+}
+
+const anyValue: AttributeCheck = () => null;
+
+const oneOf = (values: string[]): AttributeCheck => (value) => {
+  return values.includes(value) ? null : `expected one of ${values.join(', ')}`;
+};
+
+const matches = (pattern: RegExp, hint: string): AttributeCheck => (value) => {
+  return pattern.test(value) ? null : hint;
+};
+
+const either = (...checks: AttributeCheck[]): AttributeCheck => (value) => {
+  const errors = checks.map(check => check(value));
+  return errors.includes(null) ? null : errors.join(', or ');
+};
+
+const TIME_PATTERN = /^\d+(\.\d+)?(ms|s)$/;
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+const BREAK_STRENGTHS = ['none', 'x-weak', 'weak', 'medium', 'strong', 'x-strong'];
+
+const SUPPORTED_ELEMENTS: Record<string, ElementSpec> = {
+  'speak': {
+    attributes: { 'version': anyValue, 'xmlns': anyValue, 'xml:lang': matches(LANGUAGE_PATTERN, 'expected a language tag like en-US') },
+  },
+  'break': {
+    attributes: {
+      'time': matches(TIME_PATTERN, 'expected a duration like 500ms or 1.5s'),
+      'strength': oneOf(BREAK_STRENGTHS),
+    },
+    empty: true,
+  },
+  'prosody': {
+    attributes: {
+      'rate': either(
+        oneOf(['x-slow', 'slow', 'medium', 'fast', 'x-fast', 'default']),
+        matches(/^\d+(\.\d+)?%?$/, 'a percentage like 80%')
+      ),
+      'pitch': either(
+        oneOf(['x-low', 'low', 'medium', 'high', 'x-high', 'default']),
+        matches(/^[+-]?\d+(\.\d+)?(%|Hz|st)$/, 'a change like +10% or -2st')
+      ),
+      'volume': either(
+        oneOf(['silent', 'x-soft', 'soft', 'medium', 'loud', 'x-loud', 'default']),
+        matches(/^[+-]?\d+(\.\d+)?dB$/, 'a change like +6dB')
+      ),
+    },
+    requireOneOf: ['rate', 'pitch', 'volume'],
+  },
+  'emphasis': {
+    attributes: { 'level': oneOf(['strong', 'moderate', 'none', 'reduced']) },
+  },
+  'say-as': {
+    attributes: { 'interpret-as': anyValue, 'format': anyValue, 'detail': anyValue },
+    required: ['interpret-as'],
+    textOnly: true,
+  },
+  'phoneme': {
+    attributes: { 'ph': anyValue, 'alphabet': oneOf(['ipa', 'x-sampa']) },
+    required: ['ph'],
+    textOnly: true,
+  },
+  'sub': {
+    attributes: { 'alias': anyValue },
+    required: ['alias'],
+    textOnly: true,
+  },
+  'lang': {
+    attributes: { 'xml:lang': matches(LANGUAGE_PATTERN, 'expected a language tag like fr-FR') },
+    required: ['xml:lang'],
+  },
+};
+
+export const SUPPORTED_SSML_ELEMENTS = Object.keys(SUPPORTED_ELEMENTS);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+const ENTITY_PATTERN = /&(?:([a-z]+)|#(\d+)|#x([0-9a-f]+));/gi;
+const TAG_PATTERN = /<(\/?)([A-Za-z][\w:.-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const decodeEntity = (match: RegExpMatchArray): string | null => {
+  if (match[1]) return ENTITIES[match[1].toLowerCase()] ?? null;
+  const code = match[2] ? Number(match[2]) : parseInt(match[3], 16);
+  return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : null;
+};
+
+const decodeEntities = (text: string): string => {
+  return text.replace(ENTITY_PATTERN, (entity, ...groups) => {
+    return decodeEntity([entity, ...groups] as RegExpMatchArray) ?? entity;
+  });
+};
+
+/**
+ * 1-based line and column of a source offset
+ */
+export const positionAt = (source: string, offset: number): { line: number; column: number } => {
+  const before = source.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+};
+
+/**
+ * Parse and validate SSML. Parsing never throws: problems are reported as
+ * issues and the tree holds whatever could be recovered.
+ */
+export const parseSSML = (source: string): SSMLDocument => {
+  const root: SSMLNode[] = [];
+  const issues: SSMLIssue[] = [];
+  const stack: SSMLElement[] = [];
+  const current = () => stack.length > 0 ? stack[stack.length - 1].children : root;
+
+  const report = (message: string, start: number, end: number) => {
+    issues.push({ message, start, end, ...positionAt(source, start) });
+  };
+
+  const pushText = (from: number, to: number) => {
+    const text = source.slice(from, to);
+    let last = 0;
+    const push = (piece: string, start: number, end: number) => {
+      if (end > start) current().push({ type: 'text', text: piece, start, end });
+    };
+
+    for (const match of text.matchAll(ENTITY_PATTERN)) {
+      const index = match.index!;
+      const decoded = decodeEntity(match);
+      if (decoded === null) continue;
+      push(text.slice(last, index), from + last, from + index);
+      push(decoded, from + index, from + index + match[0].length);
+      last = index + match[0].length;
+    }
+    push(text.slice(last), from + last, to);
+
+    // Any `&` that didn't start a known entity is a syntax error in XML
+    for (const match of text.matchAll(/&/g)) {
+      const index = match.index!;
+      const entity = text.slice(index).match(/^&(?:([a-z]+)|#(\d+)|#x([0-9a-f]+));/i);
+      if (!entity || decodeEntity(entity) === null) {
+        report('Unescaped "&"; write &amp; instead', from + index, from + index + 1);
+      }
+    }
+  };
+
+  const validateElement = (element: SSMLElement, openEnd: number) => {
+    const spec = SUPPORTED_ELEMENTS[element.name];
+    if (!spec) {
+      report(`Unsupported element <${element.name}>`, element.start, openEnd);
+      return;
+    }
+
+    for (const [name, value] of Object.entries(element.attributes)) {
+      const check = spec.attributes[name];
+      if (!check) {
+        report(`<${element.name}> doesn't support the "${name}" attribute`, element.start, openEnd);
+        continue;
+      }
+      const problem = check(value);
+      if (problem) {
+        report(`Invalid ${name}="${value}" on <${element.name}>: ${problem}`, element.start, openEnd);
+      }
+    }
+
+    for (const name of spec.required ?? []) {
+      if (!(name in element.attributes)) {
+        report(`<${element.name}> needs the ${name} attribute`, element.start, openEnd);
+      }
+    }
+    if (spec.requireOneOf && !spec.requireOneOf.some(name => name in element.attributes)) {
+      report(`<${element.name}> needs at least one of ${spec.requireOneOf.join(', ')}`, element.start, openEnd);
+    }
+    if (element.name === 'speak' && stack.length > 0) {
+      report('<speak> must be the outermost element', element.start, openEnd);
+    }
+  };
+
+  // Content rules can only be checked once the element is closed
+  const closeElement = (element: SSMLElement, end: number) => {
+    element.end = end;
+    const spec = SUPPORTED_ELEMENTS[element.name];
+    if (spec?.empty && element.children.some(child => child.type === 'element' || child.text.trim())) {
+      report(`<${element.name}> must be empty`, element.start, end);
+    }
+    if (spec?.textOnly && element.children.some(child => child.type === 'element')) {
+      report(`<${element.name}> can only contain text`, element.start, end);
+    }
+  };
+
+  let last = 0;
+  let index = source.indexOf('<');
+  while (index !== -1) {
+    pushText(last, index);
+
+    // Comments and the XML declaration carry no speech
+    const skip = source.startsWith('<!--', index) ? '-->' : source.startsWith('<?', index) ? '?>' : null;
+    if (skip) {
+      const close = source.indexOf(skip, index);
+      if (close === -1) {
+        report(skip === '-->' ? 'Unclosed comment' : 'Unclosed XML declaration', index, source.length);
+        last = source.length;
+        break;
+      }
+      last = close + skip.length;
+      index = source.indexOf('<', last);
+      continue;
+    }
+
+    TAG_PATTERN.lastIndex = index;
+    const tag = TAG_PATTERN.exec(source);
+    if (!tag) {
+      const end = source.indexOf('>', index);
+      report('Malformed tag; attribute values must be quoted and "<" in text written as &lt;', index, end === -1 ? index + 1 : end + 1);
+      // Keep the rest as text so later tags still parse
+      pushText(index, index + 1);
+      last = index + 1;
+      index = source.indexOf('<', last);
+      continue;
+    }
+
+    const [, closing, name, attributeSource, selfClosing] = tag;
+    const end = index + tag[0].length;
+
+    if (closing) {
+      const openIndex = stack.map(element => element.name).lastIndexOf(name);
+      if (openIndex === -1) {
+        report(`Unexpected closing tag </${name}>`, index, end);
+      } else {
+        // Anything opened after the matching element was never closed
+        while (stack.length - 1 > openIndex) {
+          const unclosed = stack.pop()!;
+          report(`<${unclosed.name}> is not closed`, unclosed.start, unclosed.start + unclosed.name.length + 1);
+          closeElement(unclosed, index);
+        }
+        closeElement(stack.pop()!, end);
+      }
+    } else {
+      const attributes: Record<string, string> = {};
+      for (const attribute of attributeSource.matchAll(ATTRIBUTE_PATTERN)) {
+        attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+
+      const element: SSMLElement = { type: 'element', name, attributes, children: [], start: index, end };
+      validateElement(element, end);
+      current().push(element);
+      if (selfClosing) {
+        closeElement(element, end);
+      } else {
+        stack.push(element);
+      }
+    }
+
+    last = end;
+    index = source.indexOf('<', last);
+  }
+  pushText(last, source.length);
+
+  while (stack.length > 0) {
+    const unclosed = stack.pop()!;
+    report(`<${unclosed.name}> is not closed`, unclosed.start, unclosed.start + unclosed.name.length + 1);
+    closeElement(unclosed, source.length);
+  }
+
+  // With an explicit <speak>, everything has to live inside it
+  if (root.some(node => node.type === 'element' && node.name === 'speak')) {
+    for (const node of root) {
+      const stray = node.type === 'element' ? node.name !== 'speak' : node.text.trim() !== '';
+      if (stray) {
+        report('Content outside <speak>', node.start, node.end);
+      }
+    }
+  }
+
+  issues.sort((a, b) => a.start - b.start);
+  return { nodes: root, issues };
+};
+
+export const validateSSML = (source: string): SSMLIssue[] => parseSSML(source).issues;
+
+/**
+ * Cut the tree down to the source range [from, to), e.g. one synthesis chunk.
+ * Elements are kept around any part of their content that falls in range.
+ * Offsets in the result are relative to `from`.
+ */
+export const sliceSSML = (nodes: SSMLNode[], from: number, to: number): SSMLNode[] => {
+  return nodes.flatMap((node): SSMLNode[] => {
+    if (node.end <= from || node.start >= to) return [];
+
+    if (node.type === 'text') {
+      // Entities can't be split; they belong to the chunk they start in
+      if (node.text.length !== node.end - node.start) {
+        return node.start >= from ? [{ ...node, start: node.start - from, end: node.end - from }] : [];
+      }
+      const start = Math.max(node.start, from);
+      const end = Math.min(node.end, to);
+      return [{ ...node, text: node.text.slice(start - node.start, end - node.start), start: start - from, end: end - from }];
+    }
+
+    // Empty elements like <break/> also belong to the chunk they start in
+    if (node.children.length === 0) {
+      return node.start >= from ? [{ ...node, start: node.start - from, end: node.end - from }] : [];
+    }
+
+    const children = sliceSSML(node.children, from, to);
+    if (children.length === 0) return [];
+    return [{
+      ...node,
+      start: Math.max(node.start, from) - from,
+      end: Math.min(node.end, to) - from,
+      children,
+    }];
+  });
+};
+
+const BREAK_STRENGTH_MS: Record<string, number> = {
+  'none': 0,
+  'x-weak': 100,
+  'weak': 250,
+  'medium': PAUSE_MS,
+  'strong': 750,
+  'x-strong': 1000,
+};
+
+const breakDuration = (attributes: Record<string, string>): number => {
+  const time = attributes.time?.match(TIME_PATTERN);
+  if (time) {
+    const value = parseFloat(attributes.time);
+    return time[2] === 's' ? value * 1000 : value;
+  }
+  return BREAK_STRENGTH_MS[attributes.strength] ?? PAUSE_MS;
+};
+
+const isSlowRate = (rate: string | undefined): boolean => {
+  if (!rate) return false;
+  if (rate === 'slow' || rate === 'x-slow') return true;
+  const value = parseFloat(rate);
+  return rate.endsWith('%') ? value < 100 : value < 1;
+};
+
+// Say-as values that mean "read letter by letter"
+const SPELLED_OUT = ['characters', 'spell-out'];
+
+// "API" → "A P I", as the abbreviation pass spells acronyms
+const spellOut = (text: string): string => Array.from(text.replace(/\s+/g, '')).join(' ');
+
+/**
+ * Reduce SSML to editor markup, the form engines read it in: breaks
+ * become pauses, emphasis and slow prosody are kept, <sub> reads its alias,
+ * <say-as interpret-as="characters"> is spelled out, and everything else is
+ * read as its text.
+ */
+export const ssmlToMarkup = (nodes: SSMLNode[]): SpeechNode[] => {
+  return nodes.flatMap((node): SpeechNode[] => {
+    if (node.type === 'text') {
+      return [{ type: 'text', text: node.text, start: node.start, end: node.end }];
+    }
+
+    const { start, end } = node;
+    switch (node.name) {
+      case 'break': {
+        const duration = breakDuration(node.attributes);
+        return duration > 0 ? [{ type: 'pause', duration, start, end }] : [];
+      }
+      case 'sub':
+        return [{ type: 'text', text: node.attributes.alias ?? '', start, end }];
+      case 'say-as':
+        return SPELLED_OUT.includes(node.attributes['interpret-as'])
+          ? [{ type: 'text', text: spellOut(node.children.map(child => child.type === 'text' ? child.text : '').join('')), start, end }]
+          : ssmlToMarkup(node.children);
+      case 'emphasis':
+        return node.attributes.level === 'none' || node.attributes.level === 'reduced'
+          ? ssmlToMarkup(node.children)
+          : [{ type: 'emphasis', children: ssmlToMarkup(node.children), start, end }];
+      case 'prosody':
+        return isSlowRate(node.attributes.rate)
+          ? [{ type: 'slow', children: ssmlToMarkup(node.children), start, end }]
+          : ssmlToMarkup(node.children);
+      default:
+        return ssmlToMarkup(node.children);
+    }
+  });
+};